@@ -2,6 +2,30 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+/**
+ * 解析 JSON 格式的环境变量，未设置或格式无效时使用默认值
+ */
+const parseJsonEnv = <T>(name: string, fallback: T): T => {
+  const value = process.env[name];
+  if (!value) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch (error) {
+    console.warn(`⚠️  ${name} 不是有效的JSON，已忽略`);
+    return fallback;
+  }
+};
+
+/**
+ * 按角色或企业单独设置的上传限制
+ */
+export interface UploadLimitOverride {
+  maxSize?: number; // 单个文件大小上限（字节）
+  maxFiles?: number; // 批量上传的文件数上限
+}
+
 export const config = {
   port: process.env.PORT || 3001,
   
@@ -13,7 +37,8 @@ export const config = {
   // JWT 配置
   jwt: {
     secret: process.env.USER_VIQUARD_JWT_SECRET || 'your-secret-key',
-    expiresIn: '7d'
+    expiresIn: '7d',
+    mediaExpiresIn: '1h' // 原始文件、截图、插图地址中的访问令牌有效期
   },
   
   // Mathpix 配置
@@ -22,12 +47,44 @@ export const config = {
     appId: process.env.MATHPIX_APP_ID || 'mareate_internal'
   },
   
-  // 文件上传配置
+  // OCR 服务配置
+  ocr: {
+    provider: process.env.OCR_PROVIDER || 'mathpix', // mathpix | file
+    fixtureDir: process.env.OCR_FIXTURE_DIR || 'fixtures/ocr',
+    pdfConversionTimeout: parseInt(process.env.PDF_CONVERSION_TIMEOUT || '300'), // 秒，同时作为轮询总时限
+    cacheTtlDays: parseInt(process.env.OCR_CACHE_TTL_DAYS || '90'), // 识别结果缓存在最后一次使用后保留的天数
+    pdfMaxSize: parseInt(process.env.OCR_PDF_MAX_SIZE || '10485760'), // 超过该大小（字节）的PDF拆分后识别
+    pdfMaxPages: parseInt(process.env.OCR_PDF_MAX_PAGES || '50'), // 超过该页数的PDF拆分后识别，同时作为每个分片的最大页数
+    pdfChunkConcurrency: parseInt(process.env.OCR_PDF_CHUNK_CONCURRENCY || '3') // 同时识别的PDF分片数
+  },
+  
+  // 文件上传配置，角色和企业的单独设置同时适用时取较大的上限
   upload: {
     maxSize: parseInt(process.env.MAX_FILE_SIZE || '10485760'), // 10MB
+    maxFiles: parseInt(process.env.MAX_BATCH_FILES || '10'),
+    roleLimits: parseJsonEnv<Record<string, UploadLimitOverride>>('UPLOAD_ROLE_LIMITS', {}), // 如 {"admin":{"maxSize":52428800}}
+    enterpriseLimits: parseJsonEnv<Record<string, UploadLimitOverride>>('UPLOAD_ENTERPRISE_LIMITS', {}), // 按企业邮箱后缀设置
     uploadDir: process.env.UPLOAD_DIR || 'uploads/'
   },
   
+  // 用量统计配置
+  usage: {
+    timezone: process.env.USAGE_TIMEZONE || 'Asia/Shanghai' // 按天统计用量时使用的时区
+  },
+  
+  // 默认配额（0 表示不限制），可在管理接口中为单个用户或企业单独设置
+  quota: {
+    userMonthlyPages: parseInt(process.env.QUOTA_USER_MONTHLY_PAGES || '500'),
+    userDailyFiles: parseInt(process.env.QUOTA_USER_DAILY_FILES || '100'),
+    enterpriseMonthlyPages: parseInt(process.env.QUOTA_ENTERPRISE_MONTHLY_PAGES || '0'),
+    enterpriseDailyFiles: parseInt(process.env.QUOTA_ENTERPRISE_DAILY_FILES || '0')
+  },
+  
+  // 任务记录配置
+  tasks: {
+    retentionDays: parseInt(process.env.TASK_RETENTION_DAYS || '30') // 任务记录保留天数
+  },
+  
   // 前端URL
   frontendUrl: process.env.FRONTEND_URL || 'http://localhost:5173',
   
@@ -46,12 +103,13 @@ export const config = {
     console.log(`  - SHARED_DATA_URI: ${this.database.sharedataURI ? '已设置' : '未设置'}`);
     console.log(`  - MATHPIX_API_KEY: ${this.mathpix.apiKey ? '已设置' : '未设置'}`);
     console.log(`  - MATHPIX_APP_ID: ${this.mathpix.appId}`);
+    console.log(`  - OCR_PROVIDER: ${this.ocr.provider}`);
     console.log(`  - USER_VIQUARD_JWT_SECRET: ${this.jwt.secret ? '已设置' : '未设置'}`);
     
     if (!this.database.sharedataURI) {
       console.warn('⚠️  SHARED_DATA_URI 环境变量未设置');
     }
-    if (!this.mathpix.apiKey) {
+    if (this.ocr.provider === 'mathpix' && !this.mathpix.apiKey) {
       console.warn('⚠️  MATHPIX_API_KEY 环境变量未设置');
     }
     if (!this.jwt.secret || this.jwt.secret === 'your-secret-key') {
@@ -7,7 +7,10 @@ import { config } from './config';
 import { dbManager } from './database';
 import authRoutes from './routes/auth';
 import scanRoutes from './routes/scan';
+import adminRoutes from './routes/admin';
+import convertRoutes from './routes/convert';
 import { MathpixService } from './services/mathpixService';
+import { UploadLimitService } from './services/uploadLimitService';
 
 const app = express();
 
@@ -72,6 +75,8 @@ app.get('/health', (req, res) => {
 // API路由
 app.use('/api/auth', authRoutes);
 app.use('/api/scan', scanRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/convert', convertRoutes);
 
 // 404处理
 app.use('*', (req, res) => {
@@ -89,7 +94,7 @@ app.use((error: any, req: express.Request, res: express.Response, next: express.
   if (error.code === 'LIMIT_FILE_SIZE') {
     res.status(400).json({
       success: false,
-      error: '文件大小超过限制（最大10MB）'
+      error: `文件大小超过限制（最大${UploadLimitService.formatSize(config.upload.maxSize)}）`
     });
     return;
   }
@@ -113,6 +118,9 @@ async function startServer() {
   try {
     // 连接数据库
     await dbManager.connectSharedata();
+
+    // 处理重启前未完成的任务
+    await MathpixService.recoverInterruptedTasks();
     
     // 启动服务器
     const server = app.listen(config.port, () => {
@@ -144,7 +152,9 @@ async function startServer() {
 
     // 定期清理过期的扫描任务
     setInterval(() => {
-      MathpixService.cleanupExpiredTasks();
+      MathpixService.cleanupExpiredTasks().catch(error => {
+        console.error('❌ 清理过期任务失败:', error);
+      });
     }, 60 * 60 * 1000); // 每小时清理一次
 
   } catch (error) {
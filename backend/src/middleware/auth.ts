@@ -10,19 +10,38 @@ export interface AuthRequest extends Request {
     systemRole: string;
     isActive: boolean;
     isEmailVerified: boolean;
+    enterprise?: string; // 企业用户的邮箱后缀，个人用户为空
   };
 }
 
 /**
- * 认证中间件 - 基于 Sharedata 用户系统
+ * 验证查询参数中的令牌，返回用户ID
+ */
+type QueryTokenVerifier = (req: AuthRequest, token: string) => string;
+
+/**
+ * 验证登录令牌，返回用户ID（访问令牌不能作为登录令牌使用）
+ */
+const verifyLoginToken = (token: string): string => {
+  const decoded = JWTUtils.verify(token);
+  if ('purpose' in decoded) {
+    throw new Error('令牌无效');
+  }
+  return decoded.userId;
+};
+
+/**
+ * 创建认证中间件：令牌默认只从 Authorization 请求头读取，提供 verifyQueryToken 时也接受 ?token=
  */
-export const authMiddleware = async (
+const createAuthMiddleware = (verifyQueryToken?: QueryTokenVerifier) => async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    const token = req.header('Authorization')?.replace('Bearer ', '');
+    const headerToken = req.header('Authorization')?.replace('Bearer ', '');
+    const queryToken = verifyQueryToken && typeof req.query.token === 'string' ? req.query.token : undefined;
+    const token = headerToken || queryToken;
     
     // 开发环境下输出详细日志
     if (process.env.NODE_ENV === 'development') {
@@ -45,9 +64,9 @@ export const authMiddleware = async (
     }
 
     // 验证JWT token
-    let decoded;
+    let userId: string;
     try {
-      decoded = JWTUtils.verify(token);
+      userId = headerToken ? verifyLoginToken(headerToken) : verifyQueryToken!(req, token);
     } catch (error) {
       console.error('JWT 验证失败:', error);
       res.status(401).json({ 
@@ -59,7 +78,7 @@ export const authMiddleware = async (
 
     // 获取用户信息
     const SharedUser = getSharedUserModel();
-    const user = await SharedUser.findById(decoded.userId);
+    const user = await SharedUser.findById(userId);
     if (!user) {
       res.status(401).json({ 
         success: false,
@@ -100,7 +119,8 @@ export const authMiddleware = async (
       name: user.name,
       systemRole: user.systemRole,
       isActive: user.isActive,
-      isEmailVerified: user.isEmailVerified
+      isEmailVerified: user.isEmailVerified,
+      enterprise: user.userType === 'enterprise' ? user.emailSuffix : undefined
     };
     
     // 开发环境下输出用户信息
@@ -122,6 +142,19 @@ export const authMiddleware = async (
   }
 };
 
+/**
+ * 认证中间件 - 基于 Sharedata 用户系统
+ */
+export const authMiddleware = createAuthMiddleware();
+
+/**
+ * 进度推送、原始文件、题目截图和插图的认证中间件：EventSource、<img>、PDF 预览无法设置请求头，
+ * ?token= 只接受该任务（路径中的批次 ID 或扫描 ID）的短期访问令牌，登录令牌不能出现在地址中
+ */
+export const mediaAuthMiddleware = createAuthMiddleware((req, token) =>
+  JWTUtils.verifyMediaToken(token, req.params.batchId || req.params.scanId).userId
+);
+
 /**
  * 角色验证中间件
  */
@@ -0,0 +1,91 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { dbManager } from '../database';
+import { FileTask } from './FileTask';
+
+/**
+ * 批量任务接口
+ */
+export interface BatchTask {
+  batchId: string;
+  userId: string;
+  enterprise?: string;
+  files: FileTask[];
+  overallProgress: number;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  totalFiles: number;
+  completedFiles: number;
+  failedFiles: number;
+  createdAt: Date;
+  updatedAt: Date;
+  estimatedTimeRemaining?: number;
+}
+
+/**
+ * 数据库中的批量任务记录（文件任务单独存储在 FileTask 集合中）
+ */
+export type BatchTaskRecord = Omit<BatchTask, 'files'>;
+
+export interface IBatchTask extends BatchTaskRecord, Document {}
+
+const batchTaskSchema = new Schema<IBatchTask>({
+  batchId: {
+    type: String,
+    required: [true, '批量任务ID是必需的'],
+    unique: true
+  },
+  userId: {
+    type: String,
+    required: [true, '用户ID是必需的']
+  },
+  enterprise: {
+    type: String,
+    trim: true
+  },
+  overallProgress: {
+    type: Number,
+    default: 0,
+    min: [0, '进度不能为负数'],
+    max: [100, '进度不能超过100']
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'completed', 'failed', 'cancelled'],
+    default: 'pending'
+  },
+  totalFiles: {
+    type: Number,
+    default: 0
+  },
+  completedFiles: {
+    type: Number,
+    default: 0
+  },
+  failedFiles: {
+    type: Number,
+    default: 0
+  },
+  estimatedTimeRemaining: {
+    type: Number
+  }
+}, {
+  timestamps: true,
+  collection: 'mathtools_batchtask'
+});
+
+// 索引
+batchTaskSchema.index({ userId: 1, createdAt: -1 });
+batchTaskSchema.index({ status: 1 });
+batchTaskSchema.index({ updatedAt: 1 });
+
+// 延迟初始化模型，避免循环依赖
+let BatchTaskModel: mongoose.Model<IBatchTask>;
+
+export const getBatchTaskModel = () => {
+  if (!BatchTaskModel) {
+    const connection = dbManager.getSharedataConnection();
+    BatchTaskModel = connection.model<IBatchTask>('MathtoolsBatchTask', batchTaskSchema);
+  }
+  return BatchTaskModel;
+};
+
+export default getBatchTaskModel;
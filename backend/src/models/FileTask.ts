@@ -0,0 +1,141 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { dbManager } from '../database';
+import { ConvertOptions, QuestionMetadata } from '../services/formatConverter';
+import { OcrPage } from '../services/ocr';
+import { QuestionLocation } from '../services/questionLocator';
+
+/**
+ * 文件任务接口
+ */
+export interface FileTask {
+  fileId: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  status: 'pending' | 'uploading' | 'mathpix-processing' | 'converting' | 'completed' | 'failed' | 'cancelled';
+  progress: number;
+  result?: string;
+  rawResult?: string; // Mathpix 原始 MMD，用于重新转换
+  convertOptions?: ConvertOptions;
+  answerKey?: string; // 单独输出的答案卷（转换选项 answers 为 key 时）
+  lines?: OcrPage[]; // Mathpix 行位置信息（每页的行及其区域）
+  questions?: QuestionLocation[]; // 每道题在原文件中的页码和区域
+  questionMetadata?: QuestionMetadata[]; // 每道题的来源、分值等题目信息
+  error?: string;
+  originalFilePath?: string;
+  contentHash?: string;
+  pageRanges?: string; // 只识别PDF的指定页码，如 "3-6,8"
+  cached?: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  estimatedTimeRemaining?: number;
+}
+
+/**
+ * 数据库中的文件任务记录（归属于某个批量任务）
+ */
+export interface FileTaskRecord extends FileTask {
+  batchId: string;
+  order: number;
+}
+
+export interface IFileTask extends FileTaskRecord, Document {}
+
+const fileTaskSchema = new Schema<IFileTask>({
+  batchId: {
+    type: String,
+    required: [true, '批量任务ID是必需的']
+  },
+  fileId: {
+    type: String,
+    required: [true, '文件ID是必需的'],
+    unique: true
+  },
+  order: {
+    type: Number,
+    default: 0
+  },
+  fileName: {
+    type: String,
+    required: [true, '文件名是必需的'],
+    trim: true
+  },
+  fileSize: {
+    type: Number,
+    default: 0
+  },
+  fileType: {
+    type: String,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'uploading', 'mathpix-processing', 'converting', 'completed', 'failed', 'cancelled'],
+    default: 'pending'
+  },
+  progress: {
+    type: Number,
+    default: 0,
+    min: [0, '进度不能为负数'],
+    max: [100, '进度不能超过100']
+  },
+  result: {
+    type: String
+  },
+  rawResult: {
+    type: String
+  },
+  convertOptions: {
+    type: Schema.Types.Mixed
+  },
+  answerKey: {
+    type: String
+  },
+  lines: {
+    type: Schema.Types.Mixed
+  },
+  questions: {
+    type: Schema.Types.Mixed
+  },
+  questionMetadata: {
+    type: Schema.Types.Mixed
+  },
+  error: {
+    type: String
+  },
+  originalFilePath: {
+    type: String
+  },
+  contentHash: {
+    type: String
+  },
+  pageRanges: {
+    type: String
+  },
+  cached: {
+    type: Boolean
+  },
+  estimatedTimeRemaining: {
+    type: Number
+  }
+}, {
+  timestamps: true,
+  collection: 'mathtools_filetask'
+});
+
+// 索引
+fileTaskSchema.index({ batchId: 1, order: 1 });
+fileTaskSchema.index({ status: 1 });
+
+// 延迟初始化模型，避免循环依赖
+let FileTaskModel: mongoose.Model<IFileTask>;
+
+export const getFileTaskModel = () => {
+  if (!FileTaskModel) {
+    const connection = dbManager.getSharedataConnection();
+    FileTaskModel = connection.model<IFileTask>('MathtoolsFileTask', fileTaskSchema);
+  }
+  return FileTaskModel;
+};
+
+export default getFileTaskModel;
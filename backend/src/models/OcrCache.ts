@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { dbManager } from '../database';
+import { OcrPage, MathFormats } from '../services/ocr';
+
+/**
+ * 识别结果缓存接口（按文件内容哈希存储 Mathpix 原始输出）
+ */
+export interface OcrCacheEntry {
+  contentHash: string;
+  fileType?: string;
+  markdown: string;
+  lines?: OcrPage[];
+  math?: MathFormats;
+  hits: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IOcrCacheEntry extends OcrCacheEntry, Document {}
+
+const ocrCacheSchema = new Schema<IOcrCacheEntry>({
+  contentHash: {
+    type: String,
+    required: [true, '内容哈希是必需的'],
+    unique: true
+  },
+  fileType: {
+    type: String,
+    trim: true
+  },
+  markdown: {
+    type: String,
+    required: [true, '识别结果是必需的']
+  },
+  lines: {
+    type: Schema.Types.Mixed
+  },
+  math: {
+    type: Schema.Types.Mixed
+  },
+  hits: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true,
+  collection: 'mathtools_ocrcache'
+});
+
+// 索引
+ocrCacheSchema.index({ updatedAt: 1 });
+
+// 延迟初始化模型，避免循环依赖
+let OcrCacheModel: mongoose.Model<IOcrCacheEntry>;
+
+export const getOcrCacheModel = () => {
+  if (!OcrCacheModel) {
+    const connection = dbManager.getSharedataConnection();
+    OcrCacheModel = connection.model<IOcrCacheEntry>('MathtoolsOcrCache', ocrCacheSchema);
+  }
+  return OcrCacheModel;
+};
+
+export default getOcrCacheModel;
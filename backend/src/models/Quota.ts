@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { dbManager } from '../database';
+
+/**
+ * 配额接口（针对单个用户或企业，未设置时使用默认配额）
+ */
+export interface Quota {
+  scope: 'user' | 'enterprise';
+  key: string; // 用户ID 或企业邮箱后缀
+  monthlyPages: number; // 每月识别页数上限，0 表示不限制
+  dailyFiles: number; // 每天上传文件数上限，0 表示不限制
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IQuota extends Quota, Document {}
+
+const quotaSchema = new Schema<IQuota>({
+  scope: {
+    type: String,
+    enum: ['user', 'enterprise'],
+    required: [true, '配额范围是必需的']
+  },
+  key: {
+    type: String,
+    required: [true, '配额对象是必需的'],
+    trim: true
+  },
+  monthlyPages: {
+    type: Number,
+    default: 0,
+    min: [0, '配额不能为负数']
+  },
+  dailyFiles: {
+    type: Number,
+    default: 0,
+    min: [0, '配额不能为负数']
+  }
+}, {
+  timestamps: true,
+  collection: 'mathtools_quota'
+});
+
+// 索引
+quotaSchema.index({ scope: 1, key: 1 }, { unique: true });
+
+// 延迟初始化模型，避免循环依赖
+let QuotaModel: mongoose.Model<IQuota>;
+
+export const getQuotaModel = () => {
+  if (!QuotaModel) {
+    const connection = dbManager.getSharedataConnection();
+    QuotaModel = connection.model<IQuota>('MathtoolsQuota', quotaSchema);
+  }
+  return QuotaModel;
+};
+
+export default getQuotaModel;
@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { dbManager } from '../database';
+
+/**
+ * 配额计数器接口（单个用户或企业在一个周期内已占用的配额，检查配额时原子递增）
+ */
+export interface QuotaCounter {
+  scope: 'user' | 'enterprise';
+  key: string; // 用户ID 或企业邮箱后缀
+  metric: 'pages' | 'files'; // 每月识别页数或每天上传文件数
+  period: string; // 配置时区下的月份（2024-05）或日期（2024-05-01）
+  used: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IQuotaCounter extends QuotaCounter, Document {}
+
+const quotaCounterSchema = new Schema<IQuotaCounter>({
+  scope: {
+    type: String,
+    enum: ['user', 'enterprise'],
+    required: [true, '配额范围是必需的']
+  },
+  key: {
+    type: String,
+    required: [true, '配额对象是必需的'],
+    trim: true
+  },
+  metric: {
+    type: String,
+    enum: ['pages', 'files'],
+    required: [true, '配额项是必需的']
+  },
+  period: {
+    type: String,
+    required: [true, '统计周期是必需的']
+  },
+  used: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true,
+  collection: 'mathtools_quota_counters'
+});
+
+// 索引
+quotaCounterSchema.index({ scope: 1, key: 1, metric: 1, period: 1 }, { unique: true });
+quotaCounterSchema.index({ updatedAt: 1 });
+
+// 延迟初始化模型，避免循环依赖
+let QuotaCounterModel: mongoose.Model<IQuotaCounter>;
+
+export const getQuotaCounterModel = () => {
+  if (!QuotaCounterModel) {
+    const connection = dbManager.getSharedataConnection();
+    QuotaCounterModel = connection.model<IQuotaCounter>('MathtoolsQuotaCounter', quotaCounterSchema);
+  }
+  return QuotaCounterModel;
+};
+
+export default getQuotaCounterModel;
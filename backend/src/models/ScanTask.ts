@@ -0,0 +1,126 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { dbManager } from '../database';
+import { ConvertOptions, QuestionMetadata } from '../services/formatConverter';
+import { OcrPage } from '../services/ocr';
+import { QuestionLocation } from '../services/questionLocator';
+
+/**
+ * 扫描任务接口
+ */
+export interface ScanTask {
+  scanId: string;
+  userId: string;
+  enterprise?: string;
+  fileName?: string;
+  fileType?: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  progress: number;
+  result?: string;
+  rawResult?: string; // Mathpix 原始 MMD，用于重新转换
+  convertOptions?: ConvertOptions;
+  answerKey?: string; // 单独输出的答案卷（转换选项 answers 为 key 时）
+  lines?: OcrPage[]; // Mathpix 行位置信息（每页的行及其区域）
+  questions?: QuestionLocation[]; // 每道题在原文件中的页码和区域
+  questionMetadata?: QuestionMetadata[]; // 每道题的来源、分值等题目信息
+  error?: string;
+  contentHash?: string;
+  pageRanges?: string; // 只识别PDF的指定页码，如 "3-6,8"
+  cached?: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  estimatedTimeRemaining?: number;
+}
+
+export interface IScanTask extends ScanTask, Document {}
+
+const scanTaskSchema = new Schema<IScanTask>({
+  scanId: {
+    type: String,
+    required: [true, '扫描任务ID是必需的'],
+    unique: true
+  },
+  userId: {
+    type: String,
+    required: [true, '用户ID是必需的']
+  },
+  enterprise: {
+    type: String,
+    trim: true
+  },
+  fileName: {
+    type: String,
+    trim: true
+  },
+  fileType: {
+    type: String,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'completed', 'failed'],
+    default: 'pending'
+  },
+  progress: {
+    type: Number,
+    default: 0,
+    min: [0, '进度不能为负数'],
+    max: [100, '进度不能超过100']
+  },
+  result: {
+    type: String
+  },
+  rawResult: {
+    type: String
+  },
+  convertOptions: {
+    type: Schema.Types.Mixed
+  },
+  answerKey: {
+    type: String
+  },
+  lines: {
+    type: Schema.Types.Mixed
+  },
+  questions: {
+    type: Schema.Types.Mixed
+  },
+  questionMetadata: {
+    type: Schema.Types.Mixed
+  },
+  error: {
+    type: String
+  },
+  contentHash: {
+    type: String
+  },
+  pageRanges: {
+    type: String
+  },
+  cached: {
+    type: Boolean
+  },
+  estimatedTimeRemaining: {
+    type: Number
+  }
+}, {
+  timestamps: true,
+  collection: 'mathtools_scantask'
+});
+
+// 索引
+scanTaskSchema.index({ userId: 1, createdAt: -1 });
+scanTaskSchema.index({ status: 1 });
+scanTaskSchema.index({ updatedAt: 1 });
+
+// 延迟初始化模型，避免循环依赖
+let ScanTaskModel: mongoose.Model<IScanTask>;
+
+export const getScanTaskModel = () => {
+  if (!ScanTaskModel) {
+    const connection = dbManager.getSharedataConnection();
+    ScanTaskModel = connection.model<IScanTask>('MathtoolsScanTask', scanTaskSchema);
+  }
+  return ScanTaskModel;
+};
+
+export default getScanTaskModel;
@@ -0,0 +1,91 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { dbManager } from '../database';
+
+/**
+ * Mathpix 用量记录接口（每次识别请求一条）
+ */
+export interface UsageRecord {
+  userId: string;
+  enterprise?: string;
+  taskType: 'scan' | 'batch' | 'formula';
+  taskId: string;
+  fileId?: string;
+  fileType?: string;
+  pages: number;
+  durationMs: number;
+  success: boolean;
+  cached: boolean;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IUsageRecord extends UsageRecord, Document {}
+
+const usageSchema = new Schema<IUsageRecord>({
+  userId: {
+    type: String,
+    required: [true, '用户ID是必需的']
+  },
+  enterprise: {
+    type: String,
+    trim: true
+  },
+  taskType: {
+    type: String,
+    enum: ['scan', 'batch', 'formula'],
+    required: [true, '任务类型是必需的']
+  },
+  taskId: {
+    type: String,
+    required: [true, '任务ID是必需的']
+  },
+  fileId: {
+    type: String
+  },
+  fileType: {
+    type: String,
+    trim: true
+  },
+  pages: {
+    type: Number,
+    default: 0,
+    min: [0, '页数不能为负数']
+  },
+  durationMs: {
+    type: Number,
+    default: 0
+  },
+  success: {
+    type: Boolean,
+    default: false
+  },
+  cached: {
+    type: Boolean,
+    default: false
+  },
+  error: {
+    type: String
+  }
+}, {
+  timestamps: true,
+  collection: 'mathtools_usage'
+});
+
+// 索引
+usageSchema.index({ userId: 1, createdAt: -1 });
+usageSchema.index({ enterprise: 1, createdAt: -1 });
+usageSchema.index({ createdAt: -1 });
+
+// 延迟初始化模型，避免循环依赖
+let UsageModel: mongoose.Model<IUsageRecord>;
+
+export const getUsageModel = () => {
+  if (!UsageModel) {
+    const connection = dbManager.getSharedataConnection();
+    UsageModel = connection.model<IUsageRecord>('MathtoolsUsage', usageSchema);
+  }
+  return UsageModel;
+};
+
+export default getUsageModel;
@@ -0,0 +1,166 @@
+import { Router, Response } from 'express';
+import { authMiddleware, requireRole } from '../middleware/auth';
+import { UsageService, UsageGroupBy } from '../services/usageService';
+import { QuotaService } from '../services/quotaService';
+
+const router = Router();
+
+// 所有管理接口都需要管理员权限
+router.use(authMiddleware, requireRole('admin', 'superadmin'));
+
+/**
+ * 生成用量报表接口
+ *
+ * 查询参数：from, to, userId, enterprise
+ */
+const usageReport = (groupBy: UsageGroupBy) => async (req: any, res: Response) => {
+  try {
+    const from = req.query.from ? new Date(req.query.from) : undefined;
+    const to = req.query.to ? new Date(req.query.to) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      res.status(400).json({
+        success: false,
+        error: '日期格式无效'
+      });
+      return;
+    }
+
+    const rows = await UsageService.report(groupBy, {
+      from,
+      to,
+      userId: typeof req.query.userId === 'string' ? req.query.userId : undefined,
+      enterprise: typeof req.query.enterprise === 'string' ? req.query.enterprise : undefined
+    });
+
+    res.json({
+      success: true,
+      data: { groupBy, rows }
+    });
+
+  } catch (error: any) {
+    console.error('❌ 获取用量报表失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '获取用量报表失败'
+    });
+  }
+};
+
+/**
+ * 按用户汇总 Mathpix 用量
+ */
+router.get('/usage/users', usageReport('user'));
+
+/**
+ * 按天汇总 Mathpix 用量
+ */
+router.get('/usage/daily', usageReport('day'));
+
+/**
+ * 按企业汇总 Mathpix 用量
+ */
+router.get('/usage/enterprises', usageReport('enterprise'));
+
+/**
+ * 列出单独设置过的配额
+ */
+router.get('/quotas', async (req: any, res: Response) => {
+  try {
+    const quotas = await QuotaService.listQuotas();
+
+    res.json({
+      success: true,
+      data: quotas
+    });
+
+  } catch (error: any) {
+    console.error('❌ 获取配额列表失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '获取配额列表失败'
+    });
+  }
+});
+
+/**
+ * 设置用户或企业的配额
+ *
+ * 路径参数 scope 为 user 或 enterprise，key 为用户ID或企业邮箱后缀；请求体：{ monthlyPages, dailyFiles }，0 表示不限制
+ */
+router.put('/quotas/:scope/:key', async (req: any, res: Response) => {
+  try {
+    const { scope, key } = req.params;
+    const monthlyPages = Number(req.body.monthlyPages);
+    const dailyFiles = Number(req.body.dailyFiles);
+
+    if (scope !== 'user' && scope !== 'enterprise') {
+      res.status(400).json({
+        success: false,
+        error: '配额范围只能是 user 或 enterprise'
+      });
+      return;
+    }
+
+    if (!Number.isInteger(monthlyPages) || monthlyPages < 0 || !Number.isInteger(dailyFiles) || dailyFiles < 0) {
+      res.status(400).json({
+        success: false,
+        error: '配额必须是非负整数'
+      });
+      return;
+    }
+
+    await QuotaService.setQuota(scope, key, { monthlyPages, dailyFiles });
+
+    res.json({
+      success: true,
+      data: { scope, key, monthlyPages, dailyFiles }
+    });
+
+  } catch (error: any) {
+    console.error('❌ 设置配额失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '设置配额失败'
+    });
+  }
+});
+
+/**
+ * 删除单独设置的配额，恢复默认配额
+ */
+router.delete('/quotas/:scope/:key', async (req: any, res: Response) => {
+  try {
+    const { scope, key } = req.params;
+
+    if (scope !== 'user' && scope !== 'enterprise') {
+      res.status(400).json({
+        success: false,
+        error: '配额范围只能是 user 或 enterprise'
+      });
+      return;
+    }
+
+    const deleted = await QuotaService.deleteQuota(scope, key);
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        error: '配额不存在'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: '已恢复默认配额'
+    });
+
+  } catch (error: any) {
+    console.error('❌ 删除配额失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '删除配额失败'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,51 @@
+import { Router, Response } from 'express';
+import { FormatConverter } from '../services/formatConverter';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+
+// 单次转换的文本长度上限
+const MAX_TEXT_LENGTH = 500000;
+
+/**
+ * 转换粘贴的 MMD/Markdown 文本为 LaTeX（不调用 OCR，不计入配额）
+ *
+ * 请求体：text，可选 options（dfrac、mathbb、removeScores、choiceColumns、profile、metadata、answers）
+ */
+router.post('/', authMiddleware, async (req: any, res: Response) => {
+  try {
+    const { text } = req.body;
+    if (typeof text !== 'string' || !text.trim()) {
+      res.status(400).json({
+        success: false,
+        error: '请提供要转换的文本'
+      });
+      return;
+    }
+
+    if (text.length > MAX_TEXT_LENGTH) {
+      res.status(400).json({
+        success: false,
+        error: `文本过长，最多支持 ${MAX_TEXT_LENGTH} 个字符`
+      });
+      return;
+    }
+
+    const options = FormatConverter.parseOptions(req.body.options);
+    const conversion = FormatConverter.convert(text, options);
+
+    res.json({
+      success: true,
+      data: { ...conversion, options }
+    });
+
+  } catch (error: any) {
+    console.error('❌ 文本转换失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '文本转换失败'
+    });
+  }
+});
+
+export default router;
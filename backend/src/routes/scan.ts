@@ -1,51 +1,137 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
-import { MathpixService } from '../services/mathpixService';
-import { authMiddleware } from '../middleware/auth';
-import { getOriginalFileInfo } from '../utils/fileStorage';
+import { MathpixService, BatchTask, TaskOwner, BatchUploadFile } from '../services/mathpixService';
+import { FormatConverter, ConversionResult } from '../services/formatConverter';
+import { QuotaService, QuotaRequest } from '../services/quotaService';
+import { FileTranscoder, UploadedFile } from '../services/fileTranscoder';
+import { UploadLimitService } from '../services/uploadLimitService';
+import { BatchEvents } from '../services/batchEvents';
+import { authMiddleware, mediaAuthMiddleware } from '../middleware/auth';
+import { JWTUtils } from '../utils/jwt';
+import { getOriginalFileInfo, getQuestionCropPath, getFigurePath, readOriginalFile } from '../utils/fileStorage';
+import { countPdfPages, parsePageRanges, formatPageRanges, countRangePages } from '../utils/pdf';
 
 const router = Router();
 
-// 配置multer用于文件上传
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: 2 * 1024 * 1024, // 2MB
-  },
-  fileFilter: (req, file, cb) => {
-    // 支持的文件类型：PDF和图片
-    const allowedTypes = ['application/pdf', 'image/png', 'image/jpeg', 'image/jpg'];
-    if (allowedTypes.includes(file.mimetype)) {
-      cb(null, true);
-    } else {
-      cb(new Error('不支持的文件类型。仅支持PDF、PNG、JPG、JPEG格式。'));
+// SSE 心跳间隔（毫秒）
+const SSE_HEARTBEAT_INTERVAL = 25000;
+
+// 历史记录可筛选的任务状态（单文件扫描和批量任务状态的并集）
+const TASK_STATUSES = ['pending', 'processing', 'completed', 'failed', 'cancelled'];
+
+/**
+ * 接收上传文件：按当前用户的上传限制配置multer，超出限制或文件类型不支持时返回 400
+ */
+const receiveFiles = (mode: 'single' | 'batch') => (req: any, res: Response, next: NextFunction) => {
+  const limits = UploadLimitService.resolve(req.user);
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: limits.maxFileSize,
+      files: mode === 'single' ? 1 : limits.maxFiles
+    },
+    fileFilter: (req, file, cb) => {
+      // 支持的文件类型：PDF和图片（HEIC、WebP、TIFF 上传后转码）
+      if (FileTranscoder.isSupported(file)) {
+        cb(null, true);
+      } else {
+        cb(new Error('不支持的文件类型。仅支持PDF、PNG、JPG、JPEG、HEIC、WebP、TIFF格式。'));
+      }
     }
-  }
+  });
+  const handler = mode === 'single' ? upload.single('file') : upload.array('files', limits.maxFiles);
+
+  handler(req, res, (error: any) => {
+    if (!error) {
+      next();
+      return;
+    }
+
+    const message = error.code === 'LIMIT_FILE_SIZE'
+      ? `文件大小超过${UploadLimitService.formatSize(limits.maxFileSize)}限制`
+      : error.code === 'LIMIT_FILE_COUNT' || error.code === 'LIMIT_UNEXPECTED_FILE'
+        ? `最多只能上传${mode === 'single' ? 1 : limits.maxFiles}个文件`
+        : error.message;
+    console.log(`🚫 文件上传被拒绝: ${req.user._id}, ${message}`);
+    res.status(400).json({
+      success: false,
+      error: message
+    });
+  });
+};
+
+/**
+ * 当前用户作为任务归属
+ */
+const getTaskOwner = (req: any): TaskOwner => ({
+  userId: req.user._id,
+  enterprise: req.user.enterprise
 });
 
-// 配置multer用于批量文件上传
-const batchUpload = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: 2 * 1024 * 1024, // 2MB per file
-    files: 10 // 最多10个文件
-  },
-  fileFilter: (req, file, cb) => {
-    const allowedTypes = ['application/pdf', 'image/png', 'image/jpeg', 'image/jpg'];
-    if (allowedTypes.includes(file.mimetype)) {
-      cb(null, true);
-    } else {
-      cb(new Error('不支持的文件类型。仅支持PDF、PNG、JPG、JPEG格式。'));
+/**
+ * 将 HEIC、WebP、TIFF 转码为OCR服务支持的格式，转码失败时返回错误信息
+ */
+const transcodeFile = async <T extends UploadedFile>(file: T): Promise<{ file?: T; error?: string }> => {
+  try {
+    return { file: await FileTranscoder.normalize(file) };
+  } catch (error: any) {
+    console.error(`❌ 文件转码失败: ${file.originalname}`, error);
+    return { error: `文件转码失败：${file.originalname}（${error.message}）` };
+  }
+};
+
+/**
+ * 校验并规范化PDF的页码范围：未指定、非PDF文件或选中了全部页时返回 undefined（识别整份文件）
+ */
+const resolvePageRanges = async (input: unknown, file: { buffer: Buffer; originalname: string; mimetype: string }): Promise<{ pageRanges?: string; error?: string }> => {
+  if (typeof input !== 'string' || !input.trim() || file.mimetype !== 'application/pdf') {
+    return {};
+  }
+
+  const ranges = parsePageRanges(input);
+  if (!ranges) {
+    return { error: `页码范围格式无效：${input}（示例：3-6,8）` };
+  }
+
+  const pageCount = await countPdfPages(file.buffer);
+  if (pageCount !== null) {
+    if (ranges.some(range => range.end > pageCount)) {
+      return { error: `页码超出范围：${file.originalname} 共 ${pageCount} 页` };
+    }
+    if (countRangePages(ranges) === pageCount) {
+      return {};
     }
   }
-});
+
+  return { pageRanges: formatPageRanges(ranges) };
+};
+
+/**
+ * 检查上传是否超出配额并占用配额，超出时返回 429 及剩余配额；返回占用的配额，null 表示已拒绝请求
+ */
+const ensureQuota = async (req: any, res: Response, files: Array<{ buffer: Buffer; mimetype: string; pageRanges?: string }>, force: boolean): Promise<QuotaRequest | null> => {
+  const request = { files: files.length, pages: await QuotaService.estimatePages(files, force) };
+  const { allowed, error, status } = await QuotaService.reserve(getTaskOwner(req), request);
+  if (allowed) {
+    return request;
+  }
+
+  console.log(`🚫 配额不足: ${req.user._id}, ${error}`);
+  res.status(429).json({
+    success: false,
+    error,
+    code: 'QUOTA_EXCEEDED',
+    quota: status
+  });
+  return null;
+};
 
 /**
  * 上传文件并开始扫描
  */
-router.post('/upload', authMiddleware, upload.single('file'), async (req: any, res: Response) => {
+router.post('/upload', authMiddleware, receiveFiles('single'), async (req: any, res: Response) => {
   try {
     if (!req.file) {
       res.status(400).json({
@@ -57,32 +143,110 @@ router.post('/upload', authMiddleware, upload.single('file'), async (req: any, r
 
     console.log(`📄 收到文件: ${req.file.originalname}, 类型: ${req.file.mimetype}, 大小: ${req.file.size} bytes`);
 
-    // 创建扫描任务
-    const scanId = await MathpixService.createScanTask(req.file.buffer, req.user._id, req.file.originalname, req.file.mimetype);
+    const { file, error: transcodeError } = await transcodeFile(req.file as Express.Multer.File);
+    if (!file) {
+      res.status(400).json({
+        success: false,
+        error: transcodeError
+      });
+      return;
+    }
+
+    const { pageRanges, error: pageRangesError } = await resolvePageRanges(req.body.pageRanges, file);
+    if (pageRangesError) {
+      res.status(400).json({
+        success: false,
+        error: pageRangesError
+      });
+      return;
+    }
+
+    const force = req.body.force === 'true';
+    const reserved = await ensureQuota(req, res, [{ ...file, pageRanges }], force);
+    if (!reserved) {
+      return;
+    }
+
+    // 创建扫描任务，失败时退还占用的配额
+    let scanId: string;
+    try {
+      scanId = await MathpixService.createScanTask(file.buffer, getTaskOwner(req), file.originalname, file.mimetype, {
+        force,
+        pageRanges,
+        convertOptions: FormatConverter.parseOptions({ profile: req.body.profile })
+      });
+    } catch (error) {
+      await QuotaService.release(getTaskOwner(req), reserved);
+      throw error;
+    }
 
     res.json({
       success: true,
       message: '文件上传成功，开始扫描',
       data: {
         scanId,
-        fileName: req.file.originalname,
-        fileSize: req.file.size,
-        fileType: req.file.mimetype
+        fileName: file.originalname,
+        fileSize: file.size,
+        fileType: file.mimetype
       }
     });
 
   } catch (error: any) {
     console.error('❌ 文件上传失败:', error);
-    if (error.code === 'LIMIT_FILE_SIZE') {
+    res.status(500).json({
+      success: false,
+      error: error.message || '文件上传失败'
+    });
+  }
+});
+
+/**
+ * 识别单个公式图片，同步返回 LaTeX、带样式 LaTeX、AsciiMath 和 MathML
+ */
+router.post('/formula', authMiddleware, receiveFiles('single'), async (req: any, res: Response) => {
+  try {
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        error: '请选择图片'
+      });
+      return;
+    }
+
+    const { file, error: transcodeError } = await transcodeFile(req.file as Express.Multer.File);
+    if (!file) {
       res.status(400).json({
         success: false,
-        error: '文件大小超过2MB限制'
+        error: transcodeError
       });
       return;
     }
+
+    if (!file.mimetype.startsWith('image/')) {
+      res.status(400).json({
+        success: false,
+        error: '公式识别仅支持图片'
+      });
+      return;
+    }
+
+    const force = req.body.force === 'true';
+    if (!await ensureQuota(req, res, [file], force)) {
+      return;
+    }
+
+    const result = await MathpixService.recognizeFormula(file.buffer, file.mimetype, getTaskOwner(req), { force });
+
+    res.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error: any) {
+    console.error('❌ 公式识别失败:', error);
     res.status(500).json({
       success: false,
-      error: error.message || '文件上传失败'
+      error: error.message || '公式识别失败'
     });
   }
 });
@@ -94,8 +258,8 @@ router.get('/status/:scanId', authMiddleware, async (req: any, res: Response) =>
   try {
     const { scanId } = req.params;
 
-    const task = MathpixService.getScanTask(scanId);
-    if (!task) {
+    const task = await MathpixService.getScanTask(scanId);
+    if (!task || task.userId !== req.user._id) {
       res.status(404).json({
         success: false,
         error: '扫描任务不存在'
@@ -109,7 +273,10 @@ router.get('/status/:scanId', authMiddleware, async (req: any, res: Response) =>
         scanId: task.scanId,
         status: task.status,
         progress: task.progress,
+        estimatedTimeRemaining: task.estimatedTimeRemaining,
         error: task.error,
+        cached: task.cached,
+        pageRanges: task.pageRanges,
         createdAt: task.createdAt,
         updatedAt: task.updatedAt
       }
@@ -131,8 +298,8 @@ router.get('/result/:scanId', authMiddleware, async (req: any, res: Response) =>
   try {
     const { scanId } = req.params;
 
-    const task = MathpixService.getScanTask(scanId);
-    if (!task) {
+    const task = await MathpixService.getScanTask(scanId);
+    if (!task || task.userId !== req.user._id) {
       res.status(404).json({
         success: false,
         error: '扫描任务不存在'
@@ -166,6 +333,11 @@ router.get('/result/:scanId', authMiddleware, async (req: any, res: Response) =>
         scanId: task.scanId,
         status: task.status,
         result: task.result,
+        rawResult: task.rawResult,
+        questions: task.questions,
+        questionMetadata: task.questionMetadata,
+        answerKey: task.answerKey,
+        convertOptions: task.convertOptions,
         createdAt: task.createdAt,
         completedAt: task.updatedAt
       }
@@ -181,40 +353,124 @@ router.get('/result/:scanId', authMiddleware, async (req: any, res: Response) =>
 });
 
 /**
- * 批量上传文件并开始扫描
+ * 获取单文件扫描结果中的插图
  */
-router.post('/batch-upload', authMiddleware, batchUpload.array('files', 10), async (req: any, res: Response) => {
+router.get('/result/:scanId/figures/:name', mediaAuthMiddleware, async (req: any, res: Response) => {
   try {
-    const files = req.files;
-    
-    if (!files || files.length === 0) {
-      res.status(400).json({
+    const { scanId, name } = req.params;
+
+    const task = await MathpixService.getScanTask(scanId);
+    if (!task || task.userId !== req.user._id) {
+      res.status(404).json({
         success: false,
-        error: '请选择文件'
+        error: '文件不存在或无权访问'
+      });
+      return;
+    }
+
+    const figurePath = getFigurePath(scanId, name);
+    if (!figurePath) {
+      res.status(404).json({
+        success: false,
+        error: '插图不存在'
       });
       return;
     }
 
-    if (files.length > 10) {
+    res.type(path.extname(name));
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    res.sendFile(figurePath);
+
+  } catch (error: any) {
+    console.error('❌ 获取插图失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '获取插图失败'
+    });
+  }
+});
+
+/**
+ * 批量上传文件并开始扫描
+ */
+router.post('/batch-upload', authMiddleware, receiveFiles('batch'), async (req: any, res: Response) => {
+  try {
+    const files = req.files;
+    
+    if (!files || files.length === 0) {
       res.status(400).json({
         success: false,
-        error: '最多只能上传10个文件'
+        error: '请选择文件'
       });
       return;
     }
 
     console.log(`📄 收到批量文件: ${files.length} 个文件`);
 
+    // 页码范围：与文件顺序对应的 JSON 数组，空字符串表示识别整份文件
+    let pageRangesList: unknown = [];
+    if (req.body.pageRanges) {
+      try {
+        pageRangesList = JSON.parse(req.body.pageRanges);
+      } catch (error) {
+        pageRangesList = null;
+      }
+      if (!Array.isArray(pageRangesList)) {
+        res.status(400).json({
+          success: false,
+          error: '页码范围格式无效'
+        });
+        return;
+      }
+    }
+
     // 准备文件数据
-    const fileData = files.map((file: any) => ({
-      buffer: file.buffer,
-      originalname: file.originalname,
-      mimetype: file.mimetype,
-      size: file.size
-    }));
+    const fileData: BatchUploadFile[] = [];
+    for (const [index, uploaded] of (files as Express.Multer.File[]).entries()) {
+      const { file, error: transcodeError } = await transcodeFile(uploaded);
+      if (!file) {
+        res.status(400).json({
+          success: false,
+          error: transcodeError
+        });
+        return;
+      }
 
-    // 创建批量扫描任务
-    const batchId = await MathpixService.createBatchTask(fileData, req.user._id);
+      const { pageRanges, error: pageRangesError } = await resolvePageRanges((pageRangesList as unknown[])[index], file);
+      if (pageRangesError) {
+        res.status(400).json({
+          success: false,
+          error: pageRangesError
+        });
+        return;
+      }
+
+      fileData.push({
+        buffer: file.buffer,
+        originalname: file.originalname,
+        mimetype: file.mimetype,
+        size: file.size,
+        pageRanges
+      });
+    }
+
+    const force = req.body.force === 'true';
+    const reserved = await ensureQuota(req, res, fileData, force);
+    if (!reserved) {
+      return;
+    }
+
+    // 创建批量扫描任务，失败时退还占用的配额
+    let batchId: string;
+    try {
+      batchId = await MathpixService.createBatchTask(fileData, getTaskOwner(req), {
+        force,
+        convertOptions: FormatConverter.parseOptions({ profile: req.body.profile })
+      });
+    } catch (error) {
+      await QuotaService.release(getTaskOwner(req), reserved);
+      throw error;
+    }
 
     res.json({
       success: true,
@@ -227,13 +483,6 @@ router.post('/batch-upload', authMiddleware, batchUpload.array('files', 10), asy
 
   } catch (error: any) {
     console.error('❌ 批量文件上传失败:', error);
-    if (error.code === 'LIMIT_FILE_SIZE') {
-      res.status(400).json({
-        success: false,
-        error: '文件大小超过2MB限制'
-      });
-      return;
-    }
     res.status(500).json({
       success: false,
       error: error.message || '批量文件上传失败'
@@ -248,8 +497,8 @@ router.get('/batch-status/:batchId', authMiddleware, async (req: any, res: Respo
   try {
     const { batchId } = req.params;
 
-    const batchTask = MathpixService.getBatchTask(batchId);
-    if (!batchTask) {
+    const batchTask = await MathpixService.getBatchTask(batchId);
+    if (!batchTask || batchTask.userId !== req.user._id) {
       res.status(404).json({
         success: false,
         error: '批量任务不存在'
@@ -271,6 +520,98 @@ router.get('/batch-status/:batchId', authMiddleware, async (req: any, res: Respo
   }
 });
 
+/**
+ * 批量任务进度推送（Server-Sent Events）
+ *
+ * 连接建立时先推送当前快照，之后每次状态变化推送 batch 事件，任务结束时推送 end 事件并关闭连接
+ */
+router.get('/batch/:batchId/events', mediaAuthMiddleware, async (req: any, res: Response) => {
+  try {
+    const { batchId } = req.params;
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    const isFinished = (task: BatchTask) => ['completed', 'failed', 'cancelled'].includes(task.status);
+
+    // 先订阅再读取快照，避免两者之间发布的状态（如任务结束）丢失；快照发出前收到的状态先缓存
+    let pending: BatchTask[] | null = [];
+    let heartbeat: NodeJS.Timeout | undefined;
+    let closed = false;
+
+    const close = () => {
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+
+    // 推送状态，任务结束时关闭连接并返回 true
+    const push = (task: BatchTask): boolean => {
+      send('batch', task);
+      if (!isFinished(task)) {
+        return false;
+      }
+      send('end', { status: task.status });
+      close();
+      res.end();
+      return true;
+    };
+
+    const unsubscribe = BatchEvents.subscribe(batchId, (task) => {
+      if (pending) {
+        pending.push(task);
+      } else {
+        push(task);
+      }
+    });
+
+    // 客户端断开或响应结束（包括出错）时取消订阅
+    res.on('close', close);
+
+    const batchTask = await MathpixService.getBatchTask(batchId);
+    if (!batchTask || batchTask.userId !== req.user._id) {
+      close();
+      res.status(404).json({
+        success: false,
+        error: '批量任务不存在'
+      });
+      return;
+    }
+
+    if (closed) {
+      return;
+    }
+
+    // no-transform 避免 compression 中间件缓冲事件流
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    const buffered = pending;
+    pending = null;
+    if (push(batchTask) || buffered.some(push)) {
+      return;
+    }
+
+    // 心跳，防止代理因空闲断开连接
+    heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_INTERVAL);
+
+  } catch (error: any) {
+    console.error('❌ 建立批量任务进度推送失败:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: '建立进度推送失败'
+      });
+    } else {
+      res.end();
+    }
+  }
+});
+
 /**
  * 获取批量任务结果
  */
@@ -278,7 +619,16 @@ router.get('/batch-results/:batchId', authMiddleware, async (req: any, res: Resp
   try {
     const { batchId } = req.params;
 
-    const results = MathpixService.getBatchResults(batchId);
+    const batchTask = await MathpixService.getBatchTask(batchId);
+    if (!batchTask || batchTask.userId !== req.user._id) {
+      res.status(404).json({
+        success: false,
+        error: '批量任务不存在'
+      });
+      return;
+    }
+
+    const results = await MathpixService.getBatchResults(batchId);
     if (!results) {
       res.status(404).json({
         success: false,
@@ -301,16 +651,312 @@ router.get('/batch-results/:batchId', authMiddleware, async (req: any, res: Resp
   }
 });
 
+/**
+ * 取消批量任务（已完成的文件结果保留）
+ */
+router.post('/batch/:batchId/cancel', authMiddleware, async (req: any, res: Response) => {
+  try {
+    const { batchId } = req.params;
+
+    const batchTask = await MathpixService.getBatchTask(batchId);
+    if (!batchTask || batchTask.userId !== req.user._id) {
+      res.status(404).json({
+        success: false,
+        error: '批量任务不存在'
+      });
+      return;
+    }
+
+    if (['completed', 'failed', 'cancelled'].includes(batchTask.status)) {
+      res.status(400).json({
+        success: false,
+        error: '批量任务已结束，无法取消'
+      });
+      return;
+    }
+
+    const cancelledFiles = await MathpixService.cancelBatch(batchId);
+
+    res.json({
+      success: true,
+      data: { batchId, cancelledFiles }
+    });
+
+  } catch (error: any) {
+    console.error('❌ 取消批量任务失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '取消批量任务失败'
+    });
+  }
+});
+
+/**
+ * 取消批量任务中的单个文件
+ */
+router.post('/batch/:batchId/files/:fileId/cancel', authMiddleware, async (req: any, res: Response) => {
+  try {
+    const { batchId, fileId } = req.params;
+
+    const batchTask = await MathpixService.getBatchTask(batchId);
+    if (!batchTask || batchTask.userId !== req.user._id) {
+      res.status(404).json({
+        success: false,
+        error: '批量任务不存在'
+      });
+      return;
+    }
+
+    if (!batchTask.files.some(file => file.fileId === fileId)) {
+      res.status(404).json({
+        success: false,
+        error: '文件不存在'
+      });
+      return;
+    }
+
+    const cancelled = await MathpixService.cancelFile(batchId, fileId);
+    if (!cancelled) {
+      res.status(400).json({
+        success: false,
+        error: '文件已处理结束，无法取消'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { batchId, fileId }
+    });
+
+  } catch (error: any) {
+    console.error('❌ 取消文件处理失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '取消文件处理失败'
+    });
+  }
+});
+
+/**
+ * 重试批量任务中处理失败的文件
+ */
+router.post('/batch/:batchId/files/:fileId/retry', authMiddleware, async (req: any, res: Response) => {
+  try {
+    const { batchId, fileId } = req.params;
+
+    const batchTask = await MathpixService.getBatchTask(batchId);
+    if (!batchTask || batchTask.userId !== req.user._id) {
+      res.status(404).json({
+        success: false,
+        error: '批量任务不存在'
+      });
+      return;
+    }
+
+    const fileTask = batchTask.files.find(file => file.fileId === fileId);
+    if (!fileTask) {
+      res.status(404).json({
+        success: false,
+        error: '文件不存在'
+      });
+      return;
+    }
+
+    if (fileTask.status !== 'failed') {
+      res.status(400).json({
+        success: false,
+        error: '只能重试处理失败的文件'
+      });
+      return;
+    }
+
+    const buffer = readOriginalFile(batchId, fileId);
+    if (!buffer) {
+      res.status(404).json({
+        success: false,
+        error: '原始文件已丢失，请重新上传'
+      });
+      return;
+    }
+
+    // 重试会再次调用Mathpix，与上传一样计入配额
+    const reserved = await ensureQuota(req, res, [{ buffer, mimetype: fileTask.fileType, pageRanges: fileTask.pageRanges }], false);
+    if (!reserved) {
+      return;
+    }
+
+    const retried = await MathpixService.retryFile(batchId, fileId);
+    if (!retried) {
+      await QuotaService.release(getTaskOwner(req), reserved);
+      res.status(404).json({
+        success: false,
+        error: '原始文件已丢失，请重新上传'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { batchId, fileId }
+    });
+
+  } catch (error: any) {
+    console.error('❌ 重试文件失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '重试文件失败'
+    });
+  }
+});
+
+/**
+ * 使用已保存的原始识别结果重新转换（不再调用Mathpix）
+ *
+ * 请求体：{ scanId } 或 { batchId, fileId }，以及可选的 options
+ */
+router.post('/reconvert', authMiddleware, async (req: any, res: Response) => {
+  try {
+    const { scanId, batchId, fileId } = req.body;
+    const options = FormatConverter.parseOptions(req.body.options);
+
+    let conversion: ConversionResult | null;
+    if (typeof scanId === 'string') {
+      const task = await MathpixService.getScanTask(scanId);
+      if (!task || task.userId !== req.user._id) {
+        res.status(404).json({
+          success: false,
+          error: '扫描任务不存在'
+        });
+        return;
+      }
+      conversion = await MathpixService.reconvertScan(scanId, options);
+    } else if (typeof batchId === 'string' && typeof fileId === 'string') {
+      const batchTask = await MathpixService.getBatchTask(batchId);
+      if (!batchTask || batchTask.userId !== req.user._id || !batchTask.files.some(file => file.fileId === fileId)) {
+        res.status(404).json({
+          success: false,
+          error: '文件不存在'
+        });
+        return;
+      }
+      conversion = await MathpixService.reconvertFile(batchId, fileId, options);
+    } else {
+      res.status(400).json({
+        success: false,
+        error: '请提供 scanId 或 batchId 与 fileId'
+      });
+      return;
+    }
+
+    if (conversion === null) {
+      res.status(400).json({
+        success: false,
+        error: '该记录没有保存原始识别结果，无法重新转换'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { ...conversion, options }
+    });
+
+  } catch (error: any) {
+    console.error('❌ 重新转换失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '重新转换失败'
+    });
+  }
+});
+
+/**
+ * 获取题目在原文件中的截图（PDF 或 PNG），可通过查询参数传递访问令牌
+ */
+router.get('/batch/:batchId/files/:fileId/crops/:name', mediaAuthMiddleware, async (req: any, res: Response) => {
+  try {
+    const { batchId, fileId, name } = req.params;
+
+    const batchTask = await MathpixService.getBatchTask(batchId);
+    if (!batchTask || batchTask.userId !== req.user._id || !batchTask.files.some(file => file.fileId === fileId)) {
+      res.status(404).json({
+        success: false,
+        error: '文件不存在或无权访问'
+      });
+      return;
+    }
+
+    const cropPath = getQuestionCropPath(batchId, fileId, name);
+    if (!cropPath) {
+      res.status(404).json({
+        success: false,
+        error: '题目截图不存在'
+      });
+      return;
+    }
+
+    res.setHeader('Content-Type', name.endsWith('.pdf') ? 'application/pdf' : 'image/png');
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    res.sendFile(cropPath);
+
+  } catch (error: any) {
+    console.error('❌ 获取题目截图失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '获取题目截图失败'
+    });
+  }
+});
+
+/**
+ * 获取识别结果中的插图
+ */
+router.get('/batch/:batchId/figures/:name', mediaAuthMiddleware, async (req: any, res: Response) => {
+  try {
+    const { batchId, name } = req.params;
+
+    const batchTask = await MathpixService.getBatchTask(batchId);
+    if (!batchTask || batchTask.userId !== req.user._id) {
+      res.status(404).json({
+        success: false,
+        error: '文件不存在或无权访问'
+      });
+      return;
+    }
+
+    const figurePath = getFigurePath(batchId, name);
+    if (!figurePath) {
+      res.status(404).json({
+        success: false,
+        error: '插图不存在'
+      });
+      return;
+    }
+
+    res.type(path.extname(name));
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    res.sendFile(figurePath);
+
+  } catch (error: any) {
+    console.error('❌ 获取插图失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '获取插图失败'
+    });
+  }
+});
+
 /**
  * 获取原始文件
  */
-router.get('/original-file/:batchId/:fileId', authMiddleware, async (req: any, res: Response) => {
+router.get('/original-file/:batchId/:fileId', mediaAuthMiddleware, async (req: any, res: Response) => {
   try {
     const { batchId, fileId } = req.params;
     const userId = req.user._id;
 
     // 验证批量任务是否属于当前用户
-    const batchTask = MathpixService.getBatchTask(batchId);
+    const batchTask = await MathpixService.getBatchTask(batchId);
     if (!batchTask || batchTask.userId !== userId) {
       res.status(404).json({
         success: false,
@@ -347,7 +993,7 @@ router.get('/original-file/:batchId/:fileId', authMiddleware, async (req: any, r
 
     res.setHeader('Content-Type', contentType);
     res.setHeader('Content-Disposition', `inline; filename="${fileInfo.fileName}"`);
-    res.setHeader('Cache-Control', 'public, max-age=3600'); // 缓存1小时
+    res.setHeader('Cache-Control', 'private, max-age=3600'); // 只允许浏览器缓存1小时
 
     // 发送文件
     res.sendFile(fileInfo.filePath);
@@ -362,16 +1008,155 @@ router.get('/original-file/:batchId/:fileId', authMiddleware, async (req: any, r
 });
 
 /**
- * 获取所有扫描任务（用户自己的）
+ * 获取任务资源（进度推送、原始文件、题目截图、插图）的短期访问令牌，用于无法设置请求头的 EventSource、<img>、PDF 预览地址
+ * 请求体：scanId 或 batchId
+ */
+router.post('/media-token', authMiddleware, async (req: any, res: Response) => {
+  try {
+    const { scanId, batchId } = req.body;
+
+    let resource: string;
+    if (typeof scanId === 'string') {
+      const task = await MathpixService.getScanTask(scanId);
+      if (!task || task.userId !== req.user._id) {
+        res.status(404).json({
+          success: false,
+          error: '扫描任务不存在'
+        });
+        return;
+      }
+      resource = scanId;
+    } else if (typeof batchId === 'string') {
+      const batchTask = await MathpixService.getBatchTask(batchId);
+      if (!batchTask || batchTask.userId !== req.user._id) {
+        res.status(404).json({
+          success: false,
+          error: '批量任务不存在'
+        });
+        return;
+      }
+      resource = batchId;
+    } else {
+      res.status(400).json({
+        success: false,
+        error: '请提供 scanId 或 batchId'
+      });
+      return;
+    }
+
+    const token = JWTUtils.generateMediaToken(req.user._id, resource);
+    res.json({
+      success: true,
+      data: {
+        token,
+        expiresAt: new Date(JWTUtils.decode(token)!.exp! * 1000)
+      }
+    });
+
+  } catch (error: any) {
+    console.error('❌ 生成访问令牌失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '生成访问令牌失败'
+    });
+  }
+});
+
+/**
+ * 获取当前用户（及其所属企业）的配额使用情况
+ */
+router.get('/quota', authMiddleware, async (req: any, res: Response) => {
+  try {
+    const status = await QuotaService.getStatus(getTaskOwner(req));
+
+    res.json({
+      success: true,
+      data: status
+    });
+
+  } catch (error: any) {
+    console.error('❌ 获取配额失败:', error);
+    res.status(500).json({
+      success: false,
+      error: '获取配额失败'
+    });
+  }
+});
+
+/**
+ * 获取当前用户的上传限制（单个文件大小、批量文件数）
+ */
+router.get('/upload-limits', authMiddleware, async (req: any, res: Response) => {
+  res.json({
+    success: true,
+    data: UploadLimitService.resolve(req.user)
+  });
+});
+
+/**
+ * 获取扫描历史（用户自己的）
+ *
+ * 查询参数：page, pageSize, type(scan|batch), status, from, to, fileName, q
  */
 router.get('/tasks', authMiddleware, async (req: any, res: Response) => {
   try {
-    // 这里可以实现获取用户所有扫描任务的功能
-    // 目前返回空数组，因为使用内存存储
+    const page = Math.max(1, parseInt(req.query.page) || 1);
+    const pageSize = Math.min(100, Math.max(1, parseInt(req.query.pageSize) || 20));
+    const { type, status, from, to, fileName, q } = req.query;
+
+    // 查询参数可能被解析为数组或对象（如 ?q[]=a、?status[$ne]=x），只接受字符串
+    if ([type, status, from, to, fileName, q].some(value => value !== undefined && typeof value !== 'string')) {
+      res.status(400).json({
+        success: false,
+        error: '无效的查询参数'
+      });
+      return;
+    }
+
+    if (status && !TASK_STATUSES.includes(status)) {
+      res.status(400).json({
+        success: false,
+        error: '无效的任务状态'
+      });
+      return;
+    }
+
+    if (type && type !== 'scan' && type !== 'batch') {
+      res.status(400).json({
+        success: false,
+        error: '无效的任务类型'
+      });
+      return;
+    }
+
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      res.status(400).json({
+        success: false,
+        error: '无效的日期格式'
+      });
+      return;
+    }
+
+    const { tasks, total } = await MathpixService.listTaskHistory(req.user._id, {
+      page,
+      pageSize,
+      type,
+      status: status || undefined,
+      from: fromDate,
+      to: toDate,
+      fileName: fileName || undefined,
+      keyword: q || undefined
+    });
+
     res.json({
       success: true,
       data: {
-        tasks: []
+        tasks,
+        total,
+        page,
+        pageSize
       }
     });
 
@@ -0,0 +1,40 @@
+import { EventEmitter } from 'events';
+import { BatchTask } from '../models/BatchTask';
+
+/**
+ * 批量任务状态监听器
+ */
+export type BatchListener = (batchTask: BatchTask) => void;
+
+const emitter = new EventEmitter();
+// 每个订阅者（SSE 连接）注册一个监听器，不限制数量
+emitter.setMaxListeners(0);
+
+/**
+ * 批量任务进度事件（进程内发布/订阅，供 SSE 推送使用）
+ */
+export class BatchEvents {
+  /**
+   * 订阅批量任务状态变化，返回取消订阅函数
+   */
+  static subscribe(batchId: string, listener: BatchListener): () => void {
+    emitter.on(batchId, listener);
+    return () => {
+      emitter.off(batchId, listener);
+    };
+  }
+
+  /**
+   * 是否有订阅者，没有时可跳过快照查询
+   */
+  static hasSubscribers(batchId: string): boolean {
+    return emitter.listenerCount(batchId) > 0;
+  }
+
+  /**
+   * 发布批量任务最新状态
+   */
+  static publish(batchTask: BatchTask): void {
+    emitter.emit(batchTask.batchId, batchTask);
+  }
+}
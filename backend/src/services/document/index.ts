@@ -0,0 +1,6 @@
+export * from './types';
+export { ExamTokenizer } from './tokenizer';
+export { ExamParser } from './parser';
+export { MetadataParser } from './metadata';
+export { LatexRenderer } from './latexRenderer';
+export { LATEX_PROFILES } from './latexProfiles';
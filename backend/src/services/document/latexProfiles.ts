@@ -0,0 +1,171 @@
+import { BlankNode, OutputProfile, QuestionKind } from './types';
+
+/**
+ * 已输出为 LaTeX 的小问
+ */
+export interface RenderedSubQuestion {
+  number: number;
+  content: string;
+  subquestions: RenderedSubQuestion[];
+}
+
+/**
+ * 已输出为 LaTeX 的题目各部分，由输出模板组合为完整题目
+ */
+export interface RenderedQuestion {
+  kind: QuestionKind;
+  stem: string;
+  options: Array<{ label: string; content: string }>;
+  columns: number; // 选择题每行选项数
+  subquestions: RenderedSubQuestion[];
+  points?: number; // 模板支持分值参数且保留分值时，从题干中提取的分值
+}
+
+/**
+ * 输出模板：决定题目、选项、小问和填空的 LaTeX 写法
+ */
+export interface LatexProfile {
+  points: boolean; // 题干分值作为题目命令的参数输出
+  answerEnvironment?: string; // 文档类自带的答案环境，题后答案统一使用该环境；未设置时使用 options.answers 指定的环境（需在导言区定义）
+  document(questions: string[]): string;
+  question(question: RenderedQuestion): string;
+  blank(style: BlankNode['style'], isChoice: boolean): string;
+}
+
+/**
+ * 小问列表的一层
+ */
+interface ListLevel {
+  environment: string;
+  item: (subquestion: RenderedSubQuestion) => string;
+}
+
+const CIRCLED_NUMBERS = '①②③④⑤⑥⑦⑧⑨⑩⑪⑫⑬⑭⑮⑯⑰⑱⑲⑳';
+
+function renderEnvironment(environment: string, items: string[], argument = ''): string {
+  return `\\begin{${environment}}${argument}\n${items.join('\n')}\n\\end{${environment}}`;
+}
+
+/**
+ * 按层级输出小问列表，层级不足时沿用最后一层
+ */
+function renderList(subquestions: RenderedSubQuestion[], levels: ListLevel[], depth = 0): string {
+  const level = levels[Math.min(depth, levels.length - 1)];
+  const items = subquestions.map(subquestion => {
+    const item = level.item(subquestion);
+    const content = subquestion.content ? `${item} ${subquestion.content}` : item;
+    if (subquestion.subquestions.length === 0) {
+      return content;
+    }
+    return `${content}\n${renderList(subquestion.subquestions, levels, depth + 1)}`;
+  });
+  return renderEnvironment(level.environment, items);
+}
+
+/**
+ * tasks/problem 风格：题目为 \item，选项为 tasks 环境，小问为 problem 环境，填空为 \underlines
+ */
+const tasksProfile: LatexProfile = {
+  points: false,
+  document: questions => questions.join('\n\n'),
+  question: ({ stem, options, columns, subquestions }) => {
+    if (options.length > 0) {
+      const tasks = renderEnvironment('tasks', options.map(option => `\\task ${option.content}`), `(${columns})`);
+      return `\\item ${stem}\n\n${tasks}`;
+    }
+    if (subquestions.length > 0) {
+      const problem = renderList(subquestions, [
+        { environment: 'problem', item: () => '\\item' },
+        { environment: 'subproblem', item: () => '\\item' }
+      ]);
+      return `\\item ${stem ? `${stem}\n\n` : ''}${problem}`;
+    }
+    return `\\item ${stem}`;
+  },
+  blank: (style, isChoice) => {
+    if (style === 'line') {
+      return '\\underlines';
+    }
+    return isChoice ? '\\dotfill（\\qquad \\qquad）' : '（\\qquad）';
+  }
+};
+
+/**
+ * exam 文档类：题目为 \question[分值]，选项为 choices/oneparchoices 环境，小问为 parts 环境，填空为 \fillin
+ */
+const examProfile: LatexProfile = {
+  points: true,
+  answerEnvironment: 'solution',
+  document: questions => `\\begin{questions}\n\n${questions.join('\n\n')}\n\n\\end{questions}`,
+  question: ({ stem, options, columns, subquestions, points }) => {
+    const head = `\\question${points !== undefined ? `[${points}]` : ''}${stem ? ` ${stem}` : ''}`;
+    if (options.length > 0) {
+      // 一行放得下所有选项时使用段落内排列
+      const environment = columns >= options.length ? 'oneparchoices' : 'choices';
+      return `${head}\n\n${renderEnvironment(environment, options.map(option => `\\choice ${option.content}`))}`;
+    }
+    if (subquestions.length > 0) {
+      return `${head}\n\n${renderList(subquestions, [
+        { environment: 'parts', item: () => '\\part' },
+        { environment: 'subparts', item: () => '\\subpart' },
+        { environment: 'subsubparts', item: () => '\\subsubpart' }
+      ])}`;
+    }
+    return head;
+  },
+  blank: style => style === 'line' ? '\\fillin' : '（\\qquad）'
+};
+
+/**
+ * 标准列表：题目为 enumerate 中的 \item，选项按每行个数排成 A. ... \qquad B. ...，小问带（1）、① 标签
+ */
+const enumerateProfile: LatexProfile = {
+  points: false,
+  document: questions => `\\begin{enumerate}\n\n${questions.join('\n\n')}\n\n\\end{enumerate}`,
+  question: ({ stem, options, columns, subquestions }) => {
+    if (options.length > 0) {
+      const rows: string[] = [];
+      for (let index = 0; index < options.length; index += columns) {
+        rows.push(options.slice(index, index + columns).map(option => `${option.label}. ${option.content}`).join('\\qquad '));
+      }
+      return `\\item ${stem}\n\n${rows.join('\n\n')}`;
+    }
+    if (subquestions.length > 0) {
+      const list = renderList(subquestions, [
+        { environment: 'enumerate', item: subquestion => `\\item[（${subquestion.number}）]` },
+        { environment: 'enumerate', item: subquestion => `\\item[${CIRCLED_NUMBERS[subquestion.number - 1] || `(${subquestion.number})`}]` }
+      ]);
+      return `\\item ${stem ? `${stem}\n\n` : ''}${list}`;
+    }
+    return `\\item ${stem}`;
+  },
+  blank: style => style === 'line' ? '\\underline{\\hspace{2cm}}' : '（\\qquad）'
+};
+
+/**
+ * exam-zh 文档类：选择、填空题为 question 环境，解答题为 problem 环境，选项为 choices 环境，填空为 \fillin，作答括号为 \paren
+ */
+const examZhProfile: LatexProfile = {
+  points: true,
+  answerEnvironment: 'solution',
+  document: questions => questions.join('\n\n'),
+  question: ({ kind, stem, options, columns, subquestions, points }) => {
+    const environment = kind === 'solution' ? 'problem' : 'question';
+    const parts = stem ? [stem] : [];
+    if (options.length > 0) {
+      parts.push(renderEnvironment('choices', options.map(option => `\\item ${option.content}`), `[columns = ${columns}]`));
+    } else if (subquestions.length > 0) {
+      parts.push(renderList(subquestions, [{ environment: 'enumerate', item: () => '\\item' }]));
+    }
+    const begin = `\\begin{${environment}}${points !== undefined ? `[points = ${points}]` : ''}`;
+    return `${begin}\n${parts.join('\n')}\n\\end{${environment}}`;
+  },
+  blank: style => style === 'line' ? '\\fillin' : '\\paren'
+};
+
+export const LATEX_PROFILES: Record<OutputProfile, LatexProfile> = {
+  'tasks': tasksProfile,
+  'exam': examProfile,
+  'enumerate': enumerateProfile,
+  'exam-zh': examZhProfile
+};
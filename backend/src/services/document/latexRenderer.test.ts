@@ -0,0 +1,158 @@
+import fs from 'fs';
+import path from 'path';
+import { ExamParser } from './parser';
+import { LatexRenderer } from './latexRenderer';
+import { ConvertOptions, OutputProfile } from './types';
+
+const PROFILES: OutputProfile[] = ['tasks', 'exam', 'enumerate', 'exam-zh'];
+
+const readFixture = (name: string) => fs.readFileSync(path.join(__dirname, '__fixtures__', name), 'utf-8');
+
+// 与 FormatConverter 的默认选项一致
+const render = (fixture: string, options: ConvertOptions = {}) =>
+  LatexRenderer.render(ExamParser.parse(readFixture(fixture)), { dfrac: true, mathbb: true, removeScores: true, ...options });
+
+describe('LatexRenderer', () => {
+  it.each(PROFILES)('按 %s 模板输出整份试卷', (profile) => {
+    expect(`${render('paper.mmd', { profile })}\n`).toBe(readFixture(`paper.${profile}.tex`));
+  });
+
+  describe('选择题选项', () => {
+    it('短选项排在一行，长选项分行排列', () => {
+      const tasks = render('paper.mmd');
+      expect(tasks).toContain('\\begin{tasks}(4)\n\\task $\\{1\\}$');
+      expect(tasks).toContain('\\begin{tasks}(3)\n\\task 若两条直线');
+
+      const exam = render('paper.mmd', { profile: 'exam' });
+      expect(exam).toContain('\\begin{oneparchoices}\n\\choice $\\{1\\}$');
+      expect(exam).toContain('\\begin{choices}\n\\choice 若两条直线');
+
+      const examZh = render('paper.mmd', { profile: 'exam-zh' });
+      expect(examZh).toContain('\\begin{choices}[columns = 4]');
+      expect(examZh).toContain('\\begin{choices}[columns = 3]');
+    });
+
+    it('指定每行选项数时按该数目排列', () => {
+      expect(render('paper.mmd', { choiceColumns: 2 })).toContain('\\begin{tasks}(2)');
+      expect(render('paper.mmd', { profile: 'exam', choiceColumns: 2 })).not.toContain('oneparchoices');
+      expect(render('paper.mmd', { profile: 'exam-zh', choiceColumns: 2 })).toContain('\\begin{choices}[columns = 2]');
+      expect(render('paper.mmd', { profile: 'enumerate', choiceColumns: 2 }))
+        .toContain('A. $\\{1\\}$\\qquad B. $\\{2\\}$\n\nC. $\\{1,2\\}$\\qquad D. $\\varnothing$');
+    });
+
+    it.each(PROFILES)('%s 模板中选项内的行间公式、表格和插图保持换行，文字换行合并为空格', (profile) => {
+      const latex = render('options.mmd', { profile });
+      expect(latex).toContain('$$\n\\dfrac{1}{2}+\\dfrac{1}{3}\n$$');
+      expect(latex).toContain('一段较长的文字说明 换行后继续');
+      expect(latex).toContain('\\begin{tabular}{|c|c|}\n\\hline 1 & 2 \\\\\n\\hline\n\\end{tabular}');
+      expect(latex).toContain('% 远程插图：https://cdn.mathpix.com/cropped/abc.jpg\n\\fbox{\\parbox{0.4\\textwidth}{\\centering 插图}}');
+    });
+
+    it('选项中的注释不会注释掉之后的内容', () => {
+      for (const profile of PROFILES) {
+        const comment = render('options.mmd', { profile }).split('\n').find(line => line.includes('% 远程插图'))!;
+        expect(comment.slice(comment.indexOf('%'))).toBe('% 远程插图：https://cdn.mathpix.com/cropped/abc.jpg');
+      }
+    });
+  });
+
+  describe('分值', () => {
+    it('默认移除题干中的分值', () => {
+      for (const profile of PROFILES) {
+        const latex = render('paper.mmd', { profile });
+        expect(latex).not.toContain('5分');
+        expect(latex).not.toContain('满分12分');
+      }
+    });
+
+    it('保留分值时，支持分值参数的模板输出在题目命令上', () => {
+      expect(render('paper.mmd', { profile: 'exam', removeScores: false })).toContain('\\question[5] 函数');
+      expect(render('paper.mmd', { profile: 'exam-zh', removeScores: false })).toContain('\\begin{question}[points = 5]\n函数');
+      expect(render('paper.mmd', { profile: 'exam-zh', removeScores: false })).toContain('\\begin{problem}[points = 12]');
+    });
+
+    it('保留分值时，其他模板保留在题干中', () => {
+      expect(render('paper.mmd', { removeScores: false })).toContain('的定义域为\\dotfill（\\qquad \\qquad）（5分）');
+      expect(render('paper.mmd', { profile: 'enumerate', removeScores: false })).toContain('（5分）');
+    });
+  });
+
+  describe('题目信息', () => {
+    it('comment 在每道题前输出一行注释', () => {
+      const latex = render('paper.mmd', { metadata: 'comment' });
+      expect(latex).toContain('% 原题号：1 | 来源：22－23 高三上 上海杨浦 • 阶段练习 | 学年：2022-2023 | 年级：高三上 | 地区：上海杨浦 | 类型：阶段练习\n\\item 已知集合');
+      expect(latex).toContain('% 原题号：2 | 分值：5\n\\item 函数');
+      expect(latex).toContain('% 原题号：3\n\\item 下列命题');
+    });
+
+    it('macro 输出 \\questionmeta 宏', () => {
+      const latex = render('paper.mmd', { profile: 'exam', metadata: 'macro' });
+      expect(latex).toContain('\\questionmeta{1}{2022-2023}{高三}{上}{上海杨浦}{阶段练习}{}\n\\question 已知集合');
+      expect(latex).toContain('\\questionmeta{2}{}{}{}{}{}{5}\n\\question 函数');
+    });
+
+    it('不设置时不输出', () => {
+      const latex = render('paper.mmd');
+      expect(latex).not.toContain('原题号');
+      expect(latex).not.toContain('\\questionmeta');
+    });
+  });
+
+  it('本地插图输出为 figures 目录下的 \\includegraphics', () => {
+    expect(render('paper.mmd')).toContain('\\includegraphics[width=0.4\\textwidth]{figures/abc12345-fig1.png}');
+  });
+
+  describe('答案与解析', () => {
+    // 文档类自带答案环境的模板统一使用该环境，其他模板使用选项指定的环境
+    const ENVIRONMENTS: Array<[OutputProfile, ConvertOptions['answers'], string]> = [
+      ['tasks', 'solution', 'solution'],
+      ['tasks', 'answer', 'answer'],
+      ['enumerate', 'solution', 'solution'],
+      ['enumerate', 'answer', 'answer'],
+      ['exam', 'solution', 'solution'],
+      ['exam', 'answer', 'solution'],
+      ['exam-zh', 'solution', 'solution'],
+      ['exam-zh', 'answer', 'solution']
+    ];
+
+    it.each(ENVIRONMENTS)('%s 模板、answers 为 %s 时输出 %s 环境', (profile, answers, environment) => {
+      const latex = render('answers.mmd', { profile, answers });
+      expect(latex).toContain(`\\begin{${environment}}\n答案：C\n\n【分析】求交集．\n【详解】由题意 $A \\cap B=\\{1,2\\}$，故选 C．\n\\end{${environment}}`);
+      expect(latex).toContain(`\\begin{${environment}}\n答案：4\n\\end{${environment}}`);
+      expect(latex).toContain(`\\begin{${environment}}\n解：(1)`);
+      expect(latex.match(/\\begin\{(?:solution|answer)\}/g)).toHaveLength(4);
+      expect(latex).not.toContain(environment === 'solution' ? '\\begin{answer}' : '\\begin{solution}');
+      expect(latex).not.toContain('参考答案');
+    });
+
+    it.each(PROFILES)('%s 模板中答案环境紧跟在题目之后', (profile) => {
+      const latex = render('answers.mmd', { profile, answers: 'solution' });
+      const end = profile === 'exam-zh' ? '\\end{question}' : profile === 'enumerate' ? 'D. $[1,2)$' : '\\end{tasks}';
+      const marker = profile === 'exam' ? '\\end{oneparchoices}' : end;
+      expect(latex).toContain(`${marker}\n\n\\begin{solution}\n答案：A\n\n由 $x \\neq 0$ 得定义域，故选：A．\n\\end{solution}`);
+    });
+
+    it.each(PROFILES)('%s 模板不设置 answers 或设置为 key 时题后不输出答案', (profile) => {
+      for (const answers of [undefined, 'key'] as const) {
+        const latex = render('answers.mmd', { profile, answers });
+        expect(latex).not.toMatch(/\\begin\{(?:solution|answer)\}/);
+        expect(latex).not.toContain('答案：');
+      }
+    });
+
+    it.each(PROFILES)('%s 模板的答案卷按原题号列出答案和解析', (profile) => {
+      const answerKey = LatexRenderer.renderAnswerKey(ExamParser.parse(readFixture('answers.mmd')), { dfrac: true, mathbb: true, removeScores: true, profile });
+      expect(answerKey).toBe([
+        '\\section*{参考答案}',
+        '\\textbf{1．}C\n\n【分析】求交集．\n【详解】由题意 $A \\cap B=\\{1,2\\}$，故选 C．',
+        '\\textbf{2．}A\n\n由 $x \\neq 0$ 得定义域，故选：A．',
+        '\\textbf{3．}4',
+        '\\textbf{4．}解：(1) $f^{\\prime}(x)=2 x-2$，单调递增区间为 $(1,+\\infty)$；\n(2) $a>3$ 或 $a<-1$．'
+      ].join('\n\n'));
+    });
+
+    it('没有答案时不生成答案卷', () => {
+      expect(LatexRenderer.renderAnswerKey(ExamParser.parse(readFixture('paper.mmd')), { profile: 'tasks' })).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,263 @@
+import { ExamDocument, Question, QuestionMetadata, SubQuestion, InlineNode, ChoiceOption, ConvertOptions } from './types';
+import { LATEX_PROFILES, LatexProfile, RenderedQuestion, RenderedSubQuestion } from './latexProfiles';
+
+// 本地化后的插图链接（见 FigureLocalizer），转换为 figures/ 目录下的相对路径
+const LOCAL_FIGURE_PATTERN = /^\/api\/scan\/(?:batch|result)\/[\w-]+\/figures\/([\w.-]+)$/;
+const FIGURE_WIDTH = '0.4\\textwidth';
+
+/**
+ * 公式中当前花括号层级的状态
+ */
+interface BraceFrame {
+  protected: boolean; // 处于分数参数或上下标中
+  pendingFracArgs: number; // 之后还有几个分数参数
+  pendingScript: boolean; // 刚遇到 ^ 或 _
+}
+
+/**
+ * LaTeX 输出：公式变换、分值和插图在这里处理，题目、选项、小问和填空的写法由输出模板（见 LATEX_PROFILES）决定
+ */
+export class LatexRenderer {
+  static render(document: ExamDocument, options: ConvertOptions): string {
+    const profile = LATEX_PROFILES[options.profile || 'tasks'];
+    const questions = document.sections
+      .flatMap(section => section.questions)
+      .map(question => {
+        let latex = profile.question(this.renderQuestion(question, options, profile));
+        if (options.metadata) {
+          latex = `${this.renderMetadata(question.metadata, options.metadata)}\n${latex}`;
+        }
+        if ((options.answers === 'solution' || options.answers === 'answer') && (question.answer || question.solution)) {
+          const environment = profile.answerEnvironment || options.answers;
+          const content = this.renderAnswer(question, options, profile);
+          latex += `\n\n\\begin{${environment}}\n${content}\n\\end{${environment}}`;
+        }
+        return latex;
+      });
+    return profile.document(questions);
+  }
+
+  /**
+   * 答案卷：按原题号列出每道题的答案和解析，没有任何答案时返回 undefined
+   */
+  static renderAnswerKey(document: ExamDocument, options: ConvertOptions): string | undefined {
+    const profile = LATEX_PROFILES[options.profile || 'tasks'];
+    const entries = document.sections
+      .flatMap(section => section.questions)
+      .filter(question => question.answer || question.solution)
+      .map(question => {
+        const answer = question.answer ? this.renderInline(question.answer, options, profile) : '';
+        const solution = question.solution ? this.renderInline(question.solution, options, profile) : '';
+        const head = `\\textbf{${question.number}．}${answer || solution}`;
+        return answer && solution ? `${head}\n\n${solution}` : head;
+      });
+    return entries.length > 0 ? `\\section*{参考答案}\n\n${entries.join('\n\n')}` : undefined;
+  }
+
+  /**
+   * 题目后答案环境中的内容：答案一段，解析一段
+   */
+  private static renderAnswer(question: Question, options: ConvertOptions, profile: LatexProfile): string {
+    const parts: string[] = [];
+    if (question.answer) {
+      parts.push(`答案：${this.renderInline(question.answer, options, profile)}`);
+    }
+    if (question.solution) {
+      parts.push(this.renderInline(question.solution, options, profile));
+    }
+    return parts.join('\n\n');
+  }
+
+  /**
+   * 输出题目信息：comment 为一行注释，macro 为 \questionmeta{原题号}{学年}{年级}{学期}{地区}{考试类型}{分值}，
+   * 宏需在导言区定义（如 \newcommand{\questionmeta}[7]{}）
+   */
+  private static renderMetadata(metadata: QuestionMetadata, style: NonNullable<ConvertOptions['metadata']>): string {
+    if (style === 'macro') {
+      const args = [metadata.originalNumber, metadata.schoolYear, metadata.grade, metadata.semester, metadata.region, metadata.examType, metadata.score];
+      return `\\questionmeta${args.map(arg => `{${arg === undefined ? '' : this.escapeArgument(String(arg))}}`).join('')}`;
+    }
+
+    const fields: Array<[string, string | number | undefined]> = [
+      ['原题号', metadata.originalNumber],
+      ['来源', metadata.source?.replace(/\s+/g, ' ')],
+      ['学年', metadata.schoolYear],
+      ['年级', metadata.grade && `${metadata.grade}${metadata.semester || ''}`],
+      ['地区', metadata.region],
+      ['类型', metadata.examType],
+      ['分值', metadata.score]
+    ];
+    return `% ${fields.filter(([, value]) => value !== undefined && value !== '').map(([label, value]) => `${label}：${value}`).join(' | ')}`;
+  }
+
+  private static escapeArgument(value: string): string {
+    return value.replace(/\s+/g, ' ').replace(/[{}%#&$_\\]/g, char => char === '\\' ? '' : `\\${char}`);
+  }
+
+  private static renderQuestion(question: Question, options: ConvertOptions, profile: LatexProfile): RenderedQuestion {
+    const isChoice = question.kind === 'choice' || question.kind === 'multiple-choice';
+
+    // 模板支持分值参数时，题干中的第一个分值移到题目命令上
+    let stem = question.stem;
+    let points: number | undefined;
+    const score = profile.points && !options.removeScores ? stem.find(node => node.type === 'score') : undefined;
+    if (score?.type === 'score') {
+      points = score.value;
+      stem = stem.filter(node => node !== score);
+    }
+
+    return {
+      kind: question.kind,
+      stem: this.renderInline(stem, options, profile, isChoice),
+      options: question.options.map(option => ({
+        label: option.label,
+        content: this.renderInline(option.content, options, profile, false, true)
+      })),
+      columns: options.choiceColumns || this.calculateOptimalColumns(question.options),
+      subquestions: this.renderSubQuestions(question.subquestions, options, profile),
+      points
+    };
+  }
+
+  private static renderSubQuestions(subquestions: SubQuestion[], options: ConvertOptions, profile: LatexProfile): RenderedSubQuestion[] {
+    return subquestions.map(subquestion => ({
+      number: subquestion.number,
+      content: this.renderInline(subquestion.content, options, profile),
+      subquestions: this.renderSubQuestions(subquestion.subquestions, options, profile)
+    }));
+  }
+
+  /**
+   * 输出行内内容，填空和作答括号的写法由模板决定（选择题题干中的作答括号可与其他题型不同）；
+   * joinLines 时只把普通文字中的换行合并为空格（选项排在一行），行间公式、表格和插图保持原样
+   */
+  private static renderInline(nodes: InlineNode[], options: ConvertOptions, profile: LatexProfile, isChoice = false, joinLines = false): string {
+    const output = nodes.map(node => {
+      switch (node.type) {
+        case 'text':
+          return joinLines ? node.value.replace(/\s*\n\s*/g, ' ') : node.value;
+        case 'raw':
+          return node.value;
+        case 'math': {
+          const value = this.transformMath(node.value, options);
+          return node.display ? `$$${value}$$` : `$${value}$`;
+        }
+        case 'blank':
+          return profile.blank(node.style, isChoice);
+        case 'score':
+          return options.removeScores ? '' : node.raw;
+        case 'figure': {
+          const local = node.src.match(LOCAL_FIGURE_PATTERN);
+          if (local) {
+            return `\\includegraphics[width=${FIGURE_WIDTH}]{figures/${local[1]}}`;
+          }
+          // 未能下载到本地的插图：注释中保留原链接，正文输出占位框
+          return `\n% 远程插图：${node.src}\n\\fbox{\\parbox{${FIGURE_WIDTH}}{\\centering 插图}}`;
+        }
+      }
+    }).join('');
+
+    // 移除分值后可能留下多余的空格
+    return output.replace(/[ \t]{2,}/g, ' ').replace(/[ \t]+\n/g, '\n').trim();
+  }
+
+  private static transformMath(value: string, options: ConvertOptions): string {
+    let transformed = value;
+    if (options.dfrac) {
+      transformed = this.replaceTopLevelFrac(transformed);
+    }
+    // 将 \mathbf 替换为 \mathbb（粗体数学符号改为黑板粗体）
+    if (options.mathbb) {
+      transformed = transformed.replace(/\\mathbf\b/g, '\\mathbb');
+    }
+    return transformed;
+  }
+
+  /**
+   * 只将顶层的 \frac 替换为 \dfrac，分数参数和上下标中的 \frac 保持不变
+   */
+  private static replaceTopLevelFrac(math: string): string {
+    const stack: BraceFrame[] = [{ protected: false, pendingFracArgs: 0, pendingScript: false }];
+    let result = '';
+    let index = 0;
+
+    while (index < math.length) {
+      const frame = stack[stack.length - 1];
+      const char = math[index];
+
+      if (char === '\\') {
+        const command = math.slice(index).match(/^\\(?:[a-zA-Z]+|.)/)![0];
+        if (command === '\\frac' || command === '\\dfrac' || command === '\\tfrac') {
+          const isNested = frame.protected || frame.pendingScript || frame.pendingFracArgs > 0;
+          result += command === '\\frac' && !isNested ? '\\dfrac' : command;
+          frame.pendingFracArgs = 2;
+        } else {
+          result += command;
+          this.consumeArgument(frame);
+        }
+        frame.pendingScript = false;
+        index += command.length;
+        continue;
+      }
+
+      if (char === '{') {
+        const isProtected = frame.protected || frame.pendingScript || frame.pendingFracArgs > 0;
+        this.consumeArgument(frame);
+        frame.pendingScript = false;
+        stack.push({ protected: isProtected, pendingFracArgs: 0, pendingScript: false });
+      } else if (char === '}') {
+        if (stack.length > 1) {
+          stack.pop();
+        }
+      } else if (char === '^' || char === '_') {
+        frame.pendingScript = true;
+      } else if (!/\s/.test(char)) {
+        this.consumeArgument(frame);
+        frame.pendingScript = false;
+      }
+
+      result += char;
+      index++;
+    }
+
+    return result;
+  }
+
+  private static consumeArgument(frame: BraceFrame): void {
+    if (frame.pendingFracArgs > 0) {
+      frame.pendingFracArgs--;
+    }
+  }
+
+  /**
+   * 智能计算每行选项数量
+   */
+  private static calculateOptimalColumns(options: ChoiceOption[]): number {
+    if (options.length <= 1) return 1;
+
+    // 计算平均选项长度（只计文本，不含公式和LaTeX命令）
+    const avgLength = options.reduce((sum, option) => {
+      const cleanText = option.content
+        .map(node => node.type === 'text' ? node.value : '')
+        .join('')
+        .replace(/\\[a-zA-Z]+\{[^}]*\}/g, '')
+        .trim();
+      return sum + cleanText.length;
+    }, 0) / options.length;
+
+    // 根据平均长度和选项数量智能判断
+    if (avgLength > 30) {
+      // 长选项，每行1-2个
+      return options.length <= 2 ? options.length : 2;
+    } else if (avgLength > 15) {
+      // 中等长度选项，每行2-3个
+      return options.length <= 3 ? options.length : 3;
+    } else if (avgLength > 8) {
+      // 较短选项，每行3-4个
+      return options.length <= 4 ? options.length : 4;
+    } else {
+      // 很短选项，每行4-6个
+      return options.length <= 6 ? options.length : 6;
+    }
+  }
+}
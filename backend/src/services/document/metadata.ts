@@ -0,0 +1,68 @@
+import { QuestionMetadata } from './types';
+
+type SourceInfo = Pick<QuestionMetadata, 'schoolYear' | 'grade' | 'semester' | 'region' | 'examType'>;
+
+// 来源标注中各部分之间的分隔
+const SOURCE_SEPARATOR = /[\s•·|｜,，]+/;
+// 学年（22－23、2022-2023）或年份（2023、2023年）
+const SCHOOL_YEAR = /^(\d{2}|\d{4})\s*[－\-—~～至]\s*(\d{2}|\d{4})(?:学年)?$/;
+const YEAR = /^(\d{4})年?$/;
+// 年级，可带学期（高三上、七年级下学期）
+const GRADE = /^(高[一二三]|初[一二三]|[七八九]年级)(上|下)?(?:学期)?/;
+const EXAM_TYPE = /阶段|期中|期末|月考|模拟|联考|调研|测试|考试|检测|开学考|高考|中考|真题|练习|周测|质检|诊断|一模|二模|三模/;
+const REGION = /^\p{Script=Han}{2,10}$/u;
+
+/**
+ * 题目信息解析：将来源标注拆分为学年、年级、地区和考试类型
+ */
+export class MetadataParser {
+  /**
+   * 解析来源标注，如“22－23 高三上 上海杨浦 • 阶段练习”、“2023·北京·高考真题”，无法识别的部分忽略
+   */
+  static parseSource(source: string): SourceInfo {
+    const info: SourceInfo = {};
+
+    for (const part of source.split(SOURCE_SEPARATOR).filter(Boolean)) {
+      const schoolYear = part.match(SCHOOL_YEAR);
+      if (schoolYear && !info.schoolYear) {
+        info.schoolYear = `${this.fullYear(schoolYear[1])}-${this.fullYear(schoolYear[2])}`;
+        continue;
+      }
+
+      const year = part.match(YEAR);
+      if (year && !info.schoolYear) {
+        info.schoolYear = year[1];
+        continue;
+      }
+
+      const grade = part.match(GRADE);
+      if (grade && !info.grade) {
+        info.grade = grade[1];
+        if (grade[2]) {
+          info.semester = grade[2] as '上' | '下';
+        }
+        // 年级后直接跟考试类型，如“高三上期中”
+        const rest = part.slice(grade[0].length);
+        if (rest && EXAM_TYPE.test(rest) && !info.examType) {
+          info.examType = rest;
+        }
+        continue;
+      }
+
+      if (EXAM_TYPE.test(part) && !info.examType) {
+        info.examType = part;
+      } else if (REGION.test(part) && !info.region) {
+        info.region = part;
+      }
+    }
+
+    return info;
+  }
+
+  /**
+   * 两位年份补全为 20xx
+   */
+  private static fullYear(year: string): string {
+    return year.length === 2 ? `20${year}` : year;
+  }
+}
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import { ExamParser } from './parser';
+
+const readFixture = (name: string) => fs.readFileSync(path.join(__dirname, '__fixtures__', name), 'utf-8');
+
+describe('ExamParser', () => {
+  const document = ExamParser.parse(readFixture('paper.mmd'));
+  const questions = ExamParser.questions(document);
+
+  it('按大题划分题目，注意事项不作为题目', () => {
+    expect(document.title).toBe('2023学年第一学期高三数学期中考试');
+    expect(document.sections.map(section => section.title)).toEqual(['一、单选题', '二、填空题', '三、解答题']);
+    expect(questions.map(question => question.number)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('根据选项、填空和小问判断题型', () => {
+    expect(questions.map(question => question.kind)).toEqual(['choice', 'choice', 'choice', 'fill', 'fill', 'solution', 'solution']);
+  });
+
+  it('逐行和同一行排列的选项都拆分为 A-D', () => {
+    for (const question of questions.slice(0, 3)) {
+      expect(question.options.map(option => option.label)).toEqual(['A', 'B', 'C', 'D']);
+    }
+    expect(questions[1].options[2].content).toEqual([{ type: 'math', value: '\\mathbf{R}', display: false }]);
+  });
+
+  it('识别填空横线和作答括号', () => {
+    expect(questions[0].stem.some(node => node.type === 'blank' && node.style === 'bracket')).toBe(true);
+    expect(questions[3].stem.some(node => node.type === 'blank' && node.style === 'line')).toBe(true);
+    expect(questions[4].stem.some(node => node.type === 'blank' && node.style === 'line')).toBe(true);
+  });
+
+  it('识别多级小问', () => {
+    expect(questions[5].subquestions.map(subquestion => subquestion.number)).toEqual([1, 2]);
+    const [first, second] = questions[6].subquestions;
+    expect(first.subquestions).toEqual([]);
+    expect(second.subquestions.map(subquestion => subquestion.number)).toEqual([1, 2]);
+  });
+
+  it('从来源标注和分值中解析题目信息', () => {
+    expect(questions[0].metadata).toEqual({
+      originalNumber: 1,
+      source: '22－23 高三上 上海杨浦 • 阶段练习',
+      schoolYear: '2022-2023',
+      grade: '高三',
+      semester: '上',
+      region: '上海杨浦',
+      examType: '阶段练习'
+    });
+    expect(questions[1].metadata).toEqual({ originalNumber: 2, score: 5 });
+    expect(questions[5].metadata).toEqual({ originalNumber: 6, score: 12 });
+  });
+
+  it('来源标注不保留在题干中', () => {
+    const text = questions[0].stem.map(node => node.type === 'text' ? node.value : '').join('');
+    expect(text).not.toContain('阶段练习');
+  });
+
+  describe('答案与解析', () => {
+    const answered = ExamParser.questions(ExamParser.parse(readFixture('answers.mmd')));
+
+    it('文末的参考答案和解析不作为大题或题目', () => {
+      const answerDocument = ExamParser.parse(readFixture('answers.mmd'));
+      expect(answerDocument.sections.map(section => section.title)).toEqual(['一、单选题', '二、填空题', '三、解答题']);
+      expect(answered.map(question => question.number)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('按题号将参考答案和解析关联到题目', () => {
+      expect(answered[0].answer).toEqual([{ type: 'text', value: 'C' }]);
+      expect(answered[0].solution?.[0]).toEqual({ type: 'text', value: '【分析】求交集．\n【详解】由题意 ' });
+      expect(answered[2].answer).toEqual([{ type: 'text', value: '4' }]);
+      expect(answered[2].solution).toBeUndefined();
+      expect(answered[3].answer).toBeUndefined();
+      expect(answered[3].solution?.[0]).toEqual({ type: 'text', value: '解：(1) ' });
+    });
+
+    it('题目中的【答案】【解析】优先，并从题干中移除', () => {
+      expect(answered[1].answer).toEqual([{ type: 'text', value: 'A' }]);
+      expect(answered[1].solution?.[0]).toEqual({ type: 'text', value: '由 ' });
+      const stem = answered[1].stem.map(node => node.type === 'text' ? node.value : '').join('');
+      expect(stem).not.toContain('【答案】');
+      expect(answered[1].options[3].content).toEqual([{ type: 'math', value: '[1,2)', display: false }]);
+    });
+
+    it('没有答案的试卷不关联答案', () => {
+      expect(questions.every(question => !question.answer && !question.solution)).toBe(true);
+    });
+  });
+});
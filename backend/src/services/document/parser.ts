@@ -0,0 +1,643 @@
+import { ExamTokenizer, Token } from './tokenizer';
+import { MetadataParser } from './metadata';
+import { InlineNode, ExamDocument, Question, QuestionMetadata, ChoiceOption, SubQuestion } from './types';
+
+// 与 QuestionLocator 的规则一致：行首 数字 + 点号/顿号（排除小数）
+const QUESTION_START = /^\s*(\d+)\s*[．.、](?!\d)\s*/;
+// 大题标题（一．、二、等）
+const SECTION_START = /^\s*[一二三四五六七八九十]+\s*[．.、]/;
+// 注意事项等不含题目的部分，到下一个大题为止
+const NOTICE_TITLE = /注意事项|考生须知/;
+// 参考答案、解析等部分的标题，之后的内容都按题号解析为答案
+const ANSWER_TITLE = /^(?:[一二三四五六七八九十]+\s*[．.、]\s*)?【?\s*(?:参考答案|试题解析|答案|解析|详解)(?:\s*(?:与|及|和)?\s*(?:解析|详解|提示|评分标准))?\s*】?\s*[:：]?\s*$/;
+
+// 选项标记（A．、B. 等），小问标记（（1）、(2) 等），小问下的分项（①、② 等）
+const OPTION_MARKER = /([A-H])\s*[．.、)）]/g;
+const SUBQUESTION_MARKER = /[（(]\s*(\d+)\s*[）)]/g;
+const NESTED_MARKER = /([①②③④⑤⑥⑦⑧⑨⑩])/g;
+const CIRCLED_NUMBERS = '①②③④⑤⑥⑦⑧⑨⑩';
+
+// 参考答案中的题号：同一行可有多个（如“1．A 2．C”），全角点号后可直接跟数字答案（如“3．4”）
+const ANSWER_NUMBER = /(\d+)\s*(?:[．、]|\.(?!\d))/g;
+// 答案、解析标记（【答案】、解析：等）
+const ANSWER_MARKER = /(答案|解析|详解|分析|点睛|点评)\s*(?:】\s*[:：]?|[:：])/g;
+// 解析中给出选择题答案的句子
+const CHOICE_CONCLUSION = /故选\s*[:：]?\s*([A-H]+)/;
+// 参考答案中没有标记时，不超过该长度的单行内容视为答案，否则视为解析
+const SHORT_ANSWER_LENGTH = 30;
+
+// 小问标记前允许的字符（避免把“如图（1）”当作小问）
+const SUBQUESTION_BOUNDARY = /[\s。；;：:．.，,！!？?]/;
+
+// 题目开头的来源信息，如（22－23 高三上 上海杨浦 • 阶段练习）
+const SOURCE_PREFIX = /^\s*[（(]([^（）()]{2,80})[）)]\s*/;
+const SOURCE_KEYWORDS = /\d{2}\s*[－\-—~～至]\s*\d{2}|\d{4}|高[一二三]|初[一二三]|阶段|期中|期末|月考|模拟|联考|调研|测试|考试|试卷|真题|练习|[•·]/;
+
+const MULTIPLE_CHOICE = /多选|不定项选择|多项选择/;
+// 没有填空标记、但以这些形式结尾的题目视为填空题
+const FILL_ENDINGS = [
+  /则.{0,15}[为是][:：]\s*[．。]?\s*$/,
+  /若.{0,30}[，,].{0,15}则.{0,15}[:：]\s*[．。]?\s*$/,
+  /=\s*[．。]?\s*$/,
+  /的值为\s*[．。]?\s*$/,
+  /求.{0,15}[:：]\s*[．。]?\s*$/,
+  /计算.{0,15}[:：]\s*[．。]?\s*$/
+];
+
+// 页眉、公众号等与题目无关的内容
+const HEADER_LINE = /实验中学|育才中学|师大|附中/;
+const FIGURE_LABEL_LINE = /^\s*图\s*\d*\s*$/;
+const PROMOTION = /(?:（B）)?公众号[^。\n]*。?/g;
+
+type Line = Token[];
+
+/**
+ * 文本节点中的位置
+ */
+interface Position {
+  node: number;
+  offset: number;
+}
+
+/**
+ * 文本中的编号标记
+ */
+interface Marker {
+  label: string;
+  separator: string; // 标记末尾的标点
+  before: string; // 标记前一个字符
+  start: Position;
+  end: Position;
+}
+
+/**
+ * 解析中的大题，题目暂存为原始行
+ */
+interface SectionDraft {
+  title: string;
+  intro: InlineNode[][];
+  questions: Array<{ number: number; lines: InlineNode[][] }>;
+}
+
+/**
+ * 试卷解析：将 MMD 解析为大题、题目、题干、选项、小问组成的文档结构
+ */
+export class ExamParser {
+  static parse(source: string): ExamDocument {
+    const document: ExamDocument = { sections: [] };
+    const drafts: SectionDraft[] = [{ title: '', intro: [], questions: [] }];
+    let skipping = false;
+    let afterSection = false;
+    let inAnswers = false;
+    const answerLines: InlineNode[][] = [];
+
+    const startSection = (title: string) => {
+      drafts.push({ title, intro: [], questions: [] });
+      afterSection = true;
+    };
+
+    for (const line of this.toLines(ExamTokenizer.tokenize(source))) {
+      const first = line[0];
+      if (first?.type === 'command') {
+        if (first.name === 'title') {
+          document.title = first.argument.trim();
+        } else if ((first.name === 'section' || first.name === 'subsection') && !inAnswers) {
+          inAnswers = ANSWER_TITLE.test(first.argument.trim());
+          skipping = NOTICE_TITLE.test(first.argument);
+          if (!skipping && !inAnswers) {
+            startSection(first.argument.trim());
+          }
+        }
+        continue;
+      }
+
+      const nodes = line as InlineNode[];
+      const text = first?.type === 'text' ? first.value : '';
+      if (!inAnswers && ANSWER_TITLE.test(this.plainText(nodes).trim())) {
+        inAnswers = true;
+        continue;
+      }
+      // 参考答案部分中的大题标题不属于任何一题的答案
+      if (inAnswers) {
+        if (!SECTION_START.test(text) && !this.isNoise(nodes)) {
+          answerLines.push(nodes);
+        }
+        continue;
+      }
+      if (SECTION_START.test(text)) {
+        const title = this.plainText(nodes).trim();
+        skipping = NOTICE_TITLE.test(title);
+        if (!skipping) {
+          startSection(title);
+        }
+        continue;
+      }
+      if (skipping || this.isNoise(nodes)) {
+        continue;
+      }
+
+      const draft = drafts[drafts.length - 1];
+      const questionMatch = text.match(QUESTION_START);
+      if (questionMatch) {
+        const number = parseInt(questionMatch[1], 10);
+        const last = drafts.flatMap(item => item.questions).pop()?.number;
+        const isNext = last === undefined
+          || (number > last && number <= last + 2)
+          || (afterSection && number === 1);
+        if (isNext) {
+          const rest = text.slice(questionMatch[0].length);
+          draft.questions.push({ number, lines: [[...(rest ? [{ type: 'text' as const, value: rest }] : []), ...nodes.slice(1)]] });
+          afterSection = false;
+          continue;
+        }
+      }
+
+      const questions = draft.questions;
+      (questions.length > 0 ? questions[questions.length - 1].lines : draft.intro).push(nodes);
+    }
+
+    document.sections = drafts
+      .filter(draft => draft.title || draft.questions.length > 0)
+      .map(draft => ({
+        title: draft.title,
+        intro: this.joinLines(draft.intro),
+        questions: draft.questions.map(question => this.parseQuestion(question.number, this.joinLines(question.lines), draft.title))
+      }));
+
+    // 没有识别到题号时，整体作为一道题
+    if (!document.sections.some(section => section.questions.length > 0)) {
+      const content = this.joinLines(drafts.flatMap(draft => draft.intro));
+      if (content.length > 0) {
+        document.sections = [{ title: '', intro: [], questions: [this.parseQuestion(1, content, '')] }];
+      }
+    }
+
+    // 参考答案按原题号对应到题目，题目后已有的答案、解析优先
+    const answers = this.parseAnswers(answerLines);
+    for (const question of this.questions(document)) {
+      const entry = answers.get(question.number);
+      if (entry?.answer && !question.answer) {
+        question.answer = entry.answer;
+      }
+      if (entry?.solution && !question.solution) {
+        question.solution = entry.solution;
+      }
+    }
+
+    return document;
+  }
+
+  /**
+   * 所有题目（按大题顺序）
+   */
+  static questions(document: ExamDocument): Question[] {
+    return document.sections.flatMap(section => section.questions);
+  }
+
+  /**
+   * 节点的纯文本（公式保留源码，不含定界符）
+   */
+  static plainText(nodes: InlineNode[]): string {
+    return nodes.map(node => {
+      switch (node.type) {
+        case 'text':
+        case 'math':
+        case 'raw':
+          return node.value;
+        case 'score':
+          return node.raw;
+        default:
+          return '';
+      }
+    }).join('');
+  }
+
+  /**
+   * 解析单道题目：依次拆出答案、来源、选项或小问，并判断题型
+   */
+  private static parseQuestion(number: number, content: InlineNode[], sectionTitle: string): Question {
+    const { body, answer, solution } = this.splitAnswer(content, false);
+    const { source, rest } = this.extractSource(body);
+    const metadata: QuestionMetadata = { originalNumber: number, ...(source ? { source, ...MetadataParser.parseSource(source) } : {}) };
+    const question: Question = {
+      number,
+      kind: 'solution',
+      metadata,
+      stem: rest,
+      options: [],
+      subquestions: [],
+      ...(answer ? { answer } : {}),
+      ...(solution ? { solution } : {})
+    };
+
+    const options = this.splitOptions(rest);
+    if (options) {
+      question.stem = options.stem;
+      question.options = options.options;
+      question.kind = MULTIPLE_CHOICE.test(sectionTitle + this.plainText(options.stem)) ? 'multiple-choice' : 'choice';
+      return this.withScore(question);
+    }
+
+    const subquestions = this.splitSubQuestions(rest);
+    if (subquestions) {
+      question.stem = subquestions.stem;
+      question.subquestions = subquestions.subquestions;
+      return this.withScore(question);
+    }
+
+    const hasBlank = rest.some(node => node.type === 'blank' && node.style === 'line');
+    const plain = this.plainText(rest);
+    if (hasBlank || FILL_ENDINGS.some(pattern => pattern.test(plain))) {
+      question.kind = 'fill';
+      if (!hasBlank) {
+        question.stem = this.appendBlank(rest);
+      }
+    }
+
+    return this.withScore(question);
+  }
+
+  /**
+   * 记录题目分值：取题干中的分值，题干未标注时取各小问分值之和
+   */
+  private static withScore(question: Question): Question {
+    const findScore = (nodes: InlineNode[]) => nodes.find(node => node.type === 'score')?.value;
+    const score = findScore(question.stem);
+    if (score !== undefined) {
+      question.metadata.score = score;
+      return question;
+    }
+
+    const scores = question.subquestions.map(subquestion => findScore(subquestion.content));
+    if (scores.length > 0 && scores.every(value => value !== undefined)) {
+      question.metadata.score = scores.reduce((sum: number, value) => sum + value!, 0);
+    }
+    return question;
+  }
+
+  /**
+   * 按题号拆分参考答案部分，同一题号出现多次时（如先有答案表、后有详解）内容合并
+   */
+  private static parseAnswers(lines: InlineNode[][]): Map<number, { answer?: InlineNode[]; solution?: InlineNode[] }> {
+    const entries = new Map<number, InlineNode[][]>();
+    let current: InlineNode[][] | undefined;
+
+    for (const line of lines) {
+      const markers = this.findMarkers(line, ANSWER_NUMBER, (before) => before === '' || /\s/.test(before));
+      const first = markers[0];
+      if (!first || this.plainText(this.slice(line, null, first.start)).trim() || first.start.node !== 0) {
+        current?.push(line);
+        continue;
+      }
+
+      // 行首题号之后，只有编号连续的题号才视为同一行中的下一题
+      const sequence = [first];
+      for (const marker of markers.slice(1)) {
+        if (Number(marker.label) === Number(sequence[sequence.length - 1].label) + 1) {
+          sequence.push(marker);
+        }
+      }
+
+      sequence.forEach((marker, index) => {
+        const number = Number(marker.label);
+        current = entries.get(number) || [];
+        entries.set(number, current);
+        current.push(this.trim(this.slice(line, marker.end, sequence[index + 1]?.start ?? null)));
+      });
+    }
+
+    const answers = new Map<number, { answer?: InlineNode[]; solution?: InlineNode[] }>();
+    for (const [number, entryLines] of entries) {
+      const { answer, solution } = this.splitAnswer(this.joinLines(entryLines), true);
+      answers.set(number, { answer, solution });
+    }
+    return answers;
+  }
+
+  /**
+   * 拆出内容中的答案和解析：【答案】之后为答案，【解析】【详解】等之后为解析，标记之前为正文。
+   * inferred 为 true 时（参考答案部分）标记前的内容视为答案；没有任何标记时，较短的单行内容视为答案，
+   * 其余视为解析，并从“故选”中取出答案
+   */
+  private static splitAnswer(content: InlineNode[], inferred: boolean): { body: InlineNode[]; answer?: InlineNode[]; solution?: InlineNode[] } {
+    const markers = this.findMarkers(content, ANSWER_MARKER, (before) => before === '' || before === '【' || /\s/.test(before))
+      .map(marker => marker.before === '【' && marker.start.offset > 0
+        ? { ...marker, start: { node: marker.start.node, offset: marker.start.offset - 1 } }
+        : marker);
+
+    if (markers.length === 0) {
+      if (!inferred || content.length === 0) {
+        return { body: content };
+      }
+      const plain = this.plainText(content).trim();
+      if (plain.length <= SHORT_ANSWER_LENGTH && !plain.includes('\n') && !content.some(node => node.type === 'math' && node.display)) {
+        return { body: [], answer: content };
+      }
+      return { body: [], answer: this.conclusion(content), solution: content };
+    }
+
+    const body = this.trim(this.slice(content, null, markers[0].start));
+    const sections = markers.map((marker, index) => ({
+      label: marker.label,
+      content: this.trim(this.slice(content, marker.end, markers[index + 1]?.start ?? null))
+    }));
+
+    // 只有一段解析时去掉标记，有【分析】【详解】等多段时保留各段标记
+    const solutionSections = sections.filter(section => section.label !== '答案' && section.content.length > 0);
+    const solution = solutionSections.length > 1
+      ? this.joinLines(solutionSections.map(section => [{ type: 'text' as const, value: `【${section.label}】` }, ...section.content]))
+      : solutionSections[0]?.content;
+
+    const answer = sections.find(section => section.label === '答案' && section.content.length > 0)?.content
+      || (inferred && body.length > 0 ? body : undefined)
+      || (solution ? this.conclusion(solution) : undefined);
+
+    return { body: inferred ? [] : body, answer, solution };
+  }
+
+  /**
+   * 解析中“故选 B”等结论给出的选择题答案
+   */
+  private static conclusion(solution: InlineNode[]): InlineNode[] | undefined {
+    const match = this.plainText(solution).match(CHOICE_CONCLUSION);
+    return match ? [{ type: 'text', value: match[1] }] : undefined;
+  }
+
+  /**
+   * 拆出题目开头的来源信息（可在分值之后）
+   */
+  private static extractSource(content: InlineNode[]): { source?: string; rest: InlineNode[] } {
+    const index = content.findIndex(node => node.type !== 'score' && !(node.type === 'text' && !node.value.trim()));
+    const node = content[index];
+    if (!node || node.type !== 'text') {
+      return { rest: content };
+    }
+
+    const match = node.value.match(SOURCE_PREFIX);
+    if (!match || !SOURCE_KEYWORDS.test(match[1]) || /^\s*\d+\s*$/.test(match[1])) {
+      return { rest: content };
+    }
+
+    const remaining = node.value.slice(match[0].length);
+    const rest = [...content.slice(0, index), ...(remaining ? [{ type: 'text' as const, value: remaining }] : []), ...content.slice(index + 1)];
+    return { source: match[1].trim(), rest: this.trim(rest) };
+  }
+
+  /**
+   * 按 A．B．C． 等标记拆出选项，至少两个选项时视为选择题
+   */
+  private static splitOptions(content: InlineNode[]): { stem: InlineNode[]; options: ChoiceOption[] } | null {
+    const markers = this.findMarkers(content, OPTION_MARKER, (before) => before === '' || /\s/.test(before));
+    const labels = 'ABCDEFGH';
+
+    // 题干或选项中也可能出现“点 A.”，优先取行首的 A，其次取与后面的 B 标点一致的 A
+    const candidates = markers
+      .filter(marker => marker.label === 'A')
+      .map(marker => ({ marker, next: markers.find(other => other.label === 'B' && this.isAfter(other, marker)) }))
+      .filter(candidate => candidate.next)
+      .reverse();
+    const start = (
+      candidates.find(candidate => candidate.marker.before === '\n' || candidate.marker.before === '')
+      || candidates.find(candidate => candidate.marker.separator === candidate.next!.separator)
+      || candidates[0]
+    )?.marker;
+    if (!start) {
+      return null;
+    }
+
+    const sequence = this.takeSequence(markers, start, (index) => labels[index]);
+    if (sequence.length < 2) {
+      return null;
+    }
+
+    return {
+      stem: this.trim(this.slice(content, null, sequence[0].start)),
+      options: sequence.map((marker, index) => ({
+        label: marker.label,
+        content: this.trim(this.slice(content, marker.end, sequence[index + 1]?.start ?? null))
+      }))
+    };
+  }
+
+  /**
+   * 按（1）（2）等标记拆出小问，至少两个小问时才拆分；小问中的 ①② 拆为下一级
+   */
+  private static splitSubQuestions(content: InlineNode[]): { stem: InlineNode[]; subquestions: SubQuestion[] } | null {
+    const sequence = this.findSequence(content, SUBQUESTION_MARKER, (before) => before === '' || SUBQUESTION_BOUNDARY.test(before), (index) => String(index + 1));
+    if (!sequence) {
+      return null;
+    }
+
+    return {
+      stem: this.trim(this.slice(content, null, sequence[0].start)),
+      subquestions: sequence.map((marker, index) => {
+        const subContent = this.trim(this.slice(content, marker.end, sequence[index + 1]?.start ?? null));
+        const nested = this.findSequence(subContent, NESTED_MARKER, () => true, (nestedIndex) => CIRCLED_NUMBERS[nestedIndex]);
+        return {
+          number: index + 1,
+          content: nested ? this.trim(this.slice(subContent, null, nested[0].start)) : subContent,
+          subquestions: (nested || []).map((nestedMarker, nestedIndex) => ({
+            number: nestedIndex + 1,
+            content: this.trim(this.slice(subContent, nestedMarker.end, nested![nestedIndex + 1]?.start ?? null)),
+            subquestions: []
+          }))
+        };
+      })
+    };
+  }
+
+  /**
+   * 查找从第一个编号开始、编号连续的标记，少于两个时返回 null
+   */
+  private static findSequence(content: InlineNode[], pattern: RegExp, accept: (before: string) => boolean, labelAt: (index: number) => string): Marker[] | null {
+    const markers = this.findMarkers(content, pattern, accept);
+    const start = markers.find(marker => marker.label === labelAt(0));
+    if (!start) {
+      return null;
+    }
+    const sequence = this.takeSequence(markers, start, labelAt);
+    return sequence.length >= 2 ? sequence : null;
+  }
+
+  /**
+   * 从 start 开始依次取下一个编号的标记
+   */
+  private static takeSequence(markers: Marker[], start: Marker, labelAt: (index: number) => string): Marker[] {
+    const sequence = [start];
+    for (;;) {
+      const previous = sequence[sequence.length - 1];
+      const next = markers.find(marker => marker.label === labelAt(sequence.length) && this.isAfter(marker, previous));
+      if (!next) {
+        return sequence;
+      }
+      sequence.push(next);
+    }
+  }
+
+  /**
+   * 查找文本节点中的编号标记，before 为标记前一个字符（内容开头或前面是填空、图片等节点时为空字符串，前面是公式时为 '$'）
+   */
+  private static findMarkers(content: InlineNode[], pattern: RegExp, accept: (before: string) => boolean): Marker[] {
+    const markers: Marker[] = [];
+    content.forEach((node, index) => {
+      if (node.type !== 'text') {
+        return;
+      }
+      for (const match of node.value.matchAll(pattern)) {
+        const offset = match.index!;
+        const before = offset > 0 ? node.value[offset - 1] : this.charBefore(content, index);
+        if (!accept(before)) {
+          continue;
+        }
+        markers.push({
+          label: match[1],
+          separator: match[0][match[0].length - 1],
+          before,
+          start: { node: index, offset },
+          end: { node: index, offset: offset + match[0].length }
+        });
+      }
+    });
+    return markers;
+  }
+
+  private static charBefore(content: InlineNode[], index: number): string {
+    const previous = content[index - 1];
+    if (!previous) {
+      return '';
+    }
+    if (previous.type === 'text') {
+      return previous.value[previous.value.length - 1] || '';
+    }
+    return previous.type === 'math' || previous.type === 'raw' ? '$' : '';
+  }
+
+  private static isAfter(marker: Marker, previous: Marker): boolean {
+    return marker.start.node > previous.end.node
+      || (marker.start.node === previous.end.node && marker.start.offset >= previous.end.offset);
+  }
+
+  /**
+   * 截取两个位置之间的节点，null 表示内容开头或结尾
+   */
+  private static slice(content: InlineNode[], from: Position | null, to: Position | null): InlineNode[] {
+    const start = from || { node: 0, offset: 0 };
+    const end = to || { node: content.length, offset: 0 };
+    const result: InlineNode[] = [];
+
+    for (let index = start.node; index <= end.node && index < content.length; index++) {
+      const node = content[index];
+      if (node.type !== 'text') {
+        if (index < end.node) {
+          result.push(node);
+        }
+        continue;
+      }
+      const value = node.value.slice(
+        index === start.node ? start.offset : 0,
+        index === end.node ? end.offset : undefined
+      );
+      if (value) {
+        result.push({ type: 'text', value });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 在题目末尾补一个填空（去掉末尾的句号）
+   */
+  private static appendBlank(content: InlineNode[]): InlineNode[] {
+    const result = [...content];
+    const last = result[result.length - 1];
+    if (last?.type === 'text') {
+      const value = last.value.replace(/[．。]?\s*$/, '');
+      result.splice(result.length - 1, 1, ...(value ? [{ type: 'text' as const, value }] : []));
+    }
+    return [...result, { type: 'text', value: ' ' }, { type: 'blank', style: 'line' }, { type: 'text', value: ' ．' }];
+  }
+
+  /**
+   * 按行切分记号，标题类命令单独成行；顺带去掉公众号推广文字
+   */
+  private static toLines(tokens: Token[]): Line[] {
+    const lines: Line[] = [[]];
+    for (const token of tokens) {
+      if (token.type === 'command') {
+        lines.push([token], []);
+        continue;
+      }
+      if (token.type !== 'text') {
+        lines[lines.length - 1].push(token);
+        continue;
+      }
+      token.value.replace(PROMOTION, '').split('\n').forEach((part, index) => {
+        if (index > 0) {
+          lines.push([]);
+        }
+        if (part) {
+          lines[lines.length - 1].push({ type: 'text', value: part });
+        }
+      });
+    }
+    return lines;
+  }
+
+  /**
+   * 页眉（学校名称）、单独的“图”字等无关行
+   */
+  private static isNoise(line: InlineNode[]): boolean {
+    if (line.length === 0 || line.some(node => node.type !== 'text')) {
+      return false;
+    }
+    const text = this.plainText(line);
+    return FIGURE_LABEL_LINE.test(text) || (HEADER_LINE.test(text) && !QUESTION_START.test(text));
+  }
+
+  /**
+   * 将多行合并为一段内容，行之间以换行分隔，并合并相邻的文本节点
+   */
+  private static joinLines(lines: InlineNode[][]): InlineNode[] {
+    const nodes: InlineNode[] = [];
+    lines.forEach((line, index) => {
+      if (index > 0) {
+        nodes.push({ type: 'text', value: '\n' });
+      }
+      nodes.push(...line);
+    });
+
+    const merged: InlineNode[] = [];
+    for (const node of nodes) {
+      const previous = merged[merged.length - 1];
+      if (node.type === 'text' && previous?.type === 'text') {
+        merged[merged.length - 1] = { type: 'text', value: previous.value + node.value };
+      } else {
+        merged.push(node);
+      }
+    }
+    return this.trim(merged);
+  }
+
+  /**
+   * 去掉首尾的空白
+   */
+  private static trim(nodes: InlineNode[]): InlineNode[] {
+    const isBlankText = (node?: InlineNode) => node?.type === 'text' && !node.value.trim();
+    const result = [...nodes];
+    while (isBlankText(result[0])) {
+      result.shift();
+    }
+    while (isBlankText(result[result.length - 1])) {
+      result.pop();
+    }
+    const first = result[0];
+    if (first?.type === 'text') {
+      result[0] = { type: 'text', value: first.value.trimStart() };
+    }
+    const last = result[result.length - 1];
+    if (last?.type === 'text') {
+      result[result.length - 1] = { type: 'text', value: last.value.trimEnd() };
+    }
+    return result;
+  }
+}
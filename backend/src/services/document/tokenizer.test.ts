@@ -0,0 +1,32 @@
+import { ExamTokenizer } from './tokenizer';
+
+describe('ExamTokenizer', () => {
+  it('按定界符识别行内和行间公式，忽略转义的 \\$', () => {
+    expect(ExamTokenizer.tokenize('已知 \\(x>0\\)，价格为 \\$5，求 \\[\\frac{x}{2}\\] 的最小值：')).toEqual([
+      { type: 'text', value: '已知 ' },
+      { type: 'math', value: 'x>0', display: false },
+      { type: 'text', value: '，价格为 \\$5，求 ' },
+      { type: 'math', value: '\\frac{x}{2}', display: true },
+      { type: 'text', value: ' 的最小值：' }
+    ]);
+  });
+
+  it('识别标题命令、分值、填空、作答括号、环境和图片', () => {
+    const source = '\\section*{一、选择题}\n1．（5分）值为 ______ 或 $\\qquad$，括号（ ）\n\\begin{tabular}{c}\n1\n\\end{tabular}\n![](a.png)';
+    expect(ExamTokenizer.tokenize(source)).toEqual([
+      { type: 'command', name: 'section', argument: '一、选择题' },
+      { type: 'text', value: '\n1．' },
+      { type: 'score', value: 5, raw: '（5分）' },
+      { type: 'text', value: '值为 ' },
+      { type: 'blank', style: 'line' },
+      { type: 'text', value: ' 或 ' },
+      { type: 'blank', style: 'line' },
+      { type: 'text', value: '，括号' },
+      { type: 'blank', style: 'bracket' },
+      { type: 'text', value: '\n' },
+      { type: 'raw', value: '\\begin{tabular}{c}\n1\n\\end{tabular}' },
+      { type: 'text', value: '\n' },
+      { type: 'figure', alt: '', src: 'a.png' }
+    ]);
+  });
+});
@@ -0,0 +1,199 @@
+import { InlineNode } from './types';
+
+/**
+ * 标题类命令（\title{...}、\section*{...} 等），参数按花括号配对读取
+ */
+export interface CommandToken {
+  type: 'command';
+  name: string; // 不含星号，如 section
+  argument: string;
+}
+
+export type Token = InlineNode | CommandToken;
+
+// 带 y 标志，从指定位置开始匹配
+const COMMAND_PATTERN = /\\(title|author|section|subsection)\*?\s*\{/y;
+const ENVIRONMENT_PATTERN = /\\begin\{([^}]+)\}/y;
+const FIGURE_PATTERN = /!\[([^\]]*)\]\(([^)\s]+)\)/y;
+
+// 可能开始非文本记号的字符
+const TOKEN_START_CHARS = '$\\!';
+
+// 文本中的分值、横线填空和作答括号
+const TEXT_MARK_PATTERN = /([（(]\s*(?:本小题满分|满分)?\s*(\d+)\s*分\s*[）)])|((?:\\_\s*){3,}|_{3,})|([（(]\s*[）)])/g;
+
+// 只有横线或 \qquad 的公式视为填空，只有括号和空白的公式视为作答括号
+const MATH_LINE_BLANK_PATTERN = /^(?:\\_|_|\\qquad|\\underline\{(?:\s|~|\\quad|\\qquad)*\}|\s|~)+$/;
+const MATH_BRACKET_BLANK_PATTERN = /^[（(](?:\s|~|\\,|\\quad|\\qquad)*[）)]$/;
+
+/**
+ * MMD 词法分析：识别公式（按定界符配对，忽略 \$ 转义）、LaTeX 环境、标题命令和图片，
+ * 其余内容作为文本，文本中的分值、填空横线和作答括号单独成为节点
+ */
+export class ExamTokenizer {
+  static tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let text = '';
+    const flushText = () => {
+      if (text) {
+        tokens.push(...this.splitText(text));
+        text = '';
+      }
+    };
+
+    let index = 0;
+    while (index < source.length) {
+      const token = TOKEN_START_CHARS.includes(source[index]) ? this.readToken(source, index) : null;
+      if (token) {
+        flushText();
+        tokens.push(token.token);
+        index = token.end;
+        continue;
+      }
+
+      // 转义字符（\$、\\ 等）整体作为文本，避免被当作定界符
+      const length = source[index] === '\\' && index + 1 < source.length ? 2 : 1;
+      text += source.slice(index, index + length);
+      index += length;
+    }
+    flushText();
+
+    return tokens;
+  }
+
+  /**
+   * 读取从 index 开始的非文本记号，不是记号时返回 null
+   */
+  private static readToken(source: string, index: number): { token: Token; end: number } | null {
+    if (source.startsWith('$$', index)) {
+      const close = this.findDelimiter(source, '$$', index + 2);
+      return close === -1 ? null : { token: this.mathToken(source.slice(index + 2, close), true), end: close + 2 };
+    }
+    if (source[index] === '$') {
+      const close = this.findDelimiter(source, '$', index + 1);
+      const value = close === -1 ? '' : source.slice(index + 1, close);
+      // 跨段落的 $ 不是行内公式（如金额）
+      return close === -1 || /\n\s*\n/.test(value) ? null : { token: this.mathToken(value, false), end: close + 1 };
+    }
+    if (source.startsWith('\\[', index) || source.startsWith('\\(', index)) {
+      const display = source[index + 1] === '[';
+      const close = this.findDelimiter(source, display ? '\\]' : '\\)', index + 2);
+      return close === -1 ? null : { token: this.mathToken(source.slice(index + 2, close), display), end: close + 2 };
+    }
+
+    const environment = this.matchAt(ENVIRONMENT_PATTERN, source, index);
+    if (environment) {
+      const end = this.findEnvironmentEnd(source, environment[1], index + environment[0].length);
+      return end === -1 ? null : { token: { type: 'raw', value: source.slice(index, end) }, end };
+    }
+
+    const command = this.matchAt(COMMAND_PATTERN, source, index);
+    if (command) {
+      const close = this.findClosingBrace(source, index + command[0].length);
+      return close === -1 ? null : {
+        token: { type: 'command', name: command[1], argument: source.slice(index + command[0].length, close) },
+        end: close + 1
+      };
+    }
+
+    const figure = this.matchAt(FIGURE_PATTERN, source, index);
+    if (figure) {
+      return { token: { type: 'figure', alt: figure[1], src: figure[2] }, end: index + figure[0].length };
+    }
+
+    return null;
+  }
+
+  private static matchAt(pattern: RegExp, source: string, index: number): RegExpExecArray | null {
+    pattern.lastIndex = index;
+    return pattern.exec(source);
+  }
+
+  private static mathToken(value: string, display: boolean): InlineNode {
+    const trimmed = value.trim();
+    if (!display && trimmed && MATH_LINE_BLANK_PATTERN.test(trimmed)) {
+      return { type: 'blank', style: 'line' };
+    }
+    if (!display && MATH_BRACKET_BLANK_PATTERN.test(trimmed)) {
+      return { type: 'blank', style: 'bracket' };
+    }
+    return { type: 'math', value, display };
+  }
+
+  /**
+   * 拆出文本中的分值、填空横线和作答括号
+   */
+  private static splitText(text: string): InlineNode[] {
+    const nodes: InlineNode[] = [];
+    let last = 0;
+    for (const match of text.matchAll(TEXT_MARK_PATTERN)) {
+      if (match.index! > last) {
+        nodes.push({ type: 'text', value: text.slice(last, match.index) });
+      }
+      if (match[1]) {
+        nodes.push({ type: 'score', value: parseInt(match[2], 10), raw: match[1] });
+      } else {
+        nodes.push({ type: 'blank', style: match[3] ? 'line' : 'bracket' });
+      }
+      last = match.index! + match[0].length;
+    }
+    if (last < text.length) {
+      nodes.push({ type: 'text', value: text.slice(last) });
+    }
+    return nodes;
+  }
+
+  /**
+   * 查找结束定界符，跳过被反斜杠转义的位置
+   */
+  private static findDelimiter(source: string, delimiter: string, from: number): number {
+    for (let index = from; index < source.length; index++) {
+      if (source[index] === '\\' && !delimiter.startsWith('\\')) {
+        index++;
+        continue;
+      }
+      if (source.startsWith(delimiter, index)) {
+        return index;
+      }
+      if (source[index] === '\\') {
+        index++;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * 查找与已打开的花括号配对的右花括号
+   */
+  private static findClosingBrace(source: string, from: number): number {
+    let depth = 1;
+    for (let index = from; index < source.length; index++) {
+      const char = source[index];
+      if (char === '\\') {
+        index++;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}' && --depth === 0) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * 查找环境的结束位置（\end{name} 之后），支持同名环境嵌套
+   */
+  private static findEnvironmentEnd(source: string, name: string, from: number): number {
+    const begin = `\\begin{${name}}`;
+    const end = `\\end{${name}}`;
+    let depth = 1;
+    for (let index = from; index < source.length; index++) {
+      if (source.startsWith(begin, index)) {
+        depth++;
+      } else if (source.startsWith(end, index) && --depth === 0) {
+        return index + end.length;
+      }
+    }
+    return -1;
+  }
+}
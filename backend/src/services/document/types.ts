@@ -0,0 +1,135 @@
+/**
+ * 纯文本（可包含换行）
+ */
+export interface TextNode {
+  type: 'text';
+  value: string;
+}
+
+/**
+ * 公式，value 不含定界符
+ */
+export interface MathNode {
+  type: 'math';
+  value: string;
+  display: boolean; // 行间公式（$$...$$、\[...\]）
+}
+
+/**
+ * 填空位置：line 为横线（____、$\_\_\_$ 等），bracket 为选择题的作答括号（（ ））
+ */
+export interface BlankNode {
+  type: 'blank';
+  style: 'line' | 'bracket';
+}
+
+/**
+ * 插图（Markdown 图片）
+ */
+export interface FigureNode {
+  type: 'figure';
+  src: string;
+  alt: string;
+}
+
+/**
+ * 分值标注，如（4分）、（本小题满分12分）
+ */
+export interface ScoreNode {
+  type: 'score';
+  value: number;
+  raw: string; // 原文
+}
+
+/**
+ * 原样保留的 LaTeX 环境（表格等）
+ */
+export interface RawNode {
+  type: 'raw';
+  value: string;
+}
+
+export type InlineNode = TextNode | MathNode | BlankNode | FigureNode | ScoreNode | RawNode;
+
+/**
+ * 选择题选项
+ */
+export interface ChoiceOption {
+  label: string; // A、B、C...
+  content: InlineNode[];
+}
+
+/**
+ * 小问（（1）、（2）...），小问下可再分 ①、② 等
+ */
+export interface SubQuestion {
+  number: number;
+  content: InlineNode[];
+  subquestions: SubQuestion[];
+}
+
+export type QuestionKind = 'choice' | 'multiple-choice' | 'fill' | 'solution';
+
+/**
+ * 题目信息：从题目开头的来源标注和分值中解析，供题库使用
+ */
+export interface QuestionMetadata {
+  originalNumber: number;   // 原题号
+  source?: string;          // 来源原文，如“22－23 高三上 上海杨浦 • 阶段练习”
+  schoolYear?: string;      // 学年，如 2022-2023；只有年份时为 2023
+  grade?: string;           // 年级，如 高三
+  semester?: '上' | '下';    // 学期
+  region?: string;          // 地区，如 上海杨浦
+  examType?: string;        // 考试类型，如 阶段练习、期中
+  score?: number;           // 分值，题干未标注时为各小问分值之和
+}
+
+/**
+ * 题目
+ */
+export interface Question {
+  number: number; // 原题号
+  kind: QuestionKind;
+  metadata: QuestionMetadata;
+  stem: InlineNode[];
+  options: ChoiceOption[];
+  subquestions: SubQuestion[];
+  answer?: InlineNode[];   // 答案，来自题目后的【答案】或试卷末尾的参考答案
+  solution?: InlineNode[]; // 解析
+}
+
+/**
+ * 大题（一、选择题 等），第一个大题标题之前的题目归入标题为空的大题
+ */
+export interface Section {
+  title: string;
+  intro: InlineNode[]; // 标题与第一题之间的说明
+  questions: Question[];
+}
+
+/**
+ * 试卷文档
+ */
+export interface ExamDocument {
+  title?: string;
+  sections: Section[];
+}
+
+/**
+ * LaTeX 输出模板：tasks 为 tasks/problem 宏包风格（默认），exam 为 exam 文档类，
+ * enumerate 为只依赖标准列表的通用格式，exam-zh 为 exam-zh 文档类
+ */
+export type OutputProfile = 'tasks' | 'exam' | 'enumerate' | 'exam-zh';
+
+/**
+ * 转换选项
+ */
+export interface ConvertOptions {
+  dfrac?: boolean;          // 顶层 \frac 替换为 \dfrac，默认开启
+  mathbb?: boolean;         // \mathbf 替换为 \mathbb，默认开启
+  removeScores?: boolean;   // 移除分值信息，默认开启
+  choiceColumns?: number;   // 选择题每行选项数，不设置时自动判断
+  profile?: OutputProfile;  // 输出模板，默认 tasks
+  metadata?: 'comment' | 'macro'; // 在每道题前输出题目信息：LaTeX 注释或 \questionmeta 宏，不设置时不输出
+  answers?: 'solution' | 'answer' | 'key'; // 答案和解析：输出在题目后的 solution/answer 环境中（exam、exam-zh 模板统一使用 solution），或单独输出为答案卷，不设置时不输出
+}
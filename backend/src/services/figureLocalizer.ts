@@ -0,0 +1,97 @@
+import axios from 'axios';
+import { saveFigure } from '../utils/fileStorage';
+
+// MMD 中引用 Mathpix CDN 插图的 Markdown 图片
+const MATHPIX_FIGURE_PATTERN = /!\[([^\]]*)\]\((https:\/\/cdn\.mathpix\.com\/[^)\s]+)\)/g;
+
+// 单个文件最多下载的插图数量
+const MAX_FIGURES = 50;
+const FIGURE_DOWNLOAD_TIMEOUT = 15000;
+const FIGURE_MAX_SIZE = 10 * 1024 * 1024;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp'
+};
+
+/**
+ * 插图所属的任务：批量任务中的文件或单文件扫描
+ */
+export type FigureOwner = { batchId: string; fileId: string } | { scanId: string };
+
+/**
+ * 插图本地化：Mathpix CDN 链接会过期，识别完成后将插图下载到任务目录，并将链接改写为本地接口地址
+ * （批量任务为 GET /api/scan/batch/:batchId/figures/:name，单文件扫描为 GET /api/scan/result/:scanId/figures/:name）
+ */
+export class FigureLocalizer {
+  /**
+   * 本地插图的访问地址
+   */
+  static figureUrl(owner: FigureOwner, name: string): string {
+    return 'batchId' in owner
+      ? `/api/scan/batch/${owner.batchId}/figures/${name}`
+      : `/api/scan/result/${owner.scanId}/figures/${name}`;
+  }
+
+  /**
+   * 检查 MMD 中引用的 Mathpix 插图链接是否已失效（缓存的结果可能早于链接的有效期）
+   */
+  static async hasExpiredFigures(markdown: string): Promise<boolean> {
+    const urls = this.remoteFigures(markdown).slice(0, MAX_FIGURES);
+    const results = await Promise.all(urls.map(url =>
+      axios.head(url, { timeout: FIGURE_DOWNLOAD_TIMEOUT }).then(() => true, () => false)
+    ));
+    return results.includes(false);
+  }
+
+  /**
+   * 下载 MMD 中引用的插图并改写链接，下载失败的插图保留原链接
+   */
+  static async localize(markdown: string, owner: FigureOwner, signal?: AbortSignal): Promise<string> {
+    const urls = this.remoteFigures(markdown);
+    if (urls.length === 0) {
+      return markdown;
+    }
+
+    if (urls.length > MAX_FIGURES) {
+      console.warn(`⚠️ 插图数量过多（${urls.length}），只下载前 ${MAX_FIGURES} 张`);
+    }
+
+    const [taskId, prefix] = 'batchId' in owner ? [owner.batchId, owner.fileId] : [owner.scanId, owner.scanId];
+    const localUrls = new Map<string, string>();
+    for (const [index, url] of urls.slice(0, MAX_FIGURES).entries()) {
+      try {
+        const response = await axios.get<ArrayBuffer>(url, {
+          responseType: 'arraybuffer',
+          timeout: FIGURE_DOWNLOAD_TIMEOUT,
+          maxContentLength: FIGURE_MAX_SIZE,
+          signal
+        });
+
+        const contentType = String(response.headers['content-type'] || '').split(';')[0].trim();
+        const name = `${prefix.substring(0, 8)}-fig${index + 1}.${EXTENSIONS[contentType] || 'jpg'}`;
+        saveFigure(taskId, name, Buffer.from(response.data));
+        localUrls.set(url, this.figureUrl(owner, name));
+      } catch (error: any) {
+        signal?.throwIfAborted();
+        console.warn(`⚠️ 下载插图失败: ${url}`, error.message);
+      }
+    }
+
+    console.log(`🖼️ 插图本地化完成: ${localUrls.size}/${urls.length}`);
+
+    return markdown.replace(MATHPIX_FIGURE_PATTERN, (match, alt, url) => {
+      const localUrl = localUrls.get(url);
+      return localUrl ? `![${alt}](${localUrl})` : match;
+    });
+  }
+
+  /**
+   * MMD 中引用的 Mathpix 插图链接（去重）
+   */
+  private static remoteFigures(markdown: string): string[] {
+    return Array.from(new Set(Array.from(markdown.matchAll(MATHPIX_FIGURE_PATTERN), match => match[2])));
+  }
+}
@@ -0,0 +1,116 @@
+import path from 'path';
+import sharp from 'sharp';
+import heicConvert from 'heic-convert';
+import { PDFDocument } from 'pdf-lib';
+
+/**
+ * 上传的文件（与 multer 的文件字段一致）
+ */
+export interface UploadedFile {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+  size: number;
+}
+
+// OCR 服务可直接识别的格式
+const NATIVE_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/jpg'];
+
+// 需要在服务端转码的格式，部分浏览器不会为 HEIC 提供 MIME 类型，因此同时按扩展名识别
+const TRANSCODE_TYPES: Record<string, 'heic' | 'webp' | 'tiff'> = {
+  'image/heic': 'heic',
+  'image/heif': 'heic',
+  'image/webp': 'webp',
+  'image/tiff': 'tiff'
+};
+const TRANSCODE_EXTENSIONS: Record<string, 'heic' | 'webp' | 'tiff'> = {
+  '.heic': 'heic',
+  '.heif': 'heic',
+  '.webp': 'webp',
+  '.tif': 'tiff',
+  '.tiff': 'tiff'
+};
+
+// 多页TIFF最多转换的页数
+const MAX_TIFF_PAGES = 200;
+
+/**
+ * 上传文件转码：将 HEIC、WebP、TIFF 转换为 OCR 服务支持的格式，
+ * HEIC 转为 JPEG，WebP 和单页 TIFF 转为 PNG，多页 TIFF 按页序合并为一份 PDF
+ */
+export class FileTranscoder {
+  /**
+   * 是否为支持上传的文件格式
+   */
+  static isSupported(file: { originalname: string; mimetype: string }): boolean {
+    return NATIVE_TYPES.includes(file.mimetype) || this.getTranscodeFormat(file) !== null;
+  }
+
+  /**
+   * 转码为 OCR 服务支持的格式，已支持的格式原样返回；转码后文件扩展名随之修改
+   */
+  static async normalize<T extends UploadedFile>(file: T): Promise<T> {
+    if (NATIVE_TYPES.includes(file.mimetype)) {
+      return file;
+    }
+
+    const format = this.getTranscodeFormat(file);
+    if (!format) {
+      throw new Error(`不支持的文件类型: ${file.originalname}`);
+    }
+
+    const { buffer, mimetype } = format === 'heic'
+      ? await this.convertHeic(file.buffer)
+      : format === 'tiff'
+        ? await this.convertTiff(file.buffer)
+        : { buffer: await sharp(file.buffer).rotate().png().toBuffer(), mimetype: 'image/png' };
+
+    const extension = mimetype === 'application/pdf' ? 'pdf' : mimetype.split('/')[1].replace('jpeg', 'jpg');
+    const originalname = `${path.parse(file.originalname).name}.${extension}`;
+    console.log(`🔄 文件转码: ${file.originalname} (${file.size} bytes) -> ${originalname} (${buffer.length} bytes)`);
+
+    return { ...file, buffer, mimetype, originalname, size: buffer.length };
+  }
+
+  private static getTranscodeFormat(file: { originalname: string; mimetype: string }): 'heic' | 'webp' | 'tiff' | null {
+    return TRANSCODE_TYPES[file.mimetype]
+      || TRANSCODE_EXTENSIONS[path.extname(file.originalname).toLowerCase()]
+      || null;
+  }
+
+  /**
+   * HEIC 转 JPEG（sharp 预编译版本不含 HEVC 解码器），多图 HEIC 只取主图
+   */
+  private static async convertHeic(fileBuffer: Buffer): Promise<{ buffer: Buffer; mimetype: string }> {
+    const output = await heicConvert({ buffer: fileBuffer, format: 'JPEG', quality: 0.92 });
+    return { buffer: Buffer.from(output), mimetype: 'image/jpeg' };
+  }
+
+  /**
+   * 单页 TIFF 转 PNG；多页 TIFF 每页转为 PNG 后按页序合并为 PDF，页面尺寸按图片分辨率换算
+   */
+  private static async convertTiff(fileBuffer: Buffer): Promise<{ buffer: Buffer; mimetype: string }> {
+    const { pages = 1 } = await sharp(fileBuffer).metadata();
+    if (pages <= 1) {
+      return { buffer: await sharp(fileBuffer).rotate().png().toBuffer(), mimetype: 'image/png' };
+    }
+
+    if (pages > MAX_TIFF_PAGES) {
+      throw new Error(`TIFF 页数过多（${pages} 页），最多支持 ${MAX_TIFF_PAGES} 页`);
+    }
+
+    const doc = await PDFDocument.create();
+    for (let page = 0; page < pages; page++) {
+      const image = sharp(fileBuffer, { page });
+      const { density } = await image.metadata();
+      const { data, info } = await image.rotate().png().toBuffer({ resolveWithObject: true });
+
+      const scale = 72 / (density || 72);
+      const embedded = await doc.embedPng(data);
+      const pdfPage = doc.addPage([info.width * scale, info.height * scale]);
+      pdfPage.drawImage(embedded, { x: 0, y: 0, width: pdfPage.getWidth(), height: pdfPage.getHeight() });
+    }
+
+    return { buffer: Buffer.from(await doc.save()), mimetype: 'application/pdf' };
+  }
+}
@@ -0,0 +1,251 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { MathpixService, ScanTask, BatchTask } from './mathpixService';
+import { TaskStore } from './taskStore';
+import { QuotaService } from './quotaService';
+import { FileOcrProvider, setOcrProvider } from './ocr';
+import { cleanupBatchFiles } from '../utils/fileStorage';
+
+// 任务记录和识别结果缓存保存在内存中，不连接 MongoDB
+jest.mock('./taskStore', () => {
+  const scans = new Map<string, any>();
+  const batches = new Map<string, any>();
+  const files = new Map<string, any[]>();
+  const now = () => new Date();
+  const apply = (target: any, patch: Record<string, any>) => {
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === undefined) {
+        delete target[key];
+      } else {
+        target[key] = value;
+      }
+    }
+    target.updatedAt = now();
+  };
+
+  return {
+    TaskStore: {
+      createScanTask: jest.fn(async (task: any) => {
+        scans.set(task.scanId, { ...task, createdAt: now(), updatedAt: now() });
+      }),
+      updateScanTask: jest.fn(async (scanId: string, patch: any) => {
+        if (scans.has(scanId)) apply(scans.get(scanId), patch);
+      }),
+      getScanTask: jest.fn(async (scanId: string) => scans.has(scanId) ? { ...scans.get(scanId) } : null),
+      createBatchTask: jest.fn(async ({ files: fileTasks, ...record }: any) => {
+        batches.set(record.batchId, { ...record, createdAt: now(), updatedAt: now() });
+        files.set(record.batchId, fileTasks.map((file: any) => ({ ...file })));
+      }),
+      updateBatchTask: jest.fn(async (batchId: string, patch: any) => {
+        if (batches.has(batchId)) apply(batches.get(batchId), patch);
+      }),
+      updateFileTask: jest.fn(async (batchId: string, fileId: string, patch: any) => {
+        const file = files.get(batchId)?.find(item => item.fileId === fileId);
+        if (file) apply(file, patch);
+      }),
+      getFileTask: jest.fn(async (batchId: string, fileId: string) => {
+        const file = files.get(batchId)?.find(item => item.fileId === fileId);
+        return file ? { ...file } : null;
+      }),
+      getFileTasks: jest.fn(async (batchId: string) => (files.get(batchId) || []).map(file => ({ ...file }))),
+      getBatchTask: jest.fn(async (batchId: string) => {
+        const record = batches.get(batchId);
+        return record ? { ...record, files: (files.get(batchId) || []).map(file => ({ ...file })) } : null;
+      })
+    }
+  };
+});
+
+jest.mock('./resultCache', () => {
+  const { ResultCache: Actual } = jest.requireActual('./resultCache');
+  const entries = new Map<string, any>();
+  return {
+    ResultCache: {
+      hash: Actual.hash,
+      get: jest.fn(async (contentHash: string) => entries.get(contentHash) ?? null),
+      has: jest.fn(async (contentHash: string) => entries.has(contentHash)),
+      set: jest.fn(async (contentHash: string, _fileType: string | undefined, result: any) => {
+        entries.set(contentHash, result);
+      })
+    }
+  };
+});
+
+jest.mock('./usageService', () => ({
+  UsageService: { record: jest.fn(async () => undefined) }
+}));
+
+jest.mock('./quotaService', () => {
+  const { QuotaService: Actual } = jest.requireActual('./quotaService');
+  return {
+    QuotaService: {
+      estimatePages: Actual.estimatePages.bind(Actual),
+      release: jest.fn(async () => undefined)
+    }
+  };
+});
+
+const IMAGE_MMD = '1. 计算 $\\frac{1}{2}+\\frac{1}{3}$ 的值。\n';
+const PDF_MMD = [
+  '1. 已知集合 $A=\\{1,2\\}$，则（ ）',
+  'A. $1 \\in A$',
+  'B. $3 \\in A$',
+  'C. $0 \\in A$',
+  'D. $A=\\varnothing$',
+  ''
+].join('\n');
+
+const owner = { userId: 'user-1', enterprise: 'example.com' };
+const fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ocr-fixtures-'));
+const batchIds: string[] = [];
+
+const waitFor = async <T>(read: () => Promise<T>, done: (value: T) => boolean, timeout = 5000): Promise<T> => {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    const value = await read();
+    if (done(value) || Date.now() > deadline) {
+      return value;
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+const waitForScan = (scanId: string) =>
+  waitFor(() => MathpixService.getScanTask(scanId), task => !!task && ['completed', 'failed'].includes(task.status));
+
+const waitForBatch = (batchId: string) =>
+  waitFor(() => MathpixService.getBatchTask(batchId), task => !!task && ['completed', 'failed', 'cancelled'].includes(task.status));
+
+const scanStatuses = (scanId: string) => (TaskStore.updateScanTask as jest.Mock).mock.calls
+  .filter(([id, patch]) => id === scanId && patch.status)
+  .map(([, patch]) => patch.status);
+
+const createPdf = async (): Promise<Buffer> => {
+  const document = await PDFDocument.create();
+  document.addPage();
+  return Buffer.from(await document.save());
+};
+
+beforeAll(() => {
+  fs.writeFileSync(path.join(fixtureDir, 'image.mmd'), IMAGE_MMD);
+  fs.writeFileSync(path.join(fixtureDir, 'pdf.mmd'), PDF_MMD);
+  setOcrProvider(new FileOcrProvider(fixtureDir));
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  setOcrProvider(null);
+  batchIds.forEach(cleanupBatchFiles);
+  fs.rmSync(fixtureDir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+describe('MathpixService 使用样例OCR服务', () => {
+  it('单文件扫描依次进入处理中、已完成，并保存转换结果', async () => {
+    const scanId = await MathpixService.createScanTask(Buffer.from('image-a'), owner, 'a.png', 'image/png');
+
+    const task = await waitForScan(scanId) as ScanTask;
+    expect(task.status).toBe('completed');
+    expect(task.progress).toBe(100);
+    expect(task.cached).toBe(false);
+    expect(task.rawResult).toBe(IMAGE_MMD);
+    expect(task.result).toContain('\\item 计算 $\\dfrac{1}{2}+\\dfrac{1}{3}$ 的值。');
+    expect(task.estimatedTimeRemaining).toBeUndefined();
+    expect(scanStatuses(scanId)).toEqual(['processing', 'completed']);
+  });
+
+  it('同一文件再次上传时命中识别结果缓存', async () => {
+    const first = await MathpixService.createScanTask(Buffer.from('image-b'), owner, 'b.png', 'image/png');
+    await waitForScan(first);
+
+    const provider = new FileOcrProvider(fixtureDir);
+    const recognizeImage = jest.spyOn(provider, 'recognizeImage');
+    setOcrProvider(provider);
+
+    const second = await MathpixService.createScanTask(Buffer.from('image-b'), owner, 'b.png', 'image/png');
+    const task = await waitForScan(second) as ScanTask;
+
+    expect(task.status).toBe('completed');
+    expect(task.cached).toBe(true);
+    expect(task.rawResult).toBe(IMAGE_MMD);
+    expect(recognizeImage).not.toHaveBeenCalled();
+  });
+
+  it('强制重新识别时跳过缓存', async () => {
+    const first = await MathpixService.createScanTask(Buffer.from('image-c'), owner, 'c.png', 'image/png');
+    await waitForScan(first);
+
+    const second = await MathpixService.createScanTask(Buffer.from('image-c'), owner, 'c.png', 'image/png', { force: true });
+    const task = await waitForScan(second) as ScanTask;
+
+    expect(task.status).toBe('completed');
+    expect(task.cached).toBe(false);
+  });
+
+  it('识别失败时任务标记为失败并保存错误信息', async () => {
+    const provider = new FileOcrProvider(fixtureDir);
+    jest.spyOn(provider, 'recognizeImage').mockRejectedValue(new Error('服务不可用'));
+    setOcrProvider(provider);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const scanId = await MathpixService.createScanTask(Buffer.from('image-d'), owner, 'd.png', 'image/png');
+    const task = await waitForScan(scanId) as ScanTask;
+
+    expect(task.status).toBe('failed');
+    expect(task.error).toBe('Mathpix识别失败: 服务不可用');
+    expect(scanStatuses(scanId)).toEqual(['processing', 'failed']);
+    // 识别服务未受理，退还上传时占用的页数
+    expect(QuotaService.release).toHaveBeenCalledWith(owner, { files: 0, pages: 1 });
+
+    setOcrProvider(new FileOcrProvider(fixtureDir));
+  });
+
+  it('批量任务处理 PDF 和图片，全部完成后汇总状态', async () => {
+    const pdf = await createPdf();
+    const batchId = await MathpixService.createBatchTask([
+      { buffer: pdf, originalname: 'paper.pdf', mimetype: 'application/pdf', size: pdf.length },
+      { buffer: Buffer.from('image-e'), originalname: 'e.png', mimetype: 'image/png', size: 7 }
+    ], owner);
+    batchIds.push(batchId);
+
+    const batch = await waitForBatch(batchId) as BatchTask;
+    expect(batch.status).toBe('completed');
+    expect(batch.overallProgress).toBe(100);
+    expect(batch.completedFiles).toBe(2);
+    expect(batch.failedFiles).toBe(0);
+
+    const [pdfFile, imageFile] = batch.files;
+    expect(pdfFile.status).toBe('completed');
+    expect(pdfFile.rawResult).toBe(PDF_MMD);
+    expect(pdfFile.result).toContain('\\begin{tasks}(4)');
+    expect(pdfFile.result).toContain('\\task $1 \\in A$');
+    expect(imageFile.status).toBe('completed');
+    expect(imageFile.rawResult).toBe(IMAGE_MMD);
+
+    // 文件依次经过上传、识别、转换阶段
+    const fileStatuses = (TaskStore.updateFileTask as jest.Mock).mock.calls
+      .filter(([id, fileId, patch]) => id === batchId && fileId === pdfFile.fileId && patch.status)
+      .map(([, , patch]) => patch.status);
+    expect(fileStatuses).toEqual(['uploading', 'mathpix-processing', 'converting', 'completed']);
+  });
+
+  it('批量任务中已识别过的文件命中缓存', async () => {
+    const first = await MathpixService.createBatchTask([
+      { buffer: Buffer.from('image-f'), originalname: 'f.png', mimetype: 'image/png', size: 7 }
+    ], owner);
+    batchIds.push(first);
+    await waitForBatch(first);
+
+    const second = await MathpixService.createBatchTask([
+      { buffer: Buffer.from('image-f'), originalname: 'f.png', mimetype: 'image/png', size: 7 },
+      { buffer: Buffer.from('image-g'), originalname: 'g.png', mimetype: 'image/png', size: 7 }
+    ], owner);
+    batchIds.push(second);
+
+    const batch = await waitForBatch(second) as BatchTask;
+    expect(batch.status).toBe('completed');
+    expect(batch.files.map(file => file.cached)).toEqual([true, false]);
+  });
+});
@@ -1,114 +1,161 @@
-import axios from 'axios';
-import FormData from 'form-data';
 import { v4 as uuidv4 } from 'uuid';
+import { FormatConverter, ConvertOptions, ConversionResult } from './formatConverter';
 import { config } from '../config';
-import { FormatConverter } from './formatConverter';
-import { saveOriginalFile, cleanupBatchFiles } from '../utils/fileStorage';
+import { getOcrProvider, OcrProgress, OcrProgressCallback, PdfStatus } from './ocr';
+import { BatchEvents } from './batchEvents';
+import { ResultCache, CachedResult } from './resultCache';
+import { QuestionLocator, QuestionLocation } from './questionLocator';
+import { QuestionCropper } from './questionCropper';
+import { FigureLocalizer } from './figureLocalizer';
+import { UsageService, UsageContext } from './usageService';
+import { TaskStore, TaskHistoryItem, TaskHistoryQuery } from './taskStore';
+import { QuotaService } from './quotaService';
+import { ScanTask } from '../models/ScanTask';
+import { FileTask } from '../models/FileTask';
+import { BatchTask } from '../models/BatchTask';
+import { saveOriginalFile, readOriginalFile, saveQuestionCrops, cleanupBatchFiles, cleanupOldFiles } from '../utils/fileStorage';
+import { splitPdf, PdfChunk } from '../utils/pdf';
 
 /**
- * Mathpix配置
+ * PDF轮询参数
  */
-const getMathpixConfig = () => {
-  const apiKey = config.mathpix.apiKey;
-  const appId = config.mathpix.appId;
-  
-  if (!apiKey || !appId) {
-    throw new Error('Mathpix API配置缺失，请在.env文件中设置MATHPIX_API_KEY和MATHPIX_APP_ID');
-  }
-  
-  return { apiKey, appId };
-};
+const POLL_INITIAL_INTERVAL = 1000; // 首次轮询间隔1秒
+const POLL_MAX_INTERVAL = 15000; // 最大轮询间隔15秒
+const POLL_BACKOFF_FACTOR = 1.5;
+const POLL_MAX_CONSECUTIVE_ERRORS = 5;
+const POLL_DEADLINE_GRACE_SECONDS = 30; // 在conversion_timeout之外额外等待的排队时间
+
+export type { ScanTask, FileTask, BatchTask };
+
+/**
+ * 已结束的文件状态
+ */
+const TERMINAL_FILE_STATUSES: FileTask['status'][] = ['completed', 'failed', 'cancelled'];
 
 /**
- * 扫描任务接口
+ * 任务归属（用户及其所属企业，用于用量统计）
  */
-export interface ScanTask {
-  scanId: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
-  progress: number;
-  result?: string;
-  error?: string;
-  createdAt: Date;
-  updatedAt: Date;
+export interface TaskOwner {
+  userId: string;
+  enterprise?: string;
 }
 
 /**
- * 文件任务接口
+ * 创建扫描任务的选项
  */
-export interface FileTask {
-  fileId: string;
-  fileName: string;
-  fileSize: number;
-  fileType: string;
-  status: 'pending' | 'uploading' | 'mathpix-processing' | 'converting' | 'completed' | 'failed';
-  progress: number;
-  result?: string;
-  error?: string;
-  originalFilePath?: string;
-  createdAt: Date;
-  updatedAt: Date;
-  estimatedTimeRemaining?: number;
+export interface ScanOptions {
+  force?: boolean; // 跳过结果缓存，强制重新识别
+  pageRanges?: string; // 只识别PDF的指定页码，如 "3-6,8"
+  convertOptions?: ConvertOptions; // 转换选项（输出模板等），保存在任务上供重试沿用
 }
 
 /**
- * 批量任务接口
+ * 批量上传的文件
  */
-export interface BatchTask {
-  batchId: string;
-  userId: string;
-  files: FileTask[];
-  overallProgress: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
-  totalFiles: number;
-  completedFiles: number;
-  failedFiles: number;
-  createdAt: Date;
-  updatedAt: Date;
-  estimatedTimeRemaining?: number;
+export interface BatchUploadFile {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+  size: number;
+  pageRanges?: string;
 }
 
 /**
- * 扫描任务存储（内存存储，生产环境建议使用Redis）
+ * 调用识别服务的选项
  */
-const scanTasks = new Map<string, ScanTask>();
+interface UploadOptions {
+  usage?: UsageContext;
+  quota?: TaskOwner; // 上传时已为本次识别占用页数配额，识别服务受理前失败时退还
+  contentHash?: string;
+  force?: boolean;
+  pageRanges?: string;
+  onProgress?: OcrProgressCallback;
+  signal?: AbortSignal;
+}
 
 /**
- * 批量任务存储
+ * 识别结果（附带行位置信息时用于定位题目）
  */
-const batchTasks = new Map<string, BatchTask>();
+interface UploadResult extends CachedResult {
+  cached: boolean;
+}
+
+/**
+ * 公式识别结果
+ */
+export interface FormulaResult {
+  latex: string;
+  latexStyled?: string;
+  asciimath?: string;
+  mathml?: string;
+  text: string; // 识别出的完整文本（MMD）
+  cached: boolean;
+}
+
+// 公式两侧的数学定界符
+const MATH_DELIMITER_PATTERN = /^\s*(?:\$\$([\s\S]*)\$\$|\$([\s\S]*)\$|\\\[([\s\S]*)\\\]|\\\(([\s\S]*)\\\))\s*$/;
+
+/**
+ * 批量任务中各状态的文件数量
+ */
+interface BatchFileCounts {
+  totalFiles: number;
+  completedFiles: number;
+  failedFiles: number;
+  cancelledFiles: number;
+}
 
 /**
  * 处理队列管理
  */
 class ProcessingQueue {
-  private queue: Array<() => Promise<void>> = [];
+  private queue: Array<{ key?: string; run: () => Promise<void>; cancel: () => void }> = [];
   private processing = 0;
-  private maxConcurrent = 3; // 最大并发数
 
-  async add<T>(task: () => Promise<T>): Promise<T> {
+  constructor(private maxConcurrent = 3) {} // 最大并发数
+
+  async add<T>(task: () => Promise<T>, key?: string): Promise<T> {
     return new Promise((resolve, reject) => {
-      this.queue.push(async () => {
-        try {
-          const result = await task();
-          resolve(result);
-        } catch (error) {
-          reject(error);
-        }
+      this.queue.push({
+        key,
+        run: async () => {
+          try {
+            const result = await task();
+            resolve(result);
+          } catch (error) {
+            reject(error);
+          }
+        },
+        cancel: () => reject(new Error('任务已取消'))
       });
       this.process();
     });
   }
 
+  /**
+   * 从队列中移除尚未开始的任务
+   */
+  remove(key: string): boolean {
+    const index = this.queue.findIndex(job => job.key === key);
+    if (index === -1) {
+      return false;
+    }
+
+    const [job] = this.queue.splice(index, 1);
+    job.cancel();
+    return true;
+  }
+
   private async process() {
     if (this.processing >= this.maxConcurrent || this.queue.length === 0) {
       return;
     }
 
     this.processing++;
-    const task = this.queue.shift();
-    if (task) {
+    const job = this.queue.shift();
+    if (job) {
       try {
-        await task();
+        await job.run();
       } catch (error) {
         console.error('队列任务执行失败:', error);
       } finally {
@@ -123,6 +170,21 @@ class ProcessingQueue {
 
 const processingQueue = new ProcessingQueue();
 
+/**
+ * 大PDF分片识别队列，与文件队列分开，避免文件任务占满并发后等待自己的分片
+ */
+const chunkQueue = new ProcessingQueue(config.ocr.pdfChunkConcurrency);
+
+/**
+ * 正在处理的文件对应的中止控制器（fileId -> AbortController）
+ */
+const activeControllers = new Map<string, AbortController>();
+
+/**
+ * 已请求取消的批量任务
+ */
+const cancelledBatches = new Set<string>();
+
 /**
  * Mathpix 扫描服务
  */
@@ -130,29 +192,31 @@ export class MathpixService {
   /**
    * 创建扫描任务
    */
-  static async createScanTask(fileBuffer: Buffer, userId: string, fileName?: string, fileType?: string): Promise<string> {
+  static async createScanTask(fileBuffer: Buffer, owner: TaskOwner, fileName?: string, fileType?: string, options: ScanOptions = {}): Promise<string> {
     const scanId = uuidv4();
+    const contentHash = ResultCache.hash(fileBuffer, options.pageRanges);
     
     // 创建任务记录
-    const task: ScanTask = {
+    await TaskStore.createScanTask({
       scanId,
+      userId: owner.userId,
+      enterprise: owner.enterprise,
+      fileName,
+      fileType,
       status: 'pending',
       progress: 0,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
-    
-    scanTasks.set(scanId, task);
+      contentHash,
+      pageRanges: options.pageRanges,
+      convertOptions: options.convertOptions
+    });
     
     // 异步处理扫描
-    this.processScanTask(scanId, fileBuffer, userId, fileType).catch(error => {
+    this.processScanTask(scanId, owner, fileBuffer, contentHash, fileType, options).catch(async error => {
       console.error(`❌ 扫描任务失败: ${scanId}`, error);
-      const task = scanTasks.get(scanId);
-      if (task) {
-        task.status = 'failed';
-        task.error = error.message;
-        task.updatedAt = new Date();
-      }
+      await TaskStore.updateScanTask(scanId, {
+        status: 'failed',
+        error: error.message
+      }).catch(updateError => console.error(`❌ 更新扫描任务状态失败: ${scanId}`, updateError));
     });
     
     return scanId;
@@ -161,63 +225,163 @@ export class MathpixService {
   /**
    * 处理扫描任务
    */
-  private static async processScanTask(scanId: string, fileBuffer: Buffer, userId: string, fileType?: string): Promise<void> {
-    const task = scanTasks.get(scanId);
-    if (!task) {
-      throw new Error('扫描任务不存在');
-    }
-
+  private static async processScanTask(scanId: string, owner: TaskOwner, fileBuffer: Buffer, contentHash: string, fileType?: string, options: ScanOptions = {}): Promise<void> {
     try {
       console.log(`🔄 开始处理扫描任务: ${scanId}`);
 
       // 更新状态为处理中
-      task.status = 'processing';
-      task.progress = 10;
-      task.updatedAt = new Date();
+      await TaskStore.updateScanTask(scanId, { status: 'processing', progress: 10 });
 
       // 上传文件到Mathpix并获取Markdown
       console.log('📤 上传文件到Mathpix...');
-      const markdown = await this.uploadFileToMathpix(fileBuffer, fileType);
+      const progressWriter = this.createProgressWriter(`扫描任务 ${scanId}`);
+      const { markdown, cached, lines } = await this.uploadFileToMathpix(fileBuffer, fileType, {
+        usage: { ...owner, taskType: 'scan', taskId: scanId },
+        quota: owner,
+        contentHash,
+        force: options.force,
+        pageRanges: options.pageRanges,
+        onProgress: (ocrProgress) => {
+          progressWriter.write(() => TaskStore.updateScanTask(scanId, {
+            progress: 10 + Math.round(ocrProgress.percentDone * 0.7),
+            estimatedTimeRemaining: ocrProgress.estimatedTimeRemaining
+          }));
+        }
+      });
+      await progressWriter.flush();
       
-      task.progress = 80;
-      task.updatedAt = new Date();
+      await TaskStore.updateScanTask(scanId, { progress: 80, estimatedTimeRemaining: undefined, cached });
 
       console.log('📝 Mathpix返回的Markdown长度:', markdown.length);
 
+      // 下载插图到任务目录，原始结果中保存本地链接
+      const localizedMarkdown = await FigureLocalizer.localize(markdown, { scanId });
+
       // 转换格式
       console.log('🔄 转换LaTeX格式...');
-      const convertedMarkdown = FormatConverter.convertToLatexFormat(markdown);
+      const { result, metadata, answerKey } = FormatConverter.convert(localizedMarkdown, options.convertOptions);
       
       // 更新任务完成
-      task.status = 'completed';
-      task.progress = 100;
-      task.result = convertedMarkdown;
-      task.updatedAt = new Date();
+      await TaskStore.updateScanTask(scanId, {
+        status: 'completed',
+        progress: 100,
+        result,
+        rawResult: localizedMarkdown,
+        questionMetadata: metadata,
+        answerKey,
+        lines,
+        questions: lines ? QuestionLocator.locate(lines) : undefined
+      });
 
       console.log(`✅ 扫描任务完成: ${scanId}`);
 
     } catch (error: any) {
       console.error(`❌ 扫描任务处理失败: ${scanId}`, error);
       
-      task.status = 'failed';
-      task.error = error.message || '扫描失败';
-      task.updatedAt = new Date();
+      await TaskStore.updateScanTask(scanId, {
+        status: 'failed',
+        error: error.message || '扫描失败',
+        estimatedTimeRemaining: undefined
+      });
     }
   }
 
+  /**
+   * 创建进度写入器：进度回调是同步触发的，这里将数据库写入串行化，
+   * 避免较早的进度覆盖后续的状态更新
+   */
+  private static createProgressWriter(label: string) {
+    let pending: Promise<void> = Promise.resolve();
+
+    return {
+      write(update: () => Promise<void>) {
+        pending = pending
+          .then(update)
+          .catch(error => console.warn(`⚠️ 写入进度失败: ${label}`, error.message));
+      },
+      flush(): Promise<void> {
+        return pending;
+      }
+    };
+  }
+
   /**
    * 上传文件到Mathpix并获取Markdown
+   *
+   * 提供内容哈希时先查询结果缓存，命中则不再调用Mathpix；识别成功后写入缓存
    */
-  private static async uploadFileToMathpix(fileBuffer: Buffer, fileType?: string): Promise<string> {
+  private static async uploadFileToMathpix(fileBuffer: Buffer, fileType: string | undefined, options: UploadOptions = {}): Promise<UploadResult> {
+    const { usage, quota, contentHash, force, pageRanges, onProgress, signal } = options;
+    const startTime = Date.now();
+    const isImage = !!fileType?.startsWith('image/');
+
+    // 记录用量，写入失败不影响识别结果
+    const recordUsage = async (pages: number, success: boolean, cached: boolean, error?: string) => {
+      if (!usage) return;
+      await UsageService.record(usage, {
+        fileType,
+        pages,
+        durationMs: Date.now() - startTime,
+        success,
+        cached,
+        error
+      }).catch(recordError => console.warn('⚠️ 记录Mathpix用量失败:', recordError.message));
+    };
+
+    if (contentHash && !force) {
+      const cachedResult = await ResultCache.get(contentHash)
+        .catch(error => {
+          console.warn('⚠️ 查询识别结果缓存失败:', error.message);
+          return null;
+        });
+      // 缓存中只保存 Mathpix 原始输出，插图链接失效后需要重新识别才能下载插图
+      if (cachedResult !== null && await FigureLocalizer.hasExpiredFigures(cachedResult.markdown)) {
+        console.log(`⚠️ 缓存结果中的插图链接已失效，重新识别: ${contentHash.substring(0, 12)}`);
+      } else if (cachedResult !== null) {
+        console.log(`♻️ 命中识别结果缓存: ${contentHash.substring(0, 12)}`);
+        await recordUsage(0, true, true);
+        return { ...cachedResult, cached: true };
+      }
+    }
+
+    // PDF 页数从转换进度中获取，图片按 1 页计；PDF 提交成功后识别服务开始计费
+    let pages = isImage ? 1 : 0;
+    let submitted = false;
+    const trackPages: OcrProgressCallback = (ocrProgress) => {
+      submitted = true;
+      if (ocrProgress.numPages) {
+        pages = ocrProgress.numPages;
+      }
+      onProgress?.(ocrProgress);
+    };
+
     try {
       // 根据文件类型选择不同的API端点
-      if (fileType?.startsWith('image/')) {
-        return await this.uploadImageToMathpix(fileBuffer, fileType);
-      } else {
-        return await this.uploadPDFToMathpix(fileBuffer);
+      const result = isImage
+        ? await this.uploadImageToMathpix(fileBuffer, fileType!, signal)
+        : await this.uploadPDFToMathpix(fileBuffer, trackPages, signal, pageRanges);
+
+      // 识别服务没有返回页数时（如本地文件识别），按页码范围或PDF页数计
+      if (!pages) {
+        pages = await QuotaService.estimatePages([{ buffer: fileBuffer, mimetype: 'application/pdf', pageRanges }], true);
+      }
+      await recordUsage(pages, true, false);
+
+      if (contentHash) {
+        await ResultCache.set(contentHash, fileType, result)
+          .catch(error => console.warn('⚠️ 写入识别结果缓存失败:', error.message));
       }
 
+      return { ...result, cached: false };
+
     } catch (error: any) {
+      await recordUsage(pages, false, false, signal?.aborted ? '任务已取消' : error.message);
+      if (quota && !submitted) {
+        await this.refundPages(quota, fileBuffer, fileType, pageRanges, force);
+      }
+      if (signal?.aborted) {
+        throw new Error('任务已取消');
+      }
       console.error('❌ Mathpix API调用失败:');
       console.error('错误消息:', error.message);
       console.error('响应状态:', error.response?.status);
@@ -233,287 +397,297 @@ export class MathpixService {
   }
 
   /**
-   * 上传PDF到Mathpix
+   * 识别服务受理前失败（未计费）时，退还上传时按同样方式估算并占用的页数
    */
-  private static async uploadPDFToMathpix(fileBuffer: Buffer): Promise<string> {
-    const { apiKey, appId } = getMathpixConfig();
+  private static async refundPages(owner: TaskOwner, fileBuffer: Buffer, fileType: string | undefined, pageRanges?: string, force?: boolean): Promise<void> {
+    try {
+      const pages = await QuotaService.estimatePages([{ buffer: fileBuffer, mimetype: fileType || 'application/pdf', pageRanges }], force);
+      await QuotaService.release(owner, { files: 0, pages });
+      console.log(`↩️ 识别服务未受理，退还 ${pages} 页配额`);
+    } catch (error: any) {
+      console.warn('⚠️ 退还配额失败:', error.message);
+    }
+  }
 
-    // 创建FormData
-    const formData = new FormData();
-    
-    formData.append('file', fileBuffer, {
-      filename: 'document.pdf',
-      contentType: 'application/pdf'
+  /**
+   * 上传PDF到Mathpix，指定页码范围时只识别这些页；超过识别服务大小或页数上限的PDF拆分后识别
+   */
+  private static async uploadPDFToMathpix(fileBuffer: Buffer, onProgress?: OcrProgressCallback, signal?: AbortSignal, pageRanges?: string): Promise<CachedResult> {
+    const chunks = await splitPdf(fileBuffer, pageRanges, {
+      maxSize: config.ocr.pdfMaxSize,
+      maxPages: config.ocr.pdfMaxPages
     });
 
-    // 配置选项
-    const options = {
-      formats: ['mmd', 'text'],
-      data_options: {
-        include_asciimath: true,
-        include_latex: true,
-        include_mathml: true
-      },
-      math_inline_delimiters: ['$', '$'],
-      math_display_delimiters: ['$$', '$$'],
-      rm_spaces: true,
-      conversion_timeout: 120
+    return chunks
+      ? this.recognizePdfChunks(chunks, onProgress, signal)
+      : this.recognizePdf(fileBuffer, onProgress, signal, pageRanges);
+  }
+
+  /**
+   * 并行识别PDF分片，按原页序拼接MMD，行位置信息换算回原文件页码；任一分片失败时中止其余分片
+   */
+  private static async recognizePdfChunks(chunks: PdfChunk[], onProgress?: OcrProgressCallback, signal?: AbortSignal): Promise<CachedResult> {
+    console.log(`✂️ PDF拆分为 ${chunks.length} 个分片识别: ${chunks.map(chunk => `${chunk.pages[0]}-${chunk.pages[chunk.pages.length - 1]}`).join(', ')}`);
+
+    // 汇总各分片进度，按页数加权
+    const progresses: Array<OcrProgress | undefined> = chunks.map(() => undefined);
+    const reportProgress = (index: number, progress: OcrProgress) => {
+      progresses[index] = progress;
+      let numPages = 0;
+      let numPagesCompleted = 0;
+      let weightedPercent = 0;
+      chunks.forEach((chunk, i) => {
+        const pages = progresses[i]?.numPages || chunk.pages.length;
+        numPages += pages;
+        numPagesCompleted += progresses[i]?.numPagesCompleted || 0;
+        weightedPercent += (progresses[i]?.percentDone || 0) * pages;
+      });
+      const remaining = progresses.map(p => p?.estimatedTimeRemaining).filter((t): t is number => t !== undefined);
+      onProgress?.({
+        percentDone: weightedPercent / numPages,
+        numPages,
+        numPagesCompleted,
+        estimatedTimeRemaining: remaining.length > 0 ? Math.max(...remaining) : undefined
+      });
     };
 
-    formData.append('options_json', JSON.stringify(options));
-    
-    console.log('🔧 PDF转换选项:', JSON.stringify(options, null, 2));
-    console.log('🌐 调用Mathpix PDF API...');
-
-    // 调用Mathpix PDF API
-    const response = await axios.post('https://api.mathpix.com/v3/pdf', formData, {
-      headers: {
-        ...formData.getHeaders(),
-        'app_id': appId,
-        'app_key': apiKey
-      },
-      maxContentLength: Infinity,
-      maxBodyLength: Infinity,
-      timeout: 300000 // 5分钟超时
-    });
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
 
-    console.log('📥 Mathpix PDF API响应:', JSON.stringify(response.data, null, 2));
+    try {
+      const results = await Promise.all(chunks.map((chunk, index) => chunkQueue.add(async () => {
+        controller.signal.throwIfAborted();
+        try {
+          return await this.recognizePdf(chunk.buffer, progress => reportProgress(index, progress), controller.signal);
+        } catch (error: any) {
+          if (!controller.signal.aborted) {
+            console.error(`❌ PDF分片 ${index + 1}/${chunks.length} 识别失败:`, error.message);
+          }
+          throw error;
+        }
+      })));
 
-    if (!response.data) {
-      throw new Error('Mathpix PDF API未返回数据');
+      return {
+        markdown: results.map(result => result.markdown.trim()).join('\n\n'),
+        lines: results.every(result => result.lines)
+          ? results.flatMap((result, index) => result.lines!.map(page => ({
+            ...page,
+            page: chunks[index].pages[page.page - 1] ?? page.page
+          })))
+          : undefined
+      };
+    } catch (error) {
+      controller.abort();
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', abort);
     }
+  }
 
-    // 检查是否有错误
-    if (response.data.error) {
-      throw new Error(`Mathpix PDF API错误: ${response.data.error}`);
-    }
+  /**
+   * 提交PDF并轮询识别结果
+   */
+  private static async recognizePdf(fileBuffer: Buffer, onProgress?: OcrProgressCallback, signal?: AbortSignal, pageRanges?: string): Promise<CachedResult> {
+    const provider = getOcrProvider();
 
-    // 获取PDF ID
-    const pdfId = response.data.pdf_id || response.data.id;
-    
-    if (!pdfId) {
-      console.error('❌ 响应数据:', response.data);
-      throw new Error('Mathpix PDF API未返回pdf_id');
-    }
+    const pdfId = await provider.submitPdf(fileBuffer, { signal, pageRanges });
+    onProgress?.({ percentDone: 0 });
 
-    console.log(`📋 PDF ID: ${pdfId}`);
+    console.log(`📋 PDF ID: ${pdfId}${pageRanges ? `, 页码范围: ${pageRanges}` : ''}`);
 
     // 轮询获取处理结果
-    const markdown = await this.pollMathpixResult(pdfId);
-    return markdown;
+    const markdown = await this.pollMathpixResult(pdfId, onProgress, signal);
+
+    // 行位置信息仅用于定位题目，获取失败不影响识别结果
+    const lines = await provider.fetchLines(pdfId, { signal });
+    return { markdown, lines: lines ?? undefined };
   }
 
   /**
    * 上传图片到Mathpix
    */
-  private static async uploadImageToMathpix(fileBuffer: Buffer, fileType: string): Promise<string> {
-    const { apiKey, appId } = getMathpixConfig();
-
-    // 创建FormData
-    const formData = new FormData();
-    
-    const extension = fileType.split('/')[1];
-    const filename = `image.${extension}`;
-    
-    formData.append('file', fileBuffer, {
-      filename,
-      contentType: fileType
-    });
-
-    // 配置选项
-    const options = {
-      formats: ['mmd', 'text'],
-      data_options: {
-        include_asciimath: true,
-        include_latex: true,
-        include_mathml: true
-      },
-      math_inline_delimiters: ['$', '$'],
-      math_display_delimiters: ['$$', '$$'],
-      rm_spaces: true
-    };
+  private static async uploadImageToMathpix(fileBuffer: Buffer, fileType: string, signal?: AbortSignal): Promise<CachedResult> {
+    const provider = getOcrProvider();
 
-    formData.append('options_json', JSON.stringify(options));
-    
-    console.log('🔧 图片转换选项:', JSON.stringify(options, null, 2));
-    console.log('🌐 调用Mathpix OCR API...');
-
-    // 调用Mathpix OCR API (用于图片)
-    const response = await axios.post('https://api.mathpix.com/v3/text', formData, {
-      headers: {
-        ...formData.getHeaders(),
-        'app_id': appId,
-        'app_key': apiKey
-      },
-      timeout: 30000
-    });
+    const result = await provider.recognizeImage(fileBuffer, fileType, { signal });
 
-    console.log('📥 Mathpix OCR API响应:', JSON.stringify(response.data, null, 2));
-
-    if (!response.data) {
-      throw new Error('Mathpix OCR API未返回数据');
-    }
-
-    // 检查是否有错误
-    if (response.data.error) {
-      throw new Error(`Mathpix OCR API错误: ${response.data.error}`);
-    }
-
-    // 返回识别的文本
-    return response.data.text || response.data.mmd || '';
+    // 返回识别的文本、行位置信息及公式的各种表示
+    return { markdown: result.text, lines: result.pages, math: result.math };
   }
 
   /**
    * 轮询Mathpix处理结果
+   *
+   * 轮询间隔按指数退避增长，总时限由 conversion_timeout 决定；
+   * 网络错误会重试，连续失败过多或超过总时限则放弃。
    */
-  private static async pollMathpixResult(pdfId: string): Promise<string> {
-    const { apiKey, appId } = getMathpixConfig();
-    const maxAttempts = 1; // 只尝试1次
-    const interval = 20000; // 等待20秒
+  private static async pollMathpixResult(pdfId: string, onProgress?: OcrProgressCallback, signal?: AbortSignal): Promise<string> {
+    const provider = getOcrProvider();
+    const startTime = Date.now();
+    const deadline = startTime + (config.ocr.pdfConversionTimeout + POLL_DEADLINE_GRACE_SECONDS) * 1000;
+
+    let interval = POLL_INITIAL_INTERVAL;
+    let attempt = 0;
+    let consecutiveErrors = 0;
 
     console.log('⏳ 等待PDF处理完成...');
 
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      try {
-        console.log(`🔄 轮询状态 - 尝试 ${attempt + 1}/${maxAttempts}...`);
-
-        const response = await axios.get(`https://api.mathpix.com/v3/pdf/${pdfId}`, {
-          headers: {
-            'app_id': appId,
-            'app_key': apiKey
-          },
-          timeout: 10000
-        });
+    while (Date.now() < deadline) {
+      attempt++;
+      let pdfStatus: PdfStatus;
 
-        const status = response.data.status;
-        console.log(`📊 当前状态: ${status}`);
-
-        if (status === 'completed') {
-          console.log(`✅ PDF处理完成！尝试次数: ${attempt + 1}`);
-          
-          // 等待一段时间让结果准备好
-          await new Promise(resolve => setTimeout(resolve, 2000));
-          
-          // 获取MMD内容
-          const mmdContent = await this.getPDFMMDContent(pdfId, apiKey, appId);
-          
-          if (mmdContent) {
-            console.log('✅ 成功获取MMD内容，长度:', mmdContent.length);
-            return mmdContent;
-          } else {
-            throw new Error('无法获取PDF的MMD内容');
-          }
-        } else if (status === 'error' || status === 'failed') {
-          const errorMsg = response.data.error || response.data.error_info?.message || 'Mathpix处理失败';
-          console.error('❌ Mathpix处理错误:', errorMsg);
-          throw new Error(errorMsg);
+      try {
+        pdfStatus = await provider.pollPdf(pdfId, { signal });
+        consecutiveErrors = 0;
+      } catch (error: any) {
+        signal?.throwIfAborted();
+        consecutiveErrors++;
+        if (consecutiveErrors >= POLL_MAX_CONSECUTIVE_ERRORS) {
+          console.error(`❌ 轮询PDF状态连续失败 ${consecutiveErrors} 次，放弃`);
+          throw error;
         }
+        console.warn(`⚠️ 轮询PDF状态失败 (尝试 ${attempt}):`, error.message);
+        await this.sleepUntil(interval, deadline, signal);
+        interval = Math.min(interval * POLL_BACKOFF_FACTOR, POLL_MAX_INTERVAL);
+        continue;
+      }
 
-        console.log(`⏳ PDF处理中... 状态: ${status}`);
+      console.log(`📊 当前状态: ${pdfStatus.rawStatus || pdfStatus.status} (尝试 ${attempt})`);
 
-        // 等待后继续
-        await new Promise(resolve => setTimeout(resolve, interval));
+      if (pdfStatus.status === 'error') {
+        const errorMsg = pdfStatus.error || 'Mathpix处理失败';
+        console.error('❌ Mathpix处理错误:', errorMsg);
+        throw new Error(errorMsg);
+      }
 
-      } catch (error: any) {
-        if (attempt === maxAttempts - 1) {
-          console.error('❌ 达到最大重试次数，PDF处理超时');
-          throw error;
+      if (pdfStatus.status === 'completed') {
+        console.log(`✅ PDF处理完成！尝试次数: ${attempt}`);
+        onProgress?.({
+          percentDone: 100,
+          numPages: pdfStatus.numPages,
+          numPagesCompleted: pdfStatus.numPagesCompleted,
+          estimatedTimeRemaining: 0
+        });
+
+        // 获取MMD内容
+        const mmdContent = await provider.fetchResult(pdfId, { signal });
+
+        if (mmdContent) {
+          console.log('✅ 成功获取MMD内容，长度:', mmdContent.length);
+          return mmdContent;
         }
-        console.warn(`⚠️ 轮询PDF状态失败 (尝试 ${attempt + 1}):`, error.message);
-        await new Promise(resolve => setTimeout(resolve, interval));
+        throw new Error('无法获取PDF的MMD内容');
+      }
+
+      const percentDone = this.getPercentDone(pdfStatus);
+      if (percentDone !== undefined) {
+        const elapsedSeconds = (Date.now() - startTime) / 1000;
+        onProgress?.({
+          percentDone,
+          numPages: pdfStatus.numPages,
+          numPagesCompleted: pdfStatus.numPagesCompleted,
+          estimatedTimeRemaining: percentDone > 0
+            ? Math.round(elapsedSeconds * (100 - percentDone) / percentDone)
+            : undefined
+        });
       }
+
+      console.log(`⏳ PDF处理中... 进度: ${percentDone ?? '未知'}%, 下次轮询间隔: ${interval}ms`);
+
+      await this.sleepUntil(interval, deadline, signal);
+      interval = Math.min(interval * POLL_BACKOFF_FACTOR, POLL_MAX_INTERVAL);
     }
 
-    throw new Error('Mathpix处理超时');
+    console.error(`❌ PDF处理超时: ${pdfId}`);
+    throw new Error(`Mathpix处理超时（超过${config.ocr.pdfConversionTimeout}秒）`);
   }
 
   /**
-   * 获取PDF的MMD内容
+   * 计算PDF处理百分比
    */
-  private static async getPDFMMDContent(pdfId: string, apiKey: string, appId: string): Promise<string | null> {
-    try {
-      console.log('🔍 获取PDF的MMD内容...');
-      
-      // 尝试获取.mmd格式的结果
-      try {
-        console.log('📄 尝试获取.mmd格式结果...');
-        const mmdResponse = await axios.get(`https://api.mathpix.com/v3/pdf/${pdfId}.mmd`, {
-          headers: {
-            'app_id': appId,
-            'app_key': apiKey
-          },
-          timeout: 10000
-        });
-        
-        console.log('✅ MMD结果获取成功');
-        console.log('📊 响应类型:', typeof mmdResponse.data);
-        console.log('📊 响应长度:', mmdResponse.data?.length || 0);
-        
-        if (typeof mmdResponse.data === 'string' && mmdResponse.data.length > 0) {
-          console.log('📄 MMD内容预览:', mmdResponse.data.substring(0, 500) + '...');
-          return mmdResponse.data;
-        } else if (mmdResponse.data && mmdResponse.data.mmd) {
-          console.log('📄 从响应对象中提取MMD内容...');
-          return mmdResponse.data.mmd;
-        }
-      } catch (mmdError: any) {
-        console.warn('⚠️ 获取MMD结果失败:', mmdError.message);
-      }
-      
-      // 尝试获取.txt格式的结果
-      try {
-        console.log('📄 尝试获取.txt格式结果...');
-        const txtResponse = await axios.get(`https://api.mathpix.com/v3/pdf/${pdfId}.txt`, {
-          headers: {
-            'app_id': appId,
-            'app_key': apiKey
-          },
-          timeout: 10000
-        });
-        
-        console.log('✅ 文本结果获取成功');
-        console.log('📊 响应类型:', typeof txtResponse.data);
-        console.log('📊 响应长度:', txtResponse.data?.length || 0);
-        
-        if (typeof txtResponse.data === 'string' && txtResponse.data.length > 0) {
-          console.log('📄 文本内容预览:', txtResponse.data.substring(0, 500) + '...');
-          return txtResponse.data;
-        } else if (txtResponse.data && txtResponse.data.text) {
-          console.log('📄 从响应对象中提取文本内容...');
-          return txtResponse.data.text;
-        }
-      } catch (txtError: any) {
-        console.warn('⚠️ 获取文本结果失败:', txtError.message);
+  private static getPercentDone(pdfStatus: PdfStatus): number | undefined {
+    if (typeof pdfStatus.percentDone === 'number') {
+      return Math.max(0, Math.min(100, pdfStatus.percentDone));
+    }
+    if (pdfStatus.numPages && typeof pdfStatus.numPagesCompleted === 'number') {
+      return Math.round(pdfStatus.numPagesCompleted / pdfStatus.numPages * 100);
+    }
+    return undefined;
+  }
+
+  /**
+   * 等待指定时间，但不超过截止时间；任务取消时立即结束
+   */
+  private static sleepUntil(ms: number, deadline: number, signal?: AbortSignal): Promise<void> {
+    const wait = Math.max(0, Math.min(ms, deadline - Date.now()));
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('任务已取消'));
+        return;
       }
-      
-      console.log('❌ 无法获取任何格式的MMD内容');
-      return null;
-      
-    } catch (error: any) {
-      console.error('❌ 获取PDF MMD内容失败:', error);
-      return null;
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new Error('任务已取消'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, wait);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * 识别单个公式图片，同步返回 LaTeX、AsciiMath、MathML 等表示
+   */
+  static async recognizeFormula(fileBuffer: Buffer, fileType: string, owner: TaskOwner, options: ScanOptions = {}): Promise<FormulaResult> {
+    const taskId = uuidv4();
+    const contentHash = ResultCache.hash(fileBuffer);
+    const usage: UsageContext = { ...owner, taskType: 'formula', taskId };
+
+    let result = await this.uploadFileToMathpix(fileBuffer, fileType, { usage, quota: owner, contentHash, force: options.force });
+    // 早期缓存的结果没有公式表示，需要重新识别（命中缓存时未占用页数配额）
+    if (result.cached && !result.math) {
+      result = await this.uploadFileToMathpix(fileBuffer, fileType, { usage, contentHash, force: true });
     }
+
+    const { math = {}, markdown } = result;
+    // 没有识别到公式结构时，去掉定界符后的文本作为 LaTeX
+    const match = markdown.match(MATH_DELIMITER_PATTERN);
+    const latex = math.latex || (match ? match.slice(1).find(group => group !== undefined)! : markdown).trim();
+
+    console.log(`🧮 公式识别完成: ${taskId}${result.cached ? '（缓存）' : ''}`);
+
+    return {
+      latex,
+      latexStyled: math.latexStyled,
+      asciimath: math.asciimath,
+      mathml: math.mathml,
+      text: markdown,
+      cached: result.cached
+    };
   }
 
   /**
    * 获取扫描任务状态
    */
-  static getScanTask(scanId: string): ScanTask | undefined {
-    return scanTasks.get(scanId);
+  static async getScanTask(scanId: string): Promise<ScanTask | null> {
+    return TaskStore.getScanTask(scanId);
   }
 
   /**
    * 获取扫描结果
    */
-  static getScanResult(scanId: string): string | null {
-    const task = scanTasks.get(scanId);
+  static async getScanResult(scanId: string): Promise<string | null> {
+    const task = await TaskStore.getScanTask(scanId);
     return task?.result || null;
   }
 
   /**
    * 创建批量扫描任务
    */
-  static async createBatchTask(files: Array<{buffer: Buffer, originalname: string, mimetype: string, size: number}>, userId: string): Promise<string> {
+  static async createBatchTask(files: BatchUploadFile[], owner: TaskOwner, options: ScanOptions = {}): Promise<string> {
     const batchId = uuidv4();
     const now = new Date();
 
@@ -530,35 +704,32 @@ export class MathpixService {
         status: 'pending',
         progress: 0,
         originalFilePath,
+        contentHash: ResultCache.hash(file.buffer, file.pageRanges),
+        pageRanges: file.pageRanges,
+        convertOptions: options.convertOptions,
         createdAt: now,
         updatedAt: now
       };
     });
 
     // 创建批量任务
-    const batchTask: BatchTask = {
+    await TaskStore.createBatchTask({
       batchId,
-      userId,
+      userId: owner.userId,
+      enterprise: owner.enterprise,
       files: fileTasks,
       overallProgress: 0,
       status: 'pending',
       totalFiles: files.length,
       completedFiles: 0,
-      failedFiles: 0,
-      createdAt: now,
-      updatedAt: now
-    };
-
-    batchTasks.set(batchId, batchTask);
+      failedFiles: 0
+    });
 
     // 异步处理批量任务
-    this.processBatchTask(batchId, files).catch(error => {
+    this.processBatchTask(batchId, owner, fileTasks, files, options.force).catch(async error => {
       console.error(`❌ 批量任务失败: ${batchId}`, error);
-      const task = batchTasks.get(batchId);
-      if (task) {
-        task.status = 'failed';
-        task.updatedAt = new Date();
-      }
+      await TaskStore.updateBatchTask(batchId, { status: 'failed' })
+        .catch(updateError => console.error(`❌ 更新批量任务状态失败: ${batchId}`, updateError));
       // 清理文件
       cleanupBatchFiles(batchId);
     });
@@ -569,126 +740,324 @@ export class MathpixService {
   /**
    * 处理批量任务
    */
-  private static async processBatchTask(batchId: string, files: Array<{buffer: Buffer, originalname: string, mimetype: string, size: number}>): Promise<void> {
-    const batchTask = batchTasks.get(batchId);
-    if (!batchTask) {
-      throw new Error('批量任务不存在');
-    }
-
+  private static async processBatchTask(batchId: string, owner: TaskOwner, fileTasks: FileTask[], files: BatchUploadFile[], force = false): Promise<void> {
     try {
       console.log(`🔄 开始处理批量任务: ${batchId}, 文件数量: ${files.length}`);
       
-      batchTask.status = 'processing';
-      batchTask.updatedAt = new Date();
+      await TaskStore.updateBatchTask(batchId, { status: 'processing' });
+      await this.publishBatch(batchId);
 
       // 为每个文件创建处理任务
       const filePromises = files.map((file, index) => {
-        const fileTask = batchTask.files[index];
+        const fileTask = fileTasks[index];
         return processingQueue.add(async () => {
-          await this.processFileInBatch(batchId, fileTask.fileId, file.buffer, file.mimetype);
-        });
+          await this.processFileInBatch(batchId, owner, fileTask, file.buffer, force);
+        }, fileTask.fileId);
       });
 
       // 等待所有文件处理完成
       await Promise.allSettled(filePromises);
 
-      // 更新批量任务状态
-      const completedFiles = batchTask.files.filter(f => f.status === 'completed').length;
-      const failedFiles = batchTask.files.filter(f => f.status === 'failed').length;
-      
-      batchTask.completedFiles = completedFiles;
-      batchTask.failedFiles = failedFiles;
-      batchTask.overallProgress = 100;
-      batchTask.status = completedFiles > 0 ? 'completed' : 'failed';
-      batchTask.updatedAt = new Date();
-
-      console.log(`✅ 批量任务完成: ${batchId}, 成功: ${completedFiles}, 失败: ${failedFiles}`);
+      await this.finalizeBatch(batchId);
 
     } catch (error: any) {
       console.error(`❌ 批量任务处理失败: ${batchId}`, error);
-      batchTask.status = 'failed';
-      batchTask.updatedAt = new Date();
+      await TaskStore.updateBatchTask(batchId, { status: 'failed' });
+      await this.publishBatch(batchId);
     }
   }
 
+  /**
+   * 从原文件中截取每道题并保存到批次目录，截图失败不影响识别结果
+   */
+  private static async cropQuestions(batchId: string, fileTask: FileTask, fileBuffer: Buffer, questions: QuestionLocation[]): Promise<QuestionLocation[]> {
+    try {
+      const crops = await QuestionCropper.crop(fileBuffer, fileTask.fileType, questions);
+      saveQuestionCrops(batchId, fileTask.fileId, crops);
+
+      const cropNames = new Map(crops.map(crop => [crop.index, crop.name]));
+      return questions.map((question, index) => ({ ...question, crop: cropNames.get(index) }));
+    } catch (error: any) {
+      console.warn(`⚠️ 截取题目失败: ${fileTask.fileName}`, error.message);
+      return questions;
+    }
+  }
+
+  /**
+   * 所有文件处理结束后更新批量任务的最终状态
+   *
+   * 仍有文件在处理（例如正在重试）时不做修改，由最后结束的文件负责收尾
+   */
+  private static async finalizeBatch(batchId: string): Promise<void> {
+    const files = await TaskStore.getFileTasks(batchId);
+    if (files.some(file => !TERMINAL_FILE_STATUSES.includes(file.status))) {
+      return;
+    }
+
+    const counts = await this.updateBatchProgress(batchId);
+
+    await TaskStore.updateBatchTask(batchId, {
+      overallProgress: 100,
+      status: this.resolveBatchStatus(batchId, counts),
+      estimatedTimeRemaining: undefined
+    });
+    cancelledBatches.delete(batchId);
+    await this.publishBatch(batchId);
+
+    console.log(`✅ 批量任务完成: ${batchId}, 成功: ${counts.completedFiles}, 失败: ${counts.failedFiles}, 取消: ${counts.cancelledFiles}`);
+  }
+
+  /**
+   * 重试批量任务中处理失败的文件，从磁盘读取已保存的原始文件重新排队
+   *
+   * 原始文件已被清理时返回 false
+   */
+  static async retryFile(batchId: string, fileId: string): Promise<boolean> {
+    const batchTask = await TaskStore.getBatchTask(batchId);
+    const fileTask = batchTask?.files.find(file => file.fileId === fileId);
+    if (!batchTask || !fileTask || fileTask.status !== 'failed') {
+      return false;
+    }
+
+    const buffer = readOriginalFile(batchId, fileId);
+    if (!buffer) {
+      return false;
+    }
+
+    console.log(`🔁 重试文件: ${fileTask.fileName}`);
+
+    cancelledBatches.delete(batchId);
+    await TaskStore.updateFileTask(batchId, fileId, {
+      status: 'pending',
+      progress: 0,
+      error: undefined,
+      result: undefined,
+      rawResult: undefined,
+      questionMetadata: undefined,
+      answerKey: undefined,
+      lines: undefined,
+      questions: undefined,
+      cached: undefined,
+      estimatedTimeRemaining: undefined
+    });
+    await TaskStore.updateBatchTask(batchId, { status: 'processing' });
+    await this.updateBatchProgress(batchId);
+
+    processingQueue.add(async () => {
+      const owner = { userId: batchTask.userId, enterprise: batchTask.enterprise };
+      await this.processFileInBatch(batchId, owner, fileTask, buffer);
+    }, fileId)
+      .catch(() => undefined)
+      .then(() => this.finalizeBatch(batchId))
+      .catch(error => console.error(`❌ 更新批量任务状态失败: ${batchId}`, error));
+
+    return true;
+  }
+
   /**
    * 处理批量任务中的单个文件
    */
-  private static async processFileInBatch(batchId: string, fileId: string, fileBuffer: Buffer, fileType: string): Promise<void> {
-    const batchTask = batchTasks.get(batchId);
-    if (!batchTask) return;
+  private static async processFileInBatch(batchId: string, owner: TaskOwner, fileTask: FileTask, fileBuffer: Buffer, force = false): Promise<void> {
+    const { fileId, fileName, fileType } = fileTask;
+    const updateFile = async (patch: Partial<FileTask>) => {
+      await TaskStore.updateFileTask(batchId, fileId, patch);
+      await this.updateBatchProgress(batchId);
+    };
 
-    const fileTask = batchTask.files.find(f => f.fileId === fileId);
-    if (!fileTask) return;
+    const controller = new AbortController();
+    activeControllers.set(fileId, controller);
 
     try {
-      console.log(`🔄 开始处理文件: ${fileTask.fileName}`);
+      console.log(`🔄 开始处理文件: ${fileName}`);
 
       // 更新状态为上传中
-      fileTask.status = 'uploading';
-      fileTask.progress = 10;
-      fileTask.updatedAt = new Date();
-      this.updateBatchProgress(batchId);
+      await updateFile({ status: 'uploading', progress: 10 });
 
       // 上传文件到Mathpix
-      fileTask.status = 'mathpix-processing';
-      fileTask.progress = 30;
-      fileTask.updatedAt = new Date();
-      this.updateBatchProgress(batchId);
-
-      const markdown = await this.uploadFileToMathpix(fileBuffer, fileType);
+      await updateFile({ status: 'mathpix-processing', progress: 30 });
+
+      const progressWriter = this.createProgressWriter(`文件 ${fileName}`);
+      const { markdown, cached, lines } = await this.uploadFileToMathpix(fileBuffer, fileType, {
+        usage: { ...owner, taskType: 'batch', taskId: batchId, fileId },
+        quota: owner,
+        contentHash: fileTask.contentHash,
+        force,
+        pageRanges: fileTask.pageRanges,
+        signal: controller.signal,
+        onProgress: (ocrProgress) => {
+          // Mathpix识别阶段占 30% - 70%
+          progressWriter.write(() => updateFile({
+            progress: 30 + Math.round(ocrProgress.percentDone * 0.4),
+            estimatedTimeRemaining: ocrProgress.estimatedTimeRemaining
+          }));
+        }
+      });
+      await progressWriter.flush();
+      controller.signal.throwIfAborted();
       
       // 转换格式
-      fileTask.status = 'converting';
-      fileTask.progress = 70;
-      fileTask.updatedAt = new Date();
-      this.updateBatchProgress(batchId);
+      await updateFile({ status: 'converting', progress: 70, estimatedTimeRemaining: undefined, cached });
 
-      const convertedMarkdown = FormatConverter.convertToLatexFormat(markdown);
+      // 下载插图到批次目录，原始结果中保存本地链接
+      const localizedMarkdown = await FigureLocalizer.localize(markdown, { batchId, fileId }, controller.signal);
+      const { result, metadata, answerKey } = FormatConverter.convert(localizedMarkdown, fileTask.convertOptions);
       
       // 完成
-      fileTask.status = 'completed';
-      fileTask.progress = 100;
-      fileTask.result = convertedMarkdown;
-      fileTask.updatedAt = new Date();
-      this.updateBatchProgress(batchId);
+      const questions = lines
+        ? await this.cropQuestions(batchId, fileTask, fileBuffer, QuestionLocator.locate(lines))
+        : undefined;
+
+      await updateFile({
+        status: 'completed',
+        progress: 100,
+        result,
+        rawResult: localizedMarkdown,
+        questionMetadata: metadata,
+        answerKey,
+        lines,
+        questions
+      });
 
-      console.log(`✅ 文件处理完成: ${fileTask.fileName}`);
+      console.log(`✅ 文件处理完成: ${fileName}`);
 
     } catch (error: any) {
-      console.error(`❌ 文件处理失败: ${fileTask.fileName}`, error);
+      if (controller.signal.aborted) {
+        console.log(`🛑 文件处理已取消: ${fileName}`);
+        await updateFile({ status: 'cancelled', estimatedTimeRemaining: undefined });
+        return;
+      }
+
+      console.error(`❌ 文件处理失败: ${fileName}`, error);
       
-      fileTask.status = 'failed';
-      fileTask.error = error.message || '处理失败';
-      fileTask.updatedAt = new Date();
-      this.updateBatchProgress(batchId);
+      await updateFile({
+        status: 'failed',
+        error: error.message || '处理失败',
+        estimatedTimeRemaining: undefined
+      });
+    } finally {
+      activeControllers.delete(fileId);
     }
   }
 
   /**
    * 更新批量任务进度
    */
-  private static updateBatchProgress(batchId: string): void {
-    const batchTask = batchTasks.get(batchId);
-    if (!batchTask) return;
+  private static async updateBatchProgress(batchId: string): Promise<BatchFileCounts> {
+    const files = await TaskStore.getFileTasks(batchId);
+    if (files.length === 0) {
+      return { totalFiles: 0, completedFiles: 0, failedFiles: 0, cancelledFiles: 0 };
+    }
+
+    // 已取消的文件不再推进，按已结束计算进度
+    const totalProgress = files.reduce((sum, file) => sum + (file.status === 'cancelled' ? 100 : file.progress), 0);
+    const completedFiles = files.filter(f => f.status === 'completed').length;
+    const failedFiles = files.filter(f => f.status === 'failed').length;
+    const cancelledFiles = files.filter(f => f.status === 'cancelled').length;
+
+    // 批量任务的剩余时间取决于最慢的文件
+    const remainingTimes = files
+      .map(file => file.estimatedTimeRemaining)
+      .filter((time): time is number => typeof time === 'number');
+
+    await TaskStore.updateBatchTask(batchId, {
+      overallProgress: Math.round(totalProgress / files.length),
+      completedFiles,
+      failedFiles,
+      estimatedTimeRemaining: remainingTimes.length > 0 ? Math.max(...remainingTimes) : undefined
+    });
+    await this.publishBatch(batchId);
+
+    return { totalFiles: files.length, completedFiles, failedFiles, cancelledFiles };
+  }
+
+  /**
+   * 向订阅者推送批量任务的最新快照
+   */
+  private static async publishBatch(batchId: string): Promise<void> {
+    if (!BatchEvents.hasSubscribers(batchId)) {
+      return;
+    }
+
+    const batchTask = await TaskStore.getBatchTask(batchId);
+    if (batchTask) {
+      BatchEvents.publish(batchTask);
+    }
+  }
+
+  /**
+   * 根据文件处理结果确定批量任务的最终状态
+   */
+  private static resolveBatchStatus(batchId: string, counts: BatchFileCounts): BatchTask['status'] {
+    if (cancelledBatches.has(batchId)) {
+      return 'cancelled';
+    }
+    if (counts.completedFiles > 0) {
+      return 'completed';
+    }
+    return counts.cancelledFiles === counts.totalFiles ? 'cancelled' : 'failed';
+  }
+
+  /**
+   * 取消批量任务中的单个文件
+   *
+   * 排队中的文件直接从处理队列移除；正在处理的文件通过 AbortController 中止请求
+   */
+  static async cancelFile(batchId: string, fileId: string): Promise<boolean> {
+    const fileTask = await TaskStore.getFileTask(batchId, fileId);
+    if (!fileTask || TERMINAL_FILE_STATUSES.includes(fileTask.status)) {
+      return false;
+    }
+
+    const controller = activeControllers.get(fileId);
+    if (controller) {
+      console.log(`🛑 中止正在处理的文件: ${fileTask.fileName}`);
+      controller.abort();
+      return true;
+    }
+
+    if (processingQueue.remove(fileId)) {
+      console.log(`🛑 从队列中移除文件: ${fileTask.fileName}`);
+    }
+    await TaskStore.updateFileTask(batchId, fileId, { status: 'cancelled', estimatedTimeRemaining: undefined });
+    await this.updateBatchProgress(batchId);
+    return true;
+  }
+
+  /**
+   * 取消整个批量任务，已完成的文件结果保留
+   */
+  static async cancelBatch(batchId: string): Promise<number> {
+    const files = await TaskStore.getFileTasks(batchId);
+    const activeFiles = files.filter(file => !TERMINAL_FILE_STATUSES.includes(file.status));
+    if (activeFiles.length === 0) {
+      return 0;
+    }
+
+    cancelledBatches.add(batchId);
+
+    let cancelled = 0;
+    for (const file of activeFiles) {
+      if (await this.cancelFile(batchId, file.fileId)) {
+        cancelled++;
+      }
+    }
 
-    const totalProgress = batchTask.files.reduce((sum, file) => sum + file.progress, 0);
-    batchTask.overallProgress = Math.round(totalProgress / batchTask.totalFiles);
-    batchTask.updatedAt = new Date();
+    console.log(`🛑 批量任务已取消: ${batchId}, 取消文件数: ${cancelled}`);
+    return cancelled;
   }
 
   /**
    * 获取批量任务状态
    */
-  static getBatchTask(batchId: string): BatchTask | undefined {
-    return batchTasks.get(batchId);
+  static async getBatchTask(batchId: string): Promise<BatchTask | null> {
+    return TaskStore.getBatchTask(batchId);
   }
 
   /**
    * 获取批量任务结果
    */
-  static getBatchResults(batchId: string): { files: FileTask[], overallProgress: number, status: string } | null {
-    const batchTask = batchTasks.get(batchId);
+  static async getBatchResults(batchId: string): Promise<{ files: FileTask[], overallProgress: number, status: string } | null> {
+    const batchTask = await TaskStore.getBatchTask(batchId);
     if (!batchTask) return null;
 
     return {
@@ -699,26 +1068,99 @@ export class MathpixService {
   }
 
   /**
-   * 清理过期的扫描任务（24小时）
+   * 使用已保存的原始识别结果重新转换批量任务中的文件（不再调用Mathpix）
+   *
+   * 没有原始结果（例如保存原始结果之前的旧记录）时返回 null
    */
-  static cleanupExpiredTasks(): void {
-    const now = new Date();
-    const expiredTime = 24 * 60 * 60 * 1000; // 24小时
+  static async reconvertFile(batchId: string, fileId: string, options: ConvertOptions): Promise<ConversionResult | null> {
+    const fileTask = await TaskStore.getFileTask(batchId, fileId);
+    if (!fileTask?.rawResult) {
+      return null;
+    }
 
-    for (const [scanId, task] of scanTasks.entries()) {
-      if (now.getTime() - task.updatedAt.getTime() > expiredTime) {
-        scanTasks.delete(scanId);
-        console.log(`🗑️ 清理过期扫描任务: ${scanId}`);
-      }
+    const conversion = FormatConverter.convert(fileTask.rawResult, options);
+    await TaskStore.updateFileTask(batchId, fileId, {
+      result: conversion.result,
+      questionMetadata: conversion.metadata,
+      answerKey: conversion.answerKey,
+      convertOptions: options
+    });
+
+    console.log(`🔄 文件已重新转换: ${fileTask.fileName}`);
+    return conversion;
+  }
+
+  /**
+   * 使用已保存的原始识别结果重新转换单文件扫描任务
+   */
+  static async reconvertScan(scanId: string, options: ConvertOptions): Promise<ConversionResult | null> {
+    const task = await TaskStore.getScanTask(scanId);
+    if (!task?.rawResult) {
+      return null;
     }
 
-    for (const [batchId, task] of batchTasks.entries()) {
-      if (now.getTime() - task.updatedAt.getTime() > expiredTime) {
-        // 清理文件
-        cleanupBatchFiles(batchId);
-        batchTasks.delete(batchId);
-        console.log(`🗑️ 清理过期批量任务: ${batchId}`);
-      }
+    const conversion = FormatConverter.convert(task.rawResult, options);
+    await TaskStore.updateScanTask(scanId, {
+      result: conversion.result,
+      questionMetadata: conversion.metadata,
+      answerKey: conversion.answerKey,
+      convertOptions: options
+    });
+
+    console.log(`🔄 扫描任务已重新转换: ${scanId}`);
+    return conversion;
+  }
+
+  /**
+   * 获取用户的扫描历史
+   */
+  static async listTaskHistory(userId: string, query: TaskHistoryQuery): Promise<{ tasks: TaskHistoryItem[]; total: number }> {
+    return TaskStore.listHistory(userId, query);
+  }
+
+  /**
+   * 服务启动时处理中断的任务：处理队列只存在于内存中，重启前未完成的任务无法继续
+   */
+  static async recoverInterruptedTasks(): Promise<void> {
+    const { scans, files, batches } = await TaskStore.failInterruptedTasks('服务重启，任务已中断，请重新上传');
+
+    for (const batchId of batches) {
+      const counts = await this.updateBatchProgress(batchId);
+      await TaskStore.updateBatchTask(batchId, {
+        status: this.resolveBatchStatus(batchId, counts),
+        estimatedTimeRemaining: undefined
+      });
+    }
+
+    if (scans > 0 || files > 0) {
+      console.log(`⚠️ 已将中断的任务标记为失败: 扫描任务 ${scans} 个, 文件任务 ${files} 个`);
+    }
+  }
+
+  /**
+   * 清理过期数据：原始文件保留24小时，任务记录及其插图、题目截图按配置的天数保留
+   */
+  static async cleanupExpiredTasks(): Promise<void> {
+    cleanupOldFiles(config.tasks.retentionDays);
+
+    const expiredBefore = new Date(Date.now() - config.tasks.retentionDays * 24 * 60 * 60 * 1000);
+    const { scans, batches } = await TaskStore.deleteTasksBefore(expiredBefore);
+
+    if (scans > 0 || batches > 0) {
+      console.log(`🗑️ 清理过期任务记录: 扫描任务 ${scans} 个, 批量任务 ${batches} 个`);
+    }
+
+    const cacheExpiredBefore = new Date(Date.now() - config.ocr.cacheTtlDays * 24 * 60 * 60 * 1000);
+    const cacheEntries = await ResultCache.deleteUnusedBefore(cacheExpiredBefore);
+
+    if (cacheEntries > 0) {
+      console.log(`🗑️ 清理过期识别结果缓存: ${cacheEntries} 条`);
+    }
+
+    // 计数器按月或按天划分，保留到上一个月结束
+    const counters = await QuotaService.deleteCountersBefore(new Date(Date.now() - 62 * 24 * 60 * 60 * 1000));
+    if (counters > 0) {
+      console.log(`🗑️ 清理过期配额计数器: ${counters} 条`);
     }
   }
 
@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { OcrProvider, OcrRequestOptions, PdfSubmitOptions, ImageOcrResult, PdfStatus, OcrPage } from './types';
+
+/**
+ * 未找到任何样例文件时返回的默认内容
+ */
+const DEFAULT_MMD = `一、选择题
+1. 已知集合 $A=\\{1,2,3\\}$，则下列说法正确的是（ ）
+A. $1 \\in A$
+B. $4 \\in A$
+C. $0 \\in A$
+D. $A=\\varnothing$
+
+二、填空题
+2. 函数 $f(x)=\\frac{1}{x-1}$ 的定义域为 $\\_\\_\\_\\_$
+`;
+
+/**
+ * 基于本地文件的OCR服务（离线开发与测试用，不调用Mathpix）
+ *
+ * 按以下顺序查找样例目录中的MMD文件：
+ * 1. `<sha256>.mmd` - 与上传文件内容对应
+ * 2. `pdf.mmd` / `image.mmd` - 按文件类型
+ * 3. `default.mmd`
+ */
+export class FileOcrProvider implements OcrProvider {
+  readonly name = 'file';
+
+  private pendingPdfs = new Map<string, string>();
+
+  constructor(private fixtureDir: string) {}
+
+  async recognizeImage(fileBuffer: Buffer, _fileType: string, options: OcrRequestOptions = {}): Promise<ImageOcrResult> {
+    options.signal?.throwIfAborted();
+    return {
+      text: this.readFixture(this.hashBuffer(fileBuffer), 'image')
+    };
+  }
+
+  async submitPdf(fileBuffer: Buffer, options: PdfSubmitOptions = {}): Promise<string> {
+    options.signal?.throwIfAborted();
+    if (options.pageRanges) {
+      console.log(`📁 样例OCR忽略页码范围: ${options.pageRanges}`);
+    }
+    const pdfId = `file-${uuidv4()}`;
+    this.pendingPdfs.set(pdfId, this.hashBuffer(fileBuffer));
+    return pdfId;
+  }
+
+  async pollPdf(pdfId: string, options: OcrRequestOptions = {}): Promise<PdfStatus> {
+    options.signal?.throwIfAborted();
+    if (!this.pendingPdfs.has(pdfId)) {
+      return { status: 'error', rawStatus: 'error', error: `PDF不存在: ${pdfId}` };
+    }
+    return { status: 'completed', rawStatus: 'completed', percentDone: 100, numPages: 1, numPagesCompleted: 1 };
+  }
+
+  async fetchResult(pdfId: string, options: OcrRequestOptions = {}): Promise<string | null> {
+    options.signal?.throwIfAborted();
+    const hash = this.pendingPdfs.get(pdfId);
+    if (!hash) {
+      return null;
+    }
+    this.pendingPdfs.delete(pdfId);
+    return this.readFixture(hash, 'pdf');
+  }
+
+  /**
+   * 样例文件不包含行位置信息
+   */
+  async fetchLines(_pdfId: string, options: OcrRequestOptions = {}): Promise<OcrPage[] | null> {
+    options.signal?.throwIfAborted();
+    return null;
+  }
+
+  /**
+   * 计算文件内容哈希
+   */
+  private hashBuffer(fileBuffer: Buffer): string {
+    return crypto.createHash('sha256').update(fileBuffer).digest('hex');
+  }
+
+  /**
+   * 读取样例MMD文件
+   */
+  private readFixture(hash: string, kind: 'pdf' | 'image'): string {
+    const candidates = [`${hash}.mmd`, `${kind}.mmd`, 'default.mmd'];
+
+    for (const candidate of candidates) {
+      const filePath = path.join(this.fixtureDir, candidate);
+      if (fs.existsSync(filePath)) {
+        console.log(`📁 使用样例OCR结果: ${filePath}`);
+        return fs.readFileSync(filePath, 'utf-8');
+      }
+    }
+
+    console.log('📁 未找到样例OCR结果，返回默认内容');
+    return DEFAULT_MMD;
+  }
+}
@@ -0,0 +1,38 @@
+import path from 'path';
+import { config } from '../../config';
+import { OcrProvider } from './types';
+import { MathpixOcrProvider } from './mathpixProvider';
+import { FileOcrProvider } from './fileOcrProvider';
+
+export * from './types';
+export { MathpixOcrProvider } from './mathpixProvider';
+export { FileOcrProvider } from './fileOcrProvider';
+
+let provider: OcrProvider | null = null;
+
+/**
+ * 根据配置获取OCR服务
+ */
+export const getOcrProvider = (): OcrProvider => {
+  if (!provider) {
+    switch (config.ocr.provider) {
+      case 'file':
+        provider = new FileOcrProvider(path.resolve(process.cwd(), config.ocr.fixtureDir));
+        break;
+      case 'mathpix':
+        provider = new MathpixOcrProvider();
+        break;
+      default:
+        throw new Error(`不支持的OCR服务: ${config.ocr.provider}`);
+    }
+    console.log(`✅ OCR服务初始化成功: ${provider.name}`);
+  }
+  return provider;
+};
+
+/**
+ * 替换当前OCR服务（测试用）
+ */
+export const setOcrProvider = (newProvider: OcrProvider | null): void => {
+  provider = newProvider;
+};
@@ -0,0 +1,364 @@
+import axios from 'axios';
+import FormData from 'form-data';
+import { config } from '../../config';
+import { OcrProvider, OcrRequestOptions, PdfSubmitOptions, ImageOcrResult, PdfStatus, OcrPage, OcrLine, OcrRegion, MathFormats } from './types';
+
+const MATHPIX_API_BASE = 'https://api.mathpix.com/v3';
+
+/**
+ * Mathpix配置
+ */
+const getMathpixConfig = () => {
+  const apiKey = config.mathpix.apiKey;
+  const appId = config.mathpix.appId;
+
+  if (!apiKey || !appId) {
+    throw new Error('Mathpix API配置缺失，请在.env文件中设置MATHPIX_API_KEY和MATHPIX_APP_ID');
+  }
+
+  return { apiKey, appId };
+};
+
+/**
+ * 根据轮廓点计算外接矩形
+ */
+const contourToRegion = (cnt: unknown): OcrRegion | null => {
+  if (!Array.isArray(cnt) || cnt.length === 0) {
+    return null;
+  }
+  const xs = cnt.map((point: number[]) => point[0]);
+  const ys = cnt.map((point: number[]) => point[1]);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+/**
+ * 将Mathpix的行数据（lines.json 的 lines 或 /v3/text 的 line_data）转换为行位置信息
+ */
+const toOcrLines = (lines: any[]): OcrLine[] => {
+  const result: OcrLine[] = [];
+  for (const line of lines || []) {
+    if (line.included === false) {
+      continue;
+    }
+    const region: OcrRegion | null = line.region
+      ? { x: line.region.top_left_x, y: line.region.top_left_y, width: line.region.width, height: line.region.height }
+      : contourToRegion(line.cnt);
+    if (region) {
+      result.push({ text: line.text || '', region });
+    }
+  }
+  return result;
+};
+
+/**
+ * 提取 /v3/text 返回的公式表示：data 中每个公式各有 latex/asciimath/mathml 条目，取第一个公式；
+ * latex_styled 仅在图片为单个公式时返回
+ */
+const toMathFormats = (data: any): MathFormats | undefined => {
+  const pick = (type: string): string | undefined =>
+    (data.data || []).find((item: any) => item.type === type)?.value;
+
+  const math: MathFormats = {
+    latex: pick('latex'),
+    latexStyled: data.latex_styled,
+    asciimath: pick('asciimath'),
+    mathml: pick('mathml')
+  };
+  return Object.values(math).some(Boolean) ? math : undefined;
+};
+
+/**
+ * Mathpix OCR服务
+ */
+export class MathpixOcrProvider implements OcrProvider {
+  readonly name = 'mathpix';
+
+  /**
+   * 获取认证请求头
+   */
+  private getAuthHeaders() {
+    const { apiKey, appId } = getMathpixConfig();
+    return {
+      'app_id': appId,
+      'app_key': apiKey
+    };
+  }
+
+  /**
+   * 调用Mathpix OCR API识别图片
+   */
+  async recognizeImage(fileBuffer: Buffer, fileType: string, options: OcrRequestOptions = {}): Promise<ImageOcrResult> {
+    const headers = this.getAuthHeaders();
+
+    // 创建FormData
+    const formData = new FormData();
+
+    const extension = fileType.split('/')[1];
+    const filename = `image.${extension}`;
+
+    formData.append('file', fileBuffer, {
+      filename,
+      contentType: fileType
+    });
+
+    // 配置选项
+    const conversionOptions = {
+      formats: ['mmd', 'text', 'latex_styled'],
+      data_options: {
+        include_asciimath: true,
+        include_latex: true,
+        include_mathml: true
+      },
+      math_inline_delimiters: ['$', '$'],
+      math_display_delimiters: ['$$', '$$'],
+      rm_spaces: true,
+      include_line_data: true
+    };
+
+    formData.append('options_json', JSON.stringify(conversionOptions));
+
+    console.log('🔧 图片转换选项:', JSON.stringify(conversionOptions, null, 2));
+    console.log('🌐 调用Mathpix OCR API...');
+
+    const response = await axios.post(`${MATHPIX_API_BASE}/text`, formData, {
+      headers: {
+        ...formData.getHeaders(),
+        ...headers
+      },
+      timeout: 30000,
+      signal: options.signal
+    });
+
+    console.log('📥 Mathpix OCR API响应:', JSON.stringify(response.data, null, 2));
+
+    if (!response.data) {
+      throw new Error('Mathpix OCR API未返回数据');
+    }
+
+    // 检查是否有错误
+    if (response.data.error) {
+      throw new Error(`Mathpix OCR API错误: ${response.data.error}`);
+    }
+
+    const lines = toOcrLines(response.data.line_data);
+
+    return {
+      text: response.data.text || response.data.mmd || '',
+      pages: lines.length > 0
+        ? [{ page: 1, width: response.data.image_width || 0, height: response.data.image_height || 0, lines }]
+        : undefined,
+      math: toMathFormats(response.data)
+    };
+  }
+
+  /**
+   * 提交PDF到Mathpix
+   */
+  async submitPdf(fileBuffer: Buffer, options: PdfSubmitOptions = {}): Promise<string> {
+    const headers = this.getAuthHeaders();
+
+    // 创建FormData
+    const formData = new FormData();
+
+    formData.append('file', fileBuffer, {
+      filename: 'document.pdf',
+      contentType: 'application/pdf'
+    });
+
+    // 配置选项
+    const conversionOptions = {
+      formats: ['mmd', 'text'],
+      data_options: {
+        include_asciimath: true,
+        include_latex: true,
+        include_mathml: true
+      },
+      math_inline_delimiters: ['$', '$'],
+      math_display_delimiters: ['$$', '$$'],
+      rm_spaces: true,
+      conversion_timeout: config.ocr.pdfConversionTimeout,
+      ...(options.pageRanges ? { page_ranges: options.pageRanges } : {})
+    };
+
+    formData.append('options_json', JSON.stringify(conversionOptions));
+
+    console.log('🔧 PDF转换选项:', JSON.stringify(conversionOptions, null, 2));
+    console.log('🌐 调用Mathpix PDF API...');
+
+    const response = await axios.post(`${MATHPIX_API_BASE}/pdf`, formData, {
+      headers: {
+        ...formData.getHeaders(),
+        ...headers
+      },
+      maxContentLength: Infinity,
+      maxBodyLength: Infinity,
+      timeout: 300000, // 5分钟超时
+      signal: options.signal
+    });
+
+    console.log('📥 Mathpix PDF API响应:', JSON.stringify(response.data, null, 2));
+
+    if (!response.data) {
+      throw new Error('Mathpix PDF API未返回数据');
+    }
+
+    // 检查是否有错误
+    if (response.data.error) {
+      throw new Error(`Mathpix PDF API错误: ${response.data.error}`);
+    }
+
+    // 获取PDF ID
+    const pdfId = response.data.pdf_id || response.data.id;
+
+    if (!pdfId) {
+      console.error('❌ 响应数据:', response.data);
+      throw new Error('Mathpix PDF API未返回pdf_id');
+    }
+
+    return pdfId;
+  }
+
+  /**
+   * 查询PDF处理状态
+   */
+  async pollPdf(pdfId: string, options: OcrRequestOptions = {}): Promise<PdfStatus> {
+    const response = await axios.get(`${MATHPIX_API_BASE}/pdf/${pdfId}`, {
+      headers: this.getAuthHeaders(),
+      timeout: 10000,
+      signal: options.signal
+    });
+
+    const rawStatus = response.data.status;
+    const pageInfo = {
+      numPages: response.data.num_pages,
+      numPagesCompleted: response.data.num_pages_completed,
+      percentDone: response.data.percent_done
+    };
+
+    if (rawStatus === 'completed') {
+      return { status: 'completed', rawStatus, ...pageInfo };
+    }
+
+    if (rawStatus === 'error' || rawStatus === 'failed') {
+      return {
+        status: 'error',
+        rawStatus,
+        error: response.data.error || response.data.error_info?.message || 'Mathpix处理失败',
+        ...pageInfo
+      };
+    }
+
+    return { status: 'processing', rawStatus, ...pageInfo };
+  }
+
+  /**
+   * 获取PDF的MMD内容
+   */
+  async fetchResult(pdfId: string, options: OcrRequestOptions = {}): Promise<string | null> {
+    try {
+      console.log('🔍 获取PDF的MMD内容...');
+      const headers = this.getAuthHeaders();
+
+      // 等待一段时间让结果准备好
+      await new Promise(resolve => setTimeout(resolve, 2000));
+      options.signal?.throwIfAborted();
+
+      // 尝试获取.mmd格式的结果
+      try {
+        console.log('📄 尝试获取.mmd格式结果...');
+        const mmdResponse = await axios.get(`${MATHPIX_API_BASE}/pdf/${pdfId}.mmd`, {
+          headers,
+          timeout: 10000,
+          signal: options.signal
+        });
+
+        console.log('✅ MMD结果获取成功');
+        console.log('📊 响应类型:', typeof mmdResponse.data);
+        console.log('📊 响应长度:', mmdResponse.data?.length || 0);
+
+        if (typeof mmdResponse.data === 'string' && mmdResponse.data.length > 0) {
+          console.log('📄 MMD内容预览:', mmdResponse.data.substring(0, 500) + '...');
+          return mmdResponse.data;
+        } else if (mmdResponse.data && mmdResponse.data.mmd) {
+          console.log('📄 从响应对象中提取MMD内容...');
+          return mmdResponse.data.mmd;
+        }
+      } catch (mmdError: any) {
+        options.signal?.throwIfAborted();
+        console.warn('⚠️ 获取MMD结果失败:', mmdError.message);
+      }
+
+      // 尝试获取.txt格式的结果
+      try {
+        console.log('📄 尝试获取.txt格式结果...');
+        const txtResponse = await axios.get(`${MATHPIX_API_BASE}/pdf/${pdfId}.txt`, {
+          headers,
+          timeout: 10000,
+          signal: options.signal
+        });
+
+        console.log('✅ 文本结果获取成功');
+        console.log('📊 响应类型:', typeof txtResponse.data);
+        console.log('📊 响应长度:', txtResponse.data?.length || 0);
+
+        if (typeof txtResponse.data === 'string' && txtResponse.data.length > 0) {
+          console.log('📄 文本内容预览:', txtResponse.data.substring(0, 500) + '...');
+          return txtResponse.data;
+        } else if (txtResponse.data && txtResponse.data.text) {
+          console.log('📄 从响应对象中提取文本内容...');
+          return txtResponse.data.text;
+        }
+      } catch (txtError: any) {
+        console.warn('⚠️ 获取文本结果失败:', txtError.message);
+      }
+
+      console.log('❌ 无法获取任何格式的MMD内容');
+      return null;
+
+    } catch (error: any) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      console.error('❌ 获取PDF MMD内容失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 获取PDF每页的行位置信息（lines.json）
+   */
+  async fetchLines(pdfId: string, options: OcrRequestOptions = {}): Promise<OcrPage[] | null> {
+    try {
+      console.log('🔍 获取PDF的行位置信息...');
+      const response = await axios.get(`${MATHPIX_API_BASE}/pdf/${pdfId}.lines.json`, {
+        headers: this.getAuthHeaders(),
+        timeout: 30000,
+        signal: options.signal
+      });
+
+      if (!Array.isArray(response.data?.pages)) {
+        console.warn('⚠️ lines.json 格式无效');
+        return null;
+      }
+
+      const pages: OcrPage[] = response.data.pages.map((page: any, index: number) => ({
+        page: page.page || index + 1,
+        width: page.page_width || 0,
+        height: page.page_height || 0,
+        lines: toOcrLines(page.lines)
+      }));
+
+      console.log(`✅ 行位置信息获取成功，共 ${pages.length} 页`);
+      return pages;
+
+    } catch (error: any) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      console.warn('⚠️ 获取PDF行位置信息失败:', error.message);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * 页面上的矩形区域（像素坐标，原点在左上角）
+ */
+export interface OcrRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 识别出的一行内容及其位置
+ */
+export interface OcrLine {
+  text: string;
+  region: OcrRegion;
+}
+
+/**
+ * 单页的行位置信息，width/height 为识别时的页面像素尺寸（未知时为 0）
+ */
+export interface OcrPage {
+  page: number; // 从 1 开始
+  width: number;
+  height: number;
+  lines: OcrLine[];
+}
+
+/**
+ * 公式的多种表示形式
+ */
+export interface MathFormats {
+  latex?: string;
+  latexStyled?: string; // 带样式的LaTeX（保留 \left( 、\mathrm 等排版命令）
+  asciimath?: string;
+  mathml?: string;
+}
+
+/**
+ * 图片识别结果
+ */
+export interface ImageOcrResult {
+  text: string;
+  pages?: OcrPage[]; // 行位置信息，图片只有一页
+  math?: MathFormats; // 图片中第一个公式的各种表示
+}
+
+/**
+ * PDF处理状态
+ */
+export interface PdfStatus {
+  status: 'processing' | 'completed' | 'error';
+  rawStatus?: string;
+  error?: string;
+  numPages?: number;
+  numPagesCompleted?: number;
+  percentDone?: number;
+}
+
+/**
+ * PDF处理进度
+ */
+export interface OcrProgress {
+  percentDone: number;
+  numPages?: number;
+  numPagesCompleted?: number;
+  estimatedTimeRemaining?: number; // 预估剩余时间（秒）
+}
+
+/**
+ * 进度回调
+ */
+export type OcrProgressCallback = (progress: OcrProgress) => void;
+
+/**
+ * 请求选项
+ */
+export interface OcrRequestOptions {
+  signal?: AbortSignal; // 用于取消进行中的请求
+}
+
+/**
+ * 提交PDF的选项
+ */
+export interface PdfSubmitOptions extends OcrRequestOptions {
+  pageRanges?: string; // 只识别指定页码，如 "3-6,8"
+}
+
+/**
+ * OCR服务提供方接口
+ */
+export interface OcrProvider {
+  readonly name: string;
+
+  /**
+   * 识别单张图片
+   */
+  recognizeImage(fileBuffer: Buffer, fileType: string, options?: OcrRequestOptions): Promise<ImageOcrResult>;
+
+  /**
+   * 提交PDF，返回PDF ID
+   */
+  submitPdf(fileBuffer: Buffer, options?: PdfSubmitOptions): Promise<string>;
+
+  /**
+   * 查询PDF处理状态
+   */
+  pollPdf(pdfId: string, options?: OcrRequestOptions): Promise<PdfStatus>;
+
+  /**
+   * 获取PDF的MMD内容
+   */
+  fetchResult(pdfId: string, options?: OcrRequestOptions): Promise<string | null>;
+
+  /**
+   * 获取PDF每页的行位置信息，不支持时返回 null
+   */
+  fetchLines(pdfId: string, options?: OcrRequestOptions): Promise<OcrPage[] | null>;
+}
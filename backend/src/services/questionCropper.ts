@@ -0,0 +1,135 @@
+import sharp from 'sharp';
+import { PDFDocument } from 'pdf-lib';
+import { QuestionLocation, QuestionRegion } from './questionLocator';
+
+// 截图四周留白（占页面宽度的比例），避免裁掉贴边的笔画
+const CROP_PADDING_RATIO = 0.01;
+
+/**
+ * 题目截图
+ */
+export interface QuestionCrop {
+  index: number; // 题目在列表中的序号（从 0 开始）
+  name: string; // 文件名，q<序号>.png / q<序号>.pdf（序号从 1 开始，题号可能重复）
+  buffer: Buffer;
+}
+
+/**
+ * 按题目区域从原文件中截取题目：PDF 截为矢量 PDF（跨页的题目每块区域一页），图片截为 PNG
+ */
+export class QuestionCropper {
+  /**
+   * 截取所有题目，无法截取的题目跳过
+   */
+  static async crop(fileBuffer: Buffer, fileType: string, questions: QuestionLocation[]): Promise<QuestionCrop[]> {
+    if (questions.length === 0) {
+      return [];
+    }
+
+    return fileType === 'application/pdf'
+      ? this.cropPdf(fileBuffer, questions)
+      : this.cropImage(fileBuffer, questions);
+  }
+
+  /**
+   * 从PDF中截取题目区域，识别坐标（像素，左上角为原点）换算为PDF坐标（点，左下角为原点）
+   */
+  private static async cropPdf(fileBuffer: Buffer, questions: QuestionLocation[]): Promise<QuestionCrop[]> {
+    const source = await PDFDocument.load(fileBuffer, { ignoreEncryption: true });
+    const crops: QuestionCrop[] = [];
+
+    for (const [index, question] of questions.entries()) {
+      const regions = question.regions.filter(region =>
+        region.pageWidth > 0 && region.page >= 1 && region.page <= source.getPageCount()
+      );
+      if (regions.length === 0) {
+        continue;
+      }
+
+      try {
+        const doc = await PDFDocument.create();
+        for (const region of regions) {
+          const sourcePage = source.getPage(region.page - 1);
+          const { x: originX, y: originY, width, height } = sourcePage.getMediaBox();
+          const scale = width / region.pageWidth;
+          const box = this.padRegion(region, region.pageWidth, region.pageHeight || height / scale);
+
+          const embedded = await doc.embedPage(sourcePage, {
+            left: originX + box.x * scale,
+            right: originX + (box.x + box.width) * scale,
+            top: originY + height - box.y * scale,
+            bottom: originY + height - (box.y + box.height) * scale
+          });
+          const page = doc.addPage([embedded.width, embedded.height]);
+          page.drawPage(embedded);
+        }
+
+        crops.push({
+          index,
+          name: `q${index + 1}.pdf`,
+          buffer: Buffer.from(await doc.save())
+        });
+      } catch (error: any) {
+        console.warn(`⚠️ 截取第 ${question.number} 题失败:`, error.message);
+      }
+    }
+
+    return crops;
+  }
+
+  /**
+   * 从图片中截取题目区域
+   */
+  private static async cropImage(fileBuffer: Buffer, questions: QuestionLocation[]): Promise<QuestionCrop[]> {
+    const image = sharp(fileBuffer).rotate(); // 按 EXIF 方向摆正，与识别时一致
+    const metadata = await image.metadata();
+    const rotated = (metadata.orientation || 1) >= 5;
+    const imageWidth = (rotated ? metadata.height : metadata.width) || 0;
+    const imageHeight = (rotated ? metadata.width : metadata.height) || 0;
+    if (!imageWidth || !imageHeight) {
+      return [];
+    }
+
+    const crops: QuestionCrop[] = [];
+    for (const [index, question] of questions.entries()) {
+      const region = question.regions.find(region => region.page === 1);
+      if (!region) {
+        continue;
+      }
+
+      // 识别时的尺寸未知则按原图尺寸计算
+      const scale = region.pageWidth ? imageWidth / region.pageWidth : 1;
+      const box = this.padRegion(region, imageWidth / scale, imageHeight / scale);
+      const left = Math.round(box.x * scale);
+      const top = Math.round(box.y * scale);
+      const width = Math.min(imageWidth - left, Math.round(box.width * scale));
+      const height = Math.min(imageHeight - top, Math.round(box.height * scale));
+      if (width <= 0 || height <= 0) {
+        continue;
+      }
+
+      crops.push({
+        index,
+        name: `q${index + 1}.png`,
+        buffer: await image.clone().extract({ left, top, width, height }).png().toBuffer()
+      });
+    }
+
+    return crops;
+  }
+
+  /**
+   * 区域四周留白，并限制在页面范围内
+   */
+  private static padRegion(region: QuestionRegion, pageWidth: number, pageHeight: number) {
+    const padding = pageWidth * CROP_PADDING_RATIO;
+    const x = Math.max(0, region.x - padding);
+    const y = Math.max(0, region.y - padding);
+    return {
+      x,
+      y,
+      width: Math.min(pageWidth, region.x + region.width + padding) - x,
+      height: Math.min(pageHeight, region.y + region.height + padding) - y
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import { OcrPage, OcrRegion } from './ocr';
+
+/**
+ * 题目在原文件某一页上的区域（像素坐标，pageWidth/pageHeight 为识别时的页面尺寸，未知时为 0）
+ */
+export interface QuestionRegion extends OcrRegion {
+  page: number;
+  pageWidth: number;
+  pageHeight: number;
+}
+
+/**
+ * 题目在原文件中的位置，跨页的题目每页一块区域
+ */
+export interface QuestionLocation {
+  number: number; // 题号
+  page: number; // 题目起始页
+  regions: QuestionRegion[];
+  crop?: string; // 原文件截图文件名（仅批量任务）
+}
+
+// 与 ExamParser 分割题目的规则一致：行首 数字 + 点号/顿号（排除小数）
+const QUESTION_START = /^\s*(\d+)\s*[．.、](?!\d)/;
+// 大题标题（一．、二、等），不属于任何小题
+const SECTION_START = /^\s*[一二三四五六七八九十]+\s*[．.、]/;
+
+/**
+ * 根据Mathpix的行位置信息定位每道题在原文件中的页码和区域
+ */
+export class QuestionLocator {
+  /**
+   * 按阅读顺序扫描每一行，题号行开始新题目，之后的行都归入该题
+   *
+   * 题号需递增（允许漏识别一题），避免把题目内的编号列表当作新题；
+   * 大题标题之后允许题号从 1 重新开始
+   */
+  static locate(pages: OcrPage[]): QuestionLocation[] {
+    const locations: QuestionLocation[] = [];
+    let current: QuestionLocation | null = null;
+    let afterSection = false;
+
+    const sortedPages = [...pages].sort((a, b) => a.page - b.page);
+    for (const page of sortedPages) {
+      for (const line of page.lines) {
+        const text = line.text.trim();
+
+        if (SECTION_START.test(text)) {
+          current = null;
+          afterSection = true;
+          continue;
+        }
+
+        const match = text.match(QUESTION_START);
+        if (match) {
+          const number = parseInt(match[1], 10);
+          const last = locations[locations.length - 1]?.number;
+          const isNext = last === undefined
+            || (number > last && number <= last + 2)
+            || (afterSection && number === 1);
+          if (isNext) {
+            current = { number, page: page.page, regions: [] };
+            locations.push(current);
+            afterSection = false;
+          }
+        }
+
+        if (current) {
+          this.extendRegion(current, page, line.region);
+        }
+      }
+    }
+
+    return locations;
+  }
+
+  /**
+   * 将一行并入题目在当前页的区域
+   */
+  private static extendRegion(location: QuestionLocation, page: OcrPage, region: OcrRegion): void {
+    const last = location.regions[location.regions.length - 1];
+    if (!last || last.page !== page.page) {
+      location.regions.push({ page: page.page, pageWidth: page.width, pageHeight: page.height, ...region });
+      return;
+    }
+
+    const right = Math.max(last.x + last.width, region.x + region.width);
+    const bottom = Math.max(last.y + last.height, region.y + region.height);
+    last.x = Math.min(last.x, region.x);
+    last.y = Math.min(last.y, region.y);
+    last.width = right - last.x;
+    last.height = bottom - last.y;
+  }
+}
@@ -0,0 +1,317 @@
+import { config } from '../config';
+import { getQuotaModel, Quota } from '../models/Quota';
+import { getQuotaCounterModel, QuotaCounter } from '../models/QuotaCounter';
+import { getUsageModel } from '../models/Usage';
+import { getScanTaskModel } from '../models/ScanTask';
+import { getBatchTaskModel } from '../models/BatchTask';
+import { ResultCache } from './resultCache';
+import { countPdfPages, parsePageRanges, countRangePages } from '../utils/pdf';
+import { TaskOwner } from './mathpixService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 匹配当前周期（按配置时区的自然月或自然日）的记录
+ */
+const currentPeriod = (format: '%Y-%m' | '%Y-%m-%d') => ({
+  $expr: {
+    $eq: [
+      { $dateToString: { format, date: '$createdAt', timezone: config.usage.timezone } },
+      { $dateToString: { format, date: '$$NOW', timezone: config.usage.timezone } }
+    ]
+  }
+});
+
+/**
+ * 单项配额的使用情况，limit 为 0 表示不限制，此时 remaining 为 null
+ */
+export interface QuotaMeter {
+  limit: number;
+  used: number;
+  remaining: number | null;
+}
+
+export interface QuotaUsage {
+  monthlyPages: QuotaMeter;
+  dailyFiles: QuotaMeter;
+}
+
+/**
+ * 用户（及其所属企业）的配额状态
+ */
+export interface QuotaStatus {
+  user: QuotaUsage;
+  enterprise?: QuotaUsage & { key: string };
+}
+
+export interface QuotaCheckResult {
+  allowed: boolean;
+  error?: string;
+  status: QuotaStatus;
+}
+
+export type QuotaLimits = Pick<Quota, 'monthlyPages' | 'dailyFiles'>;
+
+/**
+ * 一次请求占用的配额
+ */
+export interface QuotaRequest {
+  files: number;
+  pages: number;
+}
+
+type QuotaMetric = QuotaCounter['metric'];
+
+/**
+ * 配额的统计对象：用户或企业，filter 用于从任务和用量记录中统计已有用量
+ */
+interface QuotaTarget {
+  scope: Quota['scope'];
+  key: string;
+  label: string;
+  filter: Record<string, string>;
+}
+
+/**
+ * 配置时区下的当前统计周期：页数按月，文件数按天
+ */
+const periodOf = (metric: QuotaMetric): string => {
+  const today = new Intl.DateTimeFormat('en-CA', {
+    timeZone: config.usage.timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(new Date());
+  return metric === 'pages' ? today.slice(0, 7) : today;
+};
+
+const toMeter = (limit: number, used: number): QuotaMeter => ({
+  limit,
+  used,
+  remaining: limit > 0 ? Math.max(0, limit - used) : null
+});
+
+/**
+ * 配额管理：每月识别页数、每天上传文件数，使用量记在按周期划分的计数器中，检查时原子地预占
+ */
+export class QuotaService {
+  /**
+   * 获取用户或企业的配额上限（未单独设置时使用默认配额）
+   */
+  static async getLimits(scope: Quota['scope'], key: string): Promise<QuotaLimits> {
+    const quota = await getQuotaModel().findOne({ scope, key }).lean();
+    if (quota) {
+      return { monthlyPages: quota.monthlyPages, dailyFiles: quota.dailyFiles };
+    }
+
+    return scope === 'user'
+      ? { monthlyPages: config.quota.userMonthlyPages, dailyFiles: config.quota.userDailyFiles }
+      : { monthlyPages: config.quota.enterpriseMonthlyPages, dailyFiles: config.quota.enterpriseDailyFiles };
+  }
+
+  /**
+   * 获取用户及其所属企业的配额使用情况
+   */
+  static async getStatus(owner: TaskOwner): Promise<QuotaStatus> {
+    const [user, enterprise] = this.getTargets(owner);
+    const status: QuotaStatus = {
+      user: await this.getUsage(user)
+    };
+
+    if (enterprise) {
+      status.enterprise = { ...await this.getUsage(enterprise), key: enterprise.key };
+    }
+
+    return status;
+  }
+
+  /**
+   * 检查本次请求是否超出配额，未超出时立即占用（并发请求不会一起超出上限），超出时不占用任何配额
+   */
+  static async reserve(owner: TaskOwner, request: QuotaRequest): Promise<QuotaCheckResult> {
+    const reserved: Array<[QuotaTarget, QuotaMetric, number]> = [];
+
+    for (const target of this.getTargets(owner)) {
+      const limits = await this.getLimits(target.scope, target.key);
+      const items: Array<[QuotaMetric, number, number]> = [
+        ['files', request.files, limits.dailyFiles],
+        ['pages', request.pages, limits.monthlyPages]
+      ];
+
+      for (const [metric, amount, limit] of items) {
+        if (amount <= 0) continue;
+        if (await this.increment(target, metric, amount, limit)) {
+          reserved.push([target, metric, amount]);
+          continue;
+        }
+
+        // 超出上限：退还已占用的配额
+        for (const [reservedTarget, reservedMetric, reservedAmount] of reserved) {
+          await this.increment(reservedTarget, reservedMetric, -reservedAmount, 0);
+        }
+
+        const status = await this.getStatus(owner);
+        const usage = target.scope === 'user' ? status.user : status.enterprise!;
+        const error = metric === 'files'
+          ? `${target.label}今日上传文件数已达上限（${usage.dailyFiles.limit} 个），剩余 ${usage.dailyFiles.remaining} 个`
+          : `${target.label}本月识别页数不足：剩余 ${usage.monthlyPages.remaining} 页，本次需要 ${request.pages} 页`;
+        return { allowed: false, error, status };
+      }
+    }
+
+    return { allowed: true, status: await this.getStatus(owner) };
+  }
+
+  /**
+   * 退还已占用的配额（占用后请求未能执行时）
+   */
+  static async release(owner: TaskOwner, request: QuotaRequest): Promise<void> {
+    for (const target of this.getTargets(owner)) {
+      if (request.files > 0) await this.increment(target, 'files', -request.files, 0);
+      if (request.pages > 0) await this.increment(target, 'pages', -request.pages, 0);
+    }
+  }
+
+  /**
+   * 删除指定时间之后未再更新的计数器（已过去的统计周期）
+   */
+  static async deleteCountersBefore(date: Date): Promise<number> {
+    const result = await getQuotaCounterModel().deleteMany({ updatedAt: { $lt: date } });
+    return result.deletedCount;
+  }
+
+  /**
+   * 估算上传文件需要识别的页数：PDF 读取页数（无法解析时按 1 页计，指定页码范围时按范围计），
+   * 图片按 1 页计，已有缓存结果的文件不再调用Mathpix，不计页数
+   */
+  static async estimatePages(files: Array<{ buffer: Buffer; mimetype: string; pageRanges?: string }>, force = false): Promise<number> {
+    let pages = 0;
+
+    for (const file of files) {
+      if (!force && await ResultCache.has(ResultCache.hash(file.buffer, file.pageRanges))) {
+        continue;
+      }
+      if (file.mimetype !== 'application/pdf') {
+        pages += 1;
+        continue;
+      }
+      const ranges = file.pageRanges ? parsePageRanges(file.pageRanges) : null;
+      pages += ranges
+        ? countRangePages(ranges)
+        : (await countPdfPages(file.buffer)) ?? 1;
+    }
+
+    return pages;
+  }
+
+  /**
+   * 列出单独设置过的配额
+   */
+  static async listQuotas(): Promise<Quota[]> {
+    return getQuotaModel()
+      .find({}, { _id: 0, __v: 0 })
+      .sort({ scope: 1, key: 1 })
+      .lean<Quota[]>();
+  }
+
+  /**
+   * 设置用户或企业的配额
+   */
+  static async setQuota(scope: Quota['scope'], key: string, limits: QuotaLimits): Promise<void> {
+    await getQuotaModel().updateOne(
+      { scope, key },
+      { $set: limits },
+      { upsert: true, runValidators: true }
+    );
+  }
+
+  /**
+   * 删除单独设置的配额，恢复为默认配额
+   */
+  static async deleteQuota(scope: Quota['scope'], key: string): Promise<boolean> {
+    const result = await getQuotaModel().deleteOne({ scope, key });
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * 用户及其所属企业
+   */
+  private static getTargets(owner: TaskOwner): QuotaTarget[] {
+    const targets: QuotaTarget[] = [{ scope: 'user', key: owner.userId, label: '', filter: { userId: owner.userId } }];
+    if (owner.enterprise) {
+      targets.push({ scope: 'enterprise', key: owner.enterprise, label: '企业', filter: { enterprise: owner.enterprise } });
+    }
+    return targets;
+  }
+
+  /**
+   * 当前周期的使用量
+   */
+  private static async getUsage(target: QuotaTarget): Promise<QuotaUsage> {
+    const limits = await this.getLimits(target.scope, target.key);
+    return {
+      monthlyPages: toMeter(limits.monthlyPages, await this.getUsed(target, 'pages')),
+      dailyFiles: toMeter(limits.dailyFiles, await this.getUsed(target, 'files'))
+    };
+  }
+
+  /**
+   * 读取当前周期的计数器，不存在时按已有记录统计后创建
+   */
+  private static async getUsed(target: QuotaTarget, metric: QuotaMetric): Promise<number> {
+    const Counter = getQuotaCounterModel();
+    const filter = { scope: target.scope, key: target.key, metric, period: periodOf(metric) };
+
+    const counter = await Counter.findOne(filter).lean();
+    if (counter) {
+      return counter.used;
+    }
+
+    const used = await this.countRecords(target.filter, metric);
+    try {
+      await Counter.updateOne(filter, { $setOnInsert: { used } }, { upsert: true });
+    } catch (error: any) {
+      // 并发创建同一计数器时唯一索引冲突，以先创建的为准
+      if (error.code !== 11000) throw error;
+    }
+    return (await Counter.findOne(filter).lean())?.used ?? used;
+  }
+
+  /**
+   * 递增计数器，limit 大于 0 时只在不超过上限时递增，返回是否成功
+   */
+  private static async increment(target: QuotaTarget, metric: QuotaMetric, amount: number, limit: number): Promise<boolean> {
+    await this.getUsed(target, metric);
+
+    const filter: Record<string, any> = { scope: target.scope, key: target.key, metric, period: periodOf(metric) };
+    if (limit > 0) {
+      filter.used = { $lte: limit - amount };
+    }
+    const result = await getQuotaCounterModel().updateOne(filter, { $inc: { used: amount } });
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * 按已有记录统计当前周期的使用量（计数器创建前的用量）：页数取自用量记录，
+   * 文件数取自任务记录和公式识别的用量记录
+   */
+  private static async countRecords(filter: Record<string, string>, metric: QuotaMetric): Promise<number> {
+    if (metric === 'pages') {
+      const [pagesResult] = await getUsageModel().aggregate([
+        { $match: { ...filter, createdAt: { $gte: new Date(Date.now() - 32 * DAY_MS) } } },
+        { $match: currentPeriod('%Y-%m') },
+        { $group: { _id: null, pages: { $sum: '$pages' } } }
+      ]);
+      return pagesResult?.pages || 0;
+    }
+
+    const recentFilter = { ...filter, createdAt: { $gte: new Date(Date.now() - 2 * DAY_MS) }, ...currentPeriod('%Y-%m-%d') };
+    const scanFiles = await getScanTaskModel().countDocuments(recentFilter);
+    const [batchResult] = await getBatchTaskModel().aggregate([
+      { $match: recentFilter },
+      { $group: { _id: null, files: { $sum: '$totalFiles' } } }
+    ]);
+    const formulas = await getUsageModel().distinct('taskId', { ...recentFilter, taskType: 'formula' });
+    return scanFiles + (batchResult?.files || 0) + formulas.length;
+  }
+}
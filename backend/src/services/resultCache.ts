@@ -0,0 +1,63 @@
+import crypto from 'crypto';
+import { getOcrCacheModel } from '../models/OcrCache';
+import { OcrPage, MathFormats } from './ocr';
+
+/**
+ * 缓存的识别结果
+ */
+export interface CachedResult {
+  markdown: string;
+  lines?: OcrPage[];
+  math?: MathFormats; // 图片中公式的各种表示（仅图片）
+}
+
+/**
+ * 识别结果缓存：同一份文件重复上传时直接复用 Mathpix 原始输出，避免重复计费
+ */
+export class ResultCache {
+  /**
+   * 计算文件内容的 SHA-256 哈希，只识别部分页码时附加页码范围，与整份文件的结果分开缓存
+   */
+  static hash(buffer: Buffer, pageRanges?: string): string {
+    const hash = crypto.createHash('sha256').update(buffer).digest('hex');
+    return pageRanges ? `${hash}:${pageRanges}` : hash;
+  }
+
+  /**
+   * 查询缓存，命中时累加命中次数
+   */
+  static async get(contentHash: string): Promise<CachedResult | null> {
+    const entry = await getOcrCacheModel().findOneAndUpdate(
+      { contentHash },
+      { $inc: { hits: 1 } },
+      { projection: { markdown: 1, lines: 1, math: 1 } }
+    ).lean();
+    return entry ? { markdown: entry.markdown, lines: entry.lines, math: entry.math } : null;
+  }
+
+  /**
+   * 是否存在缓存（不计入命中次数）
+   */
+  static async has(contentHash: string): Promise<boolean> {
+    return (await getOcrCacheModel().exists({ contentHash })) !== null;
+  }
+
+  /**
+   * 写入（或覆盖）缓存
+   */
+  static async set(contentHash: string, fileType: string | undefined, result: CachedResult): Promise<void> {
+    await getOcrCacheModel().updateOne(
+      { contentHash },
+      { $set: { fileType, markdown: result.markdown, lines: result.lines, math: result.math } },
+      { upsert: true }
+    );
+  }
+
+  /**
+   * 删除指定时间之后未再使用的缓存
+   */
+  static async deleteUnusedBefore(date: Date): Promise<number> {
+    const result = await getOcrCacheModel().deleteMany({ updatedAt: { $lt: date } });
+    return result.deletedCount;
+  }
+}
@@ -0,0 +1,294 @@
+import mongoose from 'mongoose';
+import { getScanTaskModel, ScanTask } from '../models/ScanTask';
+import { getBatchTaskModel, BatchTask, BatchTaskRecord } from '../models/BatchTask';
+import { getFileTaskModel, FileTask } from '../models/FileTask';
+
+/**
+ * 查询时排除的内部字段
+ */
+const HIDDEN_FIELDS = { _id: 0, __v: 0 };
+
+/**
+ * 文件列表查询时额外排除原始识别结果和行位置信息（体积较大，仅重新转换时需要）
+ */
+const FILE_LIST_FIELDS = { ...HIDDEN_FIELDS, rawResult: 0, lines: 0 };
+
+/**
+ * 将补丁对象拆分为 $set / $unset，值为 undefined 的字段会被移除
+ */
+const toUpdate = (patch: Record<string, any>) => {
+  const $set: Record<string, any> = {};
+  const $unset: Record<string, ''> = {};
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) {
+      $unset[key] = '';
+    } else {
+      $set[key] = value;
+    }
+  }
+
+  return Object.keys($unset).length > 0 ? { $set, $unset } : { $set };
+};
+
+/**
+ * 转义正则表达式特殊字符
+ */
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 历史记录条目（单文件扫描或批量任务）
+ */
+export interface TaskHistoryItem {
+  type: 'scan' | 'batch';
+  id: string;
+  status: string;
+  fileNames: string[];
+  totalFiles: number;
+  completedFiles: number;
+  failedFiles: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 历史记录查询条件
+ */
+export interface TaskHistoryQuery {
+  page: number;
+  pageSize: number;
+  type?: 'scan' | 'batch';
+  status?: string;
+  from?: Date;
+  to?: Date;
+  fileName?: string;
+  keyword?: string;
+}
+
+/**
+ * 扫描任务持久化
+ */
+export class TaskStore {
+  /**
+   * 保存新的扫描任务
+   */
+  static async createScanTask(task: Omit<ScanTask, 'createdAt' | 'updatedAt'>): Promise<void> {
+    await getScanTaskModel().create(task);
+  }
+
+  /**
+   * 更新扫描任务
+   */
+  static async updateScanTask(scanId: string, patch: Partial<ScanTask>): Promise<void> {
+    await getScanTaskModel().updateOne({ scanId }, toUpdate(patch));
+  }
+
+  /**
+   * 获取扫描任务
+   */
+  static async getScanTask(scanId: string): Promise<ScanTask | null> {
+    return getScanTaskModel().findOne({ scanId }, HIDDEN_FIELDS).lean<ScanTask>();
+  }
+
+  /**
+   * 保存新的批量任务及其文件任务
+   */
+  static async createBatchTask(batchTask: Omit<BatchTask, 'createdAt' | 'updatedAt'>): Promise<void> {
+    const { files, ...record } = batchTask;
+
+    await getBatchTaskModel().create(record);
+    await getFileTaskModel().insertMany(files.map((file, order) => ({
+      ...file,
+      batchId: batchTask.batchId,
+      order
+    })));
+  }
+
+  /**
+   * 更新批量任务
+   */
+  static async updateBatchTask(batchId: string, patch: Partial<BatchTaskRecord>): Promise<void> {
+    await getBatchTaskModel().updateOne({ batchId }, toUpdate(patch));
+  }
+
+  /**
+   * 更新批量任务中的文件任务
+   */
+  static async updateFileTask(batchId: string, fileId: string, patch: Partial<FileTask>): Promise<void> {
+    await getFileTaskModel().updateOne({ batchId, fileId }, toUpdate(patch));
+  }
+
+  /**
+   * 获取批量任务中的单个文件任务
+   */
+  static async getFileTask(batchId: string, fileId: string): Promise<FileTask | null> {
+    return getFileTaskModel().findOne({ batchId, fileId }, HIDDEN_FIELDS).lean<FileTask>();
+  }
+
+  /**
+   * 获取批量任务的所有文件任务（按上传顺序）
+   */
+  static async getFileTasks(batchId: string): Promise<FileTask[]> {
+    return getFileTaskModel()
+      .find({ batchId }, FILE_LIST_FIELDS)
+      .sort({ order: 1 })
+      .lean<FileTask[]>();
+  }
+
+  /**
+   * 获取批量任务（包含文件任务）
+   */
+  static async getBatchTask(batchId: string): Promise<BatchTask | null> {
+    const record = await getBatchTaskModel().findOne({ batchId }, HIDDEN_FIELDS).lean<BatchTaskRecord>();
+    if (!record) {
+      return null;
+    }
+
+    const files = await this.getFileTasks(batchId);
+    return { ...record, files };
+  }
+
+  /**
+   * 将服务重启前未完成的任务标记为失败
+   */
+  static async failInterruptedTasks(error: string): Promise<{ scans: number; files: number; batches: string[] }> {
+    const scanResult = await getScanTaskModel().updateMany(
+      { status: { $in: ['pending', 'processing'] } },
+      { $set: { status: 'failed', error }, $unset: { estimatedTimeRemaining: '' } }
+    );
+
+    const interruptedFiles = await getFileTaskModel().find(
+      { status: { $nin: ['completed', 'failed', 'cancelled'] } },
+      { batchId: 1 }
+    ).lean();
+    const batchIds = [...new Set(interruptedFiles.map(file => file.batchId))];
+
+    const fileResult = await getFileTaskModel().updateMany(
+      { status: { $nin: ['completed', 'failed', 'cancelled'] } },
+      { $set: { status: 'failed', error }, $unset: { estimatedTimeRemaining: '' } }
+    );
+
+    return {
+      scans: scanResult.modifiedCount,
+      files: fileResult.modifiedCount,
+      batches: batchIds
+    };
+  }
+
+  /**
+   * 删除指定时间之前的任务记录
+   */
+  static async deleteTasksBefore(date: Date): Promise<{ scans: number; batches: number }> {
+    const scanResult = await getScanTaskModel().deleteMany({ updatedAt: { $lt: date } });
+
+    const expiredBatches = await getBatchTaskModel().find({ updatedAt: { $lt: date } }, { batchId: 1 }).lean();
+    const batchIds = expiredBatches.map(batch => batch.batchId);
+
+    if (batchIds.length > 0) {
+      await getFileTaskModel().deleteMany({ batchId: { $in: batchIds } });
+      await getBatchTaskModel().deleteMany({ batchId: { $in: batchIds } });
+    }
+
+    return { scans: scanResult.deletedCount, batches: batchIds.length };
+  }
+
+  /**
+   * 分页查询用户的扫描历史（单文件扫描与批量任务合并，按创建时间倒序）
+   *
+   * 关键词搜索使用正则匹配识别结果：MongoDB 文本索引不支持中文分词
+   */
+  static async listHistory(userId: string, query: TaskHistoryQuery): Promise<{ tasks: TaskHistoryItem[]; total: number }> {
+    const createdAt: Record<string, Date> = {};
+    if (query.from) createdAt.$gte = query.from;
+    if (query.to) createdAt.$lte = query.to;
+
+    const baseMatch: Record<string, any> = { userId };
+    if (query.status) baseMatch.status = query.status;
+    if (Object.keys(createdAt).length > 0) baseMatch.createdAt = createdAt;
+
+    const fileNameRegex = query.fileName ? new RegExp(escapeRegExp(query.fileName), 'i') : undefined;
+    const keywordRegex = query.keyword ? new RegExp(escapeRegExp(query.keyword), 'i') : undefined;
+
+    // 单文件扫描的过滤条件
+    const scanMatch: Record<string, any> = { ...baseMatch };
+    if (fileNameRegex) scanMatch.fileName = fileNameRegex;
+    if (keywordRegex) scanMatch.result = keywordRegex;
+
+    // 批量任务的文件名和结果存储在文件任务中，先找出匹配的批量任务
+    const batchMatch: Record<string, any> = { ...baseMatch };
+    if (fileNameRegex || keywordRegex) {
+      const userBatchIds = await getBatchTaskModel().distinct('batchId', baseMatch);
+      const fileMatch: Record<string, any> = { batchId: { $in: userBatchIds } };
+      if (fileNameRegex) fileMatch.fileName = fileNameRegex;
+      if (keywordRegex) fileMatch.result = keywordRegex;
+      batchMatch.batchId = { $in: await getFileTaskModel().distinct('batchId', fileMatch) };
+    }
+
+    const scanProjection = {
+      _id: 0,
+      type: { $literal: 'scan' },
+      id: '$scanId',
+      status: 1,
+      fileNames: [{ $ifNull: ['$fileName', ''] }],
+      totalFiles: { $literal: 1 },
+      completedFiles: { $cond: [{ $eq: ['$status', 'completed'] }, 1, 0] },
+      failedFiles: { $cond: [{ $eq: ['$status', 'failed'] }, 1, 0] },
+      createdAt: 1,
+      updatedAt: 1
+    };
+
+    const batchProjection = {
+      _id: 0,
+      type: { $literal: 'batch' },
+      id: '$batchId',
+      status: 1,
+      fileNames: { $literal: [] },
+      totalFiles: 1,
+      completedFiles: 1,
+      failedFiles: 1,
+      createdAt: 1,
+      updatedAt: 1
+    };
+
+    const page = { $facet: {
+      tasks: [{ $skip: (query.page - 1) * query.pageSize }, { $limit: query.pageSize }],
+      total: [{ $count: 'count' }]
+    } };
+
+    let pipeline: any[];
+    if (query.type === 'scan') {
+      pipeline = [{ $match: scanMatch }, { $project: scanProjection }];
+    } else if (query.type === 'batch') {
+      pipeline = [{ $match: batchMatch }, { $project: batchProjection }];
+    } else {
+      pipeline = [
+        { $match: scanMatch },
+        { $project: scanProjection },
+        { $unionWith: {
+          coll: getBatchTaskModel().collection.collectionName,
+          pipeline: [{ $match: batchMatch }, { $project: batchProjection }]
+        } }
+      ];
+    }
+    pipeline.push({ $sort: { createdAt: -1 } }, page);
+
+    const model = query.type === 'batch' ? getBatchTaskModel() : getScanTaskModel();
+    const [{ tasks, total }] = await (model as mongoose.Model<any>).aggregate(pipeline);
+
+    // 补充批量任务的文件名
+    const batchIds = (tasks as TaskHistoryItem[]).filter(task => task.type === 'batch').map(task => task.id);
+    if (batchIds.length > 0) {
+      const files = await getFileTaskModel()
+        .find({ batchId: { $in: batchIds } }, { batchId: 1, fileName: 1 })
+        .sort({ order: 1 })
+        .lean();
+      for (const task of tasks as TaskHistoryItem[]) {
+        if (task.type === 'batch') {
+          task.fileNames = files.filter(file => file.batchId === task.id).map(file => file.fileName);
+        }
+      }
+    }
+
+    return { tasks, total: total[0]?.count || 0 };
+  }
+}
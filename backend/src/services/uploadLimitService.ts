@@ -0,0 +1,48 @@
+import { config, UploadLimitOverride } from '../config';
+
+/**
+ * 当前用户的上传限制
+ */
+export interface UploadLimits {
+  maxFileSize: number; // 单个文件大小上限（字节）
+  maxFiles: number; // 批量上传的文件数上限
+}
+
+/**
+ * 上传限制：默认值来自 config.upload，可按角色（systemRole）和企业（邮箱后缀）单独放宽或收紧
+ */
+export class UploadLimitService {
+  /**
+   * 获取用户的上传限制：角色和企业均有单独设置时取较大值，都没有时使用默认值
+   */
+  static resolve(user: { systemRole?: string; enterprise?: string }): UploadLimits {
+    const overrides: UploadLimitOverride[] = [];
+    if (user.systemRole && config.upload.roleLimits[user.systemRole]) {
+      overrides.push(config.upload.roleLimits[user.systemRole]);
+    }
+    if (user.enterprise && config.upload.enterpriseLimits[user.enterprise]) {
+      overrides.push(config.upload.enterpriseLimits[user.enterprise]);
+    }
+
+    const pick = (field: keyof UploadLimitOverride, fallback: number): number => {
+      const values = overrides
+        .map(override => override[field])
+        .filter((value): value is number => typeof value === 'number' && value > 0);
+      return values.length > 0 ? Math.max(...values) : fallback;
+    };
+
+    return {
+      maxFileSize: pick('maxSize', config.upload.maxSize),
+      maxFiles: pick('maxFiles', config.upload.maxFiles)
+    };
+  }
+
+  /**
+   * 格式化文件大小上限，用于错误提示
+   */
+  static formatSize(bytes: number): string {
+    return bytes >= 1024 * 1024
+      ? `${parseFloat((bytes / 1024 / 1024).toFixed(1))}MB`
+      : `${Math.round(bytes / 1024)}KB`;
+  }
+}
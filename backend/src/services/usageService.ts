@@ -0,0 +1,128 @@
+import mongoose from 'mongoose';
+import { config } from '../config';
+import { getUsageModel } from '../models/Usage';
+import { getSharedUserModel } from '../models/SharedUser';
+
+/**
+ * 用量归属信息
+ */
+export interface UsageContext {
+  userId: string;
+  enterprise?: string;
+  taskType: 'scan' | 'batch' | 'formula';
+  taskId: string;
+  fileId?: string;
+}
+
+/**
+ * 单次识别请求的用量
+ */
+export interface UsageEntry {
+  fileType?: string;
+  pages: number;
+  durationMs: number;
+  success: boolean;
+  cached: boolean;
+  error?: string;
+}
+
+export type UsageGroupBy = 'user' | 'day' | 'enterprise';
+
+/**
+ * 用量报表查询条件
+ */
+export interface UsageReportQuery {
+  from?: Date;
+  to?: Date;
+  userId?: string;
+  enterprise?: string;
+}
+
+/**
+ * 用量报表行
+ */
+export interface UsageReportRow {
+  key: string;
+  name?: string;
+  email?: string;
+  requests: number;
+  succeeded: number;
+  failed: number;
+  cached: number;
+  pages: number;
+  totalDurationMs: number;
+  avgDurationMs: number;
+}
+
+/**
+ * Mathpix 用量统计
+ */
+export class UsageService {
+  /**
+   * 记录一次识别请求（包括命中缓存的请求，页数记为 0）
+   */
+  static async record(context: UsageContext, entry: UsageEntry): Promise<void> {
+    await getUsageModel().create({ ...context, ...entry });
+  }
+
+  /**
+   * 按用户、天或企业汇总用量
+   */
+  static async report(groupBy: UsageGroupBy, query: UsageReportQuery): Promise<UsageReportRow[]> {
+    const match: Record<string, any> = {};
+    if (query.userId) match.userId = query.userId;
+    if (query.enterprise) match.enterprise = query.enterprise;
+    if (query.from || query.to) {
+      match.createdAt = {};
+      if (query.from) match.createdAt.$gte = query.from;
+      if (query.to) match.createdAt.$lte = query.to;
+    }
+
+    const groupKey = groupBy === 'user'
+      ? '$userId'
+      : groupBy === 'enterprise'
+        ? { $ifNull: ['$enterprise', ''] }
+        : { $dateToString: { format: '%Y-%m-%d', date: '$createdAt', timezone: config.usage.timezone } };
+
+    const rows = await getUsageModel().aggregate([
+      { $match: match },
+      { $group: {
+        _id: groupKey,
+        requests: { $sum: 1 },
+        succeeded: { $sum: { $cond: ['$success', 1, 0] } },
+        failed: { $sum: { $cond: ['$success', 0, 1] } },
+        cached: { $sum: { $cond: ['$cached', 1, 0] } },
+        pages: { $sum: '$pages' },
+        totalDurationMs: { $sum: '$durationMs' }
+      } },
+      { $sort: groupBy === 'day' ? { _id: -1 } : { pages: -1, requests: -1 } }
+    ]);
+
+    const report: UsageReportRow[] = rows.map(row => ({
+      key: row._id,
+      requests: row.requests,
+      succeeded: row.succeeded,
+      failed: row.failed,
+      cached: row.cached,
+      pages: row.pages,
+      totalDurationMs: row.totalDurationMs,
+      avgDurationMs: Math.round(row.totalDurationMs / row.requests)
+    }));
+
+    // 按用户汇总时补充用户姓名和邮箱
+    if (groupBy === 'user') {
+      const userIds = report.map(row => row.key).filter(id => mongoose.isValidObjectId(id));
+      const users = await getSharedUserModel()
+        .find({ _id: { $in: userIds } }, { name: 1, email: 1 })
+        .lean();
+      const userMap = new Map(users.map(user => [user._id.toString(), user]));
+      for (const row of report) {
+        const user = userMap.get(row.key);
+        row.name = user?.name;
+        row.email = user?.email;
+      }
+    }
+
+    return report;
+  }
+}
@@ -59,6 +59,93 @@ export function getOriginalFilePath(batchId: string, fileId: string): string | n
   return path.join(batchDir, matchingFile);
 }
 
+/**
+ * 读取原始文件内容
+ */
+export function readOriginalFile(batchId: string, fileId: string): Buffer | null {
+  const filePath = getOriginalFilePath(batchId, fileId);
+
+  if (!filePath || !fs.existsSync(filePath)) {
+    return null;
+  }
+
+  return fs.readFileSync(filePath);
+}
+
+/**
+ * 题目截图文件名（q<序号>.png / q<序号>.pdf）
+ */
+const CROP_NAME_PATTERN = /^q\d+\.(png|pdf)$/;
+
+/**
+ * 获取文件的题目截图目录
+ */
+function getCropDir(batchId: string, fileId: string): string {
+  return path.join(UPLOAD_DIR, batchId, 'crops', fileId);
+}
+
+/**
+ * 保存题目截图，已有的旧截图会被清除
+ */
+export function saveQuestionCrops(batchId: string, fileId: string, crops: Array<{ name: string; buffer: Buffer }>): void {
+  const cropDir = getCropDir(batchId, fileId);
+
+  fs.rmSync(cropDir, { recursive: true, force: true });
+  fs.mkdirSync(cropDir, { recursive: true });
+
+  for (const crop of crops) {
+    fs.writeFileSync(path.join(cropDir, crop.name), crop.buffer);
+  }
+}
+
+/**
+ * 获取题目截图路径，文件名无效、文件 ID 不在批次截图目录下或截图不存在时返回 null
+ */
+export function getQuestionCropPath(batchId: string, fileId: string, name: string): string | null {
+  if (!CROP_NAME_PATTERN.test(name)) {
+    return null;
+  }
+
+  // 路由参数已解码，fileId 中的 ../ 可能指向其他批次的目录
+  const cropDir = getCropDir(batchId, fileId);
+  if (path.dirname(cropDir) !== path.join(UPLOAD_DIR, batchId, 'crops')) {
+    return null;
+  }
+
+  const filePath = path.join(cropDir, name);
+  return fs.existsSync(filePath) ? filePath : null;
+}
+
+/**
+ * 题目插图文件名
+ */
+const FIGURE_NAME_PATTERN = /^[\w-]+\.(png|jpe?g|gif|webp)$/;
+
+/**
+ * 保存题目插图到任务目录（批量任务为批次 ID，单文件扫描为扫描 ID）
+ */
+export function saveFigure(taskId: string, name: string, buffer: Buffer): void {
+  const figureDir = path.join(UPLOAD_DIR, taskId, 'figures');
+
+  if (!fs.existsSync(figureDir)) {
+    fs.mkdirSync(figureDir, { recursive: true });
+  }
+
+  fs.writeFileSync(path.join(figureDir, name), buffer);
+}
+
+/**
+ * 获取题目插图路径，文件名无效或不存在时返回 null
+ */
+export function getFigurePath(taskId: string, name: string): string | null {
+  if (!FIGURE_NAME_PATTERN.test(name)) {
+    return null;
+  }
+
+  const filePath = path.join(UPLOAD_DIR, taskId, 'figures', name);
+  return fs.existsSync(filePath) ? filePath : null;
+}
+
 /**
  * 获取原始文件信息
  */
@@ -82,11 +169,17 @@ export function getOriginalFileInfo(batchId: string, fileId: string): FileInfo |
 }
 
 /**
- * 清理过期的文件（24小时前）
+ * 识别结果引用的子目录（插图、题目截图），与任务记录保留相同的天数
  */
-export function cleanupOldFiles(): void {
-  const now = new Date();
-  const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+const RETAINED_DIRS = ['figures', 'crops'];
+
+/**
+ * 清理过期的文件：原始文件保留24小时，结果引用的插图和题目截图随任务记录保留 retentionDays 天
+ */
+export function cleanupOldFiles(retentionDays: number): void {
+  const now = Date.now();
+  const oneDayAgo = new Date(now - 24 * 60 * 60 * 1000);
+  const retentionStart = new Date(now - retentionDays * 24 * 60 * 60 * 1000);
   
   try {
     if (!fs.existsSync(UPLOAD_DIR)) {
@@ -99,10 +192,22 @@ export function cleanupOldFiles(): void {
       const batchPath = path.join(UPLOAD_DIR, batchDir);
       const stats = fs.statSync(batchPath);
       
-      // 如果批次目录超过24小时，删除整个目录
-      if (stats.birthtime < oneDayAgo) {
+      // 任务记录已过期，删除整个目录
+      if (stats.birthtime < retentionStart) {
         fs.rmSync(batchPath, { recursive: true, force: true });
         console.log(`已清理过期批次目录: ${batchDir}`);
+        continue;
+      }
+
+      // 超过24小时，只保留结果引用的子目录
+      if (stats.birthtime < oneDayAgo) {
+        const expired = fs.readdirSync(batchPath).filter(entry => !RETAINED_DIRS.includes(entry));
+        for (const entry of expired) {
+          fs.rmSync(path.join(batchPath, entry), { recursive: true, force: true });
+        }
+        if (expired.length > 0) {
+          console.log(`已清理过期原始文件: ${batchDir}`);
+        }
       }
     }
   } catch (error) {
@@ -9,6 +9,17 @@ export interface JWTPayload {
   exp?: number;
 }
 
+/**
+ * 访问令牌：只能在查询参数中访问某个任务的原始文件、截图和插图（<img>、PDF 预览无法设置请求头）
+ */
+export interface MediaTokenPayload {
+  userId: string;
+  resource: string; // 批次 ID 或扫描 ID
+  purpose: 'media';
+  iat?: number;
+  exp?: number;
+}
+
 export class JWTUtils {
   /**
    * 生成JWT token
@@ -19,6 +30,27 @@ export class JWTUtils {
     } as jwt.SignOptions);
   }
 
+  /**
+   * 生成访问某个任务文件的短期令牌
+   */
+  static generateMediaToken(userId: string, resource: string): string {
+    const payload: MediaTokenPayload = { userId, resource, purpose: 'media' };
+    return jwt.sign(payload, config.jwt.secret, {
+      expiresIn: config.jwt.mediaExpiresIn
+    } as jwt.SignOptions);
+  }
+
+  /**
+   * 验证访问令牌，令牌不属于该任务时视为无效
+   */
+  static verifyMediaToken(token: string, resource: string): MediaTokenPayload {
+    const decoded = this.verify(token) as unknown as MediaTokenPayload;
+    if (decoded.purpose !== 'media' || decoded.resource !== resource) {
+      throw new Error('令牌无效');
+    }
+    return decoded;
+  }
+
   /**
    * 验证JWT token
    */
@@ -0,0 +1,140 @@
+import { PDFDocument } from 'pdf-lib';
+
+/**
+ * 读取PDF页数，无法解析时返回 null
+ */
+export async function countPdfPages(buffer: Buffer): Promise<number | null> {
+  try {
+    const pdf = await PDFDocument.load(buffer, { ignoreEncryption: true });
+    return pdf.getPageCount();
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * 页码范围（从 1 开始，包含首尾）
+ */
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * 解析页码范围字符串（如 `3-6,8`，兼容中文逗号和连接号），格式无效时返回 null
+ */
+export function parsePageRanges(input: string): PageRange[] | null {
+  const normalized = input
+    .replace(/\s+/g, '')
+    .replace(/[，、]/g, ',')
+    .replace(/[－—–~～]/g, '-');
+  if (!normalized) {
+    return null;
+  }
+
+  const ranges: PageRange[] = [];
+  for (const part of normalized.split(',')) {
+    const match = part.match(/^(\d+)(?:-(\d+))?$/);
+    if (!match) {
+      return null;
+    }
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : start;
+    if (start < 1 || end < start) {
+      return null;
+    }
+    ranges.push({ start, end });
+  }
+
+  return ranges;
+}
+
+/**
+ * 将页码范围格式化为 Mathpix `page_ranges` 参数格式
+ */
+export function formatPageRanges(ranges: PageRange[]): string {
+  return ranges
+    .map(range => range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`)
+    .join(',');
+}
+
+/**
+ * 统计页码范围覆盖的页数（重叠部分只计一次）
+ */
+export function countRangePages(ranges: PageRange[]): number {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  let pages = 0;
+  let covered = 0; // 已统计到的最大页码
+
+  for (const range of sorted) {
+    const start = Math.max(range.start, covered + 1);
+    if (range.end >= start) {
+      pages += range.end - start + 1;
+      covered = range.end;
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * 展开页码范围为去重后升序排列的页码列表
+ */
+export function expandPageRanges(ranges: PageRange[]): number[] {
+  const pages = new Set<number>();
+  for (const range of ranges) {
+    for (let page = range.start; page <= range.end; page++) {
+      pages.add(page);
+    }
+  }
+  return Array.from(pages).sort((a, b) => a - b);
+}
+
+/**
+ * PDF分片，pages 为分片中每一页在原文件中的页码
+ */
+export interface PdfChunk {
+  buffer: Buffer;
+  pages: number[];
+}
+
+/**
+ * 超过大小或页数上限的PDF按页拆分为多个分片（指定页码范围时只保留这些页），
+ * 每个分片的页数按平均每页大小估算，使分片大小不超过上限；无需拆分或无法解析时返回 null
+ */
+export async function splitPdf(
+  buffer: Buffer,
+  pageRanges: string | undefined,
+  limits: { maxSize: number; maxPages: number }
+): Promise<PdfChunk[] | null> {
+  let source: PDFDocument;
+  try {
+    source = await PDFDocument.load(buffer, { ignoreEncryption: true });
+  } catch (error) {
+    return null;
+  }
+
+  const pageCount = source.getPageCount();
+  const ranges = pageRanges ? parsePageRanges(pageRanges) : null;
+  const pages = ranges
+    ? expandPageRanges(ranges).filter(page => page <= pageCount)
+    : Array.from({ length: pageCount }, (_, i) => i + 1);
+
+  if (pages.length === 0 || (buffer.length <= limits.maxSize && pages.length <= limits.maxPages)) {
+    return null;
+  }
+
+  const bytesPerPage = buffer.length / pageCount;
+  const chunkPages = Math.max(1, Math.min(limits.maxPages, Math.floor(limits.maxSize / bytesPerPage)));
+
+  const chunks: PdfChunk[] = [];
+  for (let i = 0; i < pages.length; i += chunkPages) {
+    const chunkPageNumbers = pages.slice(i, i + chunkPages);
+    const doc = await PDFDocument.create();
+    const copied = await doc.copyPages(source, chunkPageNumbers.map(page => page - 1));
+    copied.forEach(page => doc.addPage(page));
+    chunks.push({ buffer: Buffer.from(await doc.save()), pages: chunkPageNumbers });
+  }
+
+  return chunks;
+}
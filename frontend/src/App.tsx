@@ -5,6 +5,7 @@ import ProtectedRoute from './components/ProtectedRoute';
 import ThemeProvider from './components/ThemeProvider';
 import Login from './pages/Login';
 import Scan from './pages/Scan';
+import History from './pages/History';
 
 const App: React.FC = () => {
   const { checkAuth } = useAuthStore();
@@ -28,6 +29,14 @@ const App: React.FC = () => {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/history"
+              element={
+                <ProtectedRoute>
+                  <History />
+                </ProtectedRoute>
+              }
+            />
             <Route path="/" element={<Navigate to="/scan" replace />} />
             <Route path="*" element={<Navigate to="/scan" replace />} />
           </Routes>
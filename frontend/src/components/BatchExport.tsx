@@ -3,6 +3,7 @@ import { Download, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
 import { FileTask } from '../types';
+import { apiService } from '../services/api';
 
 interface BatchExportProps {
   files: FileTask[];
@@ -25,6 +26,44 @@ const BatchExport: React.FC<BatchExportProps> = ({
     return `${nameWithoutExt}.md`;
   };
 
+  // 添加原题截图（OCR有误时对照原题），返回截图目录中的文件名列表；下载失败的截图跳过
+  const addQuestionCrops = async (zip: JSZip, file: FileTask, folder: string) => {
+    const names: string[] = [];
+
+    for (const question of file.questions || []) {
+      if (!question.crop) continue;
+      try {
+        const blob = await apiService.getQuestionCrop(batchId, file.fileId, question.crop);
+        const ext = question.crop.split('.').pop();
+        const name = `第${question.number}题-${question.crop.replace(/\.[^.]+$/, '')}.${ext}`;
+        zip.file(`${folder}/${name}`, blob);
+        names.push(name);
+      } catch (error) {
+        console.warn(`下载第${question.number}题截图失败:`, error);
+      }
+    }
+
+    return names;
+  };
+
+  // 添加结果中引用的插图，与 \includegraphics{figures/...} 的相对路径一致；下载失败的插图跳过
+  const addFigures = async (zip: JSZip, files: FileTask[]) => {
+    const names = new Set<string>();
+    for (const file of files) {
+      for (const match of file.result!.matchAll(/\\includegraphics(?:\[[^\]]*\])?\{figures\/([\w.-]+)\}/g)) {
+        names.add(match[1]);
+      }
+    }
+
+    for (const name of names) {
+      try {
+        zip.file(`figures/${name}`, await apiService.getFigure(batchId, name));
+      } catch (error) {
+        console.warn(`下载插图 ${name} 失败:`, error);
+      }
+    }
+  };
+
   // 导出所有文件为ZIP
   const handleExportAll = async () => {
     if (isExporting) return;
@@ -40,11 +79,23 @@ const BatchExport: React.FC<BatchExportProps> = ({
         throw new Error('没有可导出的文件');
       }
 
-      // 添加每个文件的Markdown内容
-      completedFiles.forEach((file) => {
+      // 添加每个文件的Markdown内容及原题截图
+      for (const file of completedFiles) {
         const markdownFileName = generateMarkdownFileName(file.fileName);
-        zip.file(markdownFileName, file.result!);
-      });
+        const cropFolder = `${markdownFileName.replace(/\.md$/, '')}_原题截图`;
+        const cropNames = await addQuestionCrops(zip, file, cropFolder);
+
+        const cropLinks = cropNames.map(name => `- [${name}](${encodeURI(`${cropFolder}/${name}`)})`);
+        const content = cropLinks.length > 0
+          ? `${file.result}\n\n<!-- 原题截图 -->\n${cropLinks.join('\n')}\n`
+          : file.result!;
+        zip.file(markdownFileName, content);
+        if (file.answerKey) {
+          zip.file(markdownFileName.replace(/\.md$/, '_答案.md'), file.answerKey);
+        }
+      }
+
+      await addFigures(zip, completedFiles);
 
       // 创建汇总文件
       const summaryContent = generateSummaryContent(completedFiles);
@@ -109,6 +160,8 @@ const BatchExport: React.FC<BatchExportProps> = ({
         return '已完成';
       case 'failed':
         return '失败';
+      case 'cancelled':
+        return '已取消';
       case 'pending':
         return '等待中';
       case 'uploading':
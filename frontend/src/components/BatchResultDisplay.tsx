@@ -1,22 +1,37 @@
-import React, { useState } from 'react';
-import { CheckCircle, AlertCircle, Download, FileText, Eye, Loader2 } from 'lucide-react';
-import { BatchTask, FileTask } from '../types';
+import React, { useState, useCallback } from 'react';
+import { CheckCircle, AlertCircle, Download, FileText, Eye, Loader2, Ban, RotateCcw, RefreshCw, MapPin } from 'lucide-react';
+import { BatchTask, FileTask, QuestionLocation, ReconvertResponse } from '../types';
 import SimpleMarkdownDisplay from './SimpleMarkdownDisplay';
+import MarkdownDisplay from './MarkdownDisplay';
 import OriginalFileViewer from './OriginalFileViewer';
+import ReconvertPanel from './ReconvertPanel';
+import QuestionCropPreview from './QuestionCropPreview';
 import { apiService } from '../services/api';
+import { useMediaToken } from '../hooks/useMediaToken';
 
 interface BatchResultDisplayProps {
   batchTask: BatchTask;
+  scanId?: string; // 单文件扫描记录：插图和重新转换使用扫描任务的接口
   onContentChange?: (fileId: string, newContent: string) => void;
+  onRetryFile?: (fileId: string) => void;
 }
 
 const BatchResultDisplay: React.FC<BatchResultDisplayProps> = ({ 
   batchTask, 
-  onContentChange
+  scanId,
+  onContentChange,
+  onRetryFile
 }) => {
   const [selectedFileId, setSelectedFileId] = useState<string | null>(null);
   const [showOriginalFile, setShowOriginalFile] = useState(false);
   const [fileContents, setFileContents] = useState<Record<string, string>>({});
+  // 重新转换的结果，预览按其中选项的输出模板处理，答案卷以其为准
+  const [reconverted, setReconverted] = useState<Record<string, ReconvertResponse>>({});
+  const [showReconvert, setShowReconvert] = useState(false);
+  // 在原文件中高亮的题目
+  const [highlightQuestion, setHighlightQuestion] = useState<QuestionLocation | null>(null);
+  // 正在查看截图的题目序号
+  const [selectedQuestionIndex, setSelectedQuestionIndex] = useState<number | null>(null);
 
   // 获取状态图标
   const getStatusIcon = (status: string) => {
@@ -25,6 +40,8 @@ const BatchResultDisplay: React.FC<BatchResultDisplayProps> = ({
         return <CheckCircle className="w-4 h-4 text-green-500" />;
       case 'failed':
         return <AlertCircle className="w-4 h-4 text-red-500" />;
+      case 'cancelled':
+        return <Ban className="w-4 h-4 text-gray-400" />;
       case 'uploading':
       case 'mathpix-processing':
       case 'converting':
@@ -41,6 +58,8 @@ const BatchResultDisplay: React.FC<BatchResultDisplayProps> = ({
         return '已完成';
       case 'failed':
         return '失败';
+      case 'cancelled':
+        return '已取消';
       case 'pending':
         return '等待中';
       case 'uploading':
@@ -67,6 +86,8 @@ const BatchResultDisplay: React.FC<BatchResultDisplayProps> = ({
   // 处理文件选择
   const handleFileSelect = (fileId: string) => {
     setSelectedFileId(fileId);
+    setShowReconvert(false);
+    setSelectedQuestionIndex(null);
     const file = batchTask.files.find(f => f.fileId === fileId);
     if (file && file.result && !fileContents[fileId]) {
       setFileContents(prev => ({
@@ -85,13 +106,41 @@ const BatchResultDisplay: React.FC<BatchResultDisplayProps> = ({
     onContentChange?.(fileId, newContent);
   };
 
+  // 处理重新转换结果
+  const handleReconverted = (fileId: string, response: ReconvertResponse) => {
+    setReconverted(prev => ({
+      ...prev,
+      [fileId]: response
+    }));
+    handleContentChange(fileId, response.result);
+  };
+
+  // 原始文件、题目截图和插图地址中的访问令牌
+  const mediaToken = useMediaToken(scanId ? null : batchTask.batchId, scanId);
+
+  // 预览中的插图地址，访问令牌就绪前不解析
+  const figureUrlResolver = useCallback(
+    (name: string) => scanId
+      ? apiService.getScanFigureUrl(scanId, name, mediaToken!)
+      : apiService.getFigureUrl(batchTask.batchId, name, mediaToken!),
+    [batchTask.batchId, scanId, mediaToken]
+  );
+  const resolveFigureUrl = mediaToken ? figureUrlResolver : undefined;
+
   // 处理查看原文件
   const handleViewOriginal = (file: FileTask) => {
     if (file.originalFilePath) {
+      setHighlightQuestion(null);
       setShowOriginalFile(true);
     }
   };
 
+  // 在原文件中定位题目
+  const handleLocateQuestion = (question: QuestionLocation) => {
+    setHighlightQuestion(question);
+    setShowOriginalFile(true);
+  };
+
   // 处理下载单个文件
   const handleDownloadFile = (file: FileTask) => {
     if (file.result) {
@@ -110,6 +159,12 @@ const BatchResultDisplay: React.FC<BatchResultDisplayProps> = ({
   // 获取当前选中的文件
   const selectedFile = selectedFileId ? batchTask.files.find(f => f.fileId === selectedFileId) : null;
   const currentContent = selectedFileId ? fileContents[selectedFileId] || selectedFile?.result || '' : '';
+  const currentProfile = selectedFileId
+    ? (reconverted[selectedFileId]?.options || selectedFile?.convertOptions)?.profile
+    : undefined;
+  const currentAnswerKey = selectedFileId && reconverted[selectedFileId]
+    ? reconverted[selectedFileId].answerKey
+    : selectedFile?.answerKey;
 
   return (
     <div className="space-y-6">
@@ -150,10 +205,25 @@ const BatchResultDisplay: React.FC<BatchResultDisplayProps> = ({
                   ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
                   : selectedFile.status === 'failed'
                   ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+                  : selectedFile.status === 'cancelled'
+                  ? 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
                   : 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
               }`}>
                 {getStatusText(selectedFile.status)}
               </span>
+              {selectedFile.cached && (
+                <span
+                  className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+                  title="相同文件此前已识别过，直接复用了缓存结果"
+                >
+                  来自缓存
+                </span>
+              )}
+              {selectedFile.pageRanges && (
+                <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                  第 {selectedFile.pageRanges} 页
+                </span>
+              )}
             </div>
 
             <div className="flex items-center space-x-2">
@@ -169,6 +239,30 @@ const BatchResultDisplay: React.FC<BatchResultDisplayProps> = ({
                 </button>
               )}
 
+              {/* 重试按钮 */}
+              {onRetryFile && selectedFile.status === 'failed' && (
+                <button
+                  onClick={() => onRetryFile(selectedFile.fileId)}
+                  className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+                  title="重新识别该文件"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  <span>重试</span>
+                </button>
+              )}
+
+              {/* 重新转换按钮 */}
+              {selectedFile.status === 'completed' && (
+                <button
+                  onClick={() => setShowReconvert(!showReconvert)}
+                  className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+                  title="使用不同选项重新转换"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                  <span>重新转换</span>
+                </button>
+              )}
+
               {/* 下载按钮 */}
               {selectedFile.status === 'completed' && selectedFile.result && (
                 <button
@@ -183,12 +277,59 @@ const BatchResultDisplay: React.FC<BatchResultDisplayProps> = ({
             </div>
           </div>
 
+          {/* 重新转换选项 */}
+          {showReconvert && (
+            <ReconvertPanel
+              target={scanId ? { scanId } : { batchId: batchTask.batchId, fileId: selectedFile.fileId }}
+              onReconverted={(response) => handleReconverted(selectedFile.fileId, response)}
+              onClose={() => setShowReconvert(false)}
+            />
+          )}
+
+          {/* 题目定位 */}
+          {selectedFile.status === 'completed' && selectedFile.originalFilePath && selectedFile.questions && selectedFile.questions.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                <MapPin className="w-4 h-4 mr-1" />
+                原题截图：
+              </span>
+              {selectedFile.questions.map((question, index) => (
+                <button
+                  key={index}
+                  onClick={() => setSelectedQuestionIndex(selectedQuestionIndex === index ? null : index)}
+                  className={`px-2 py-1 text-xs rounded-full transition-colors ${
+                    selectedQuestionIndex === index
+                      ? 'bg-primary-600 text-white'
+                      : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-primary-100 hover:text-primary-700 dark:hover:bg-gray-600'
+                  }`}
+                  title={`第 ${question.page} 页`}
+                >
+                  第{question.number}题
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* 原题截图 */}
+          {selectedQuestionIndex !== null && selectedFile.questions?.[selectedQuestionIndex] && (
+            <QuestionCropPreview
+              batchId={batchTask.batchId}
+              fileId={selectedFile.fileId}
+              mediaToken={mediaToken}
+              question={selectedFile.questions[selectedQuestionIndex]}
+              onLocate={() => handleLocateQuestion(selectedFile.questions![selectedQuestionIndex])}
+              onClose={() => setSelectedQuestionIndex(null)}
+            />
+          )}
+
           {/* 内容显示 */}
           {selectedFile.status === 'completed' && currentContent ? (
             <SimpleMarkdownDisplay
               content={currentContent}
               fileName={selectedFile.fileName}
               onContentChange={(newContent) => handleContentChange(selectedFile.fileId, newContent)}
+              resolveFigureUrl={resolveFigureUrl}
+              profile={currentProfile}
             />
           ) : selectedFile.status === 'failed' ? (
             <div className="text-center py-12">
@@ -197,6 +338,20 @@ const BatchResultDisplay: React.FC<BatchResultDisplayProps> = ({
               <p className="text-sm text-gray-500 dark:text-gray-400">
                 {selectedFile.error || '未知错误'}
               </p>
+              {onRetryFile && (
+                <button
+                  onClick={() => onRetryFile(selectedFile.fileId)}
+                  className="btn-primary inline-flex items-center mt-4"
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  重试
+                </button>
+              )}
+            </div>
+          ) : selectedFile.status === 'cancelled' ? (
+            <div className="text-center py-12">
+              <Ban className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+              <p className="text-gray-600 dark:text-gray-400">文件处理已取消</p>
             </div>
           ) : (
             <div className="text-center py-12">
@@ -206,6 +361,16 @@ const BatchResultDisplay: React.FC<BatchResultDisplayProps> = ({
               </p>
             </div>
           )}
+
+          {/* 答案卷 */}
+          {selectedFile.status === 'completed' && currentAnswerKey && (
+            <MarkdownDisplay
+              content={currentAnswerKey}
+              fileName={`${selectedFile.fileName.replace(/\.[^/.]+$/, '')}_答案`}
+              profile={currentProfile}
+              resolveFigureUrl={resolveFigureUrl}
+            />
+          )}
         </div>
       ) : (
         <div className="text-center py-12">
@@ -215,13 +380,14 @@ const BatchResultDisplay: React.FC<BatchResultDisplayProps> = ({
       )}
 
       {/* 原始文件查看器 */}
-      {selectedFile && showOriginalFile && (
+      {selectedFile && showOriginalFile && mediaToken && (
         <OriginalFileViewer
           isOpen={showOriginalFile}
           onClose={() => setShowOriginalFile(false)}
-          fileUrl={apiService.getOriginalFileUrl(batchTask.batchId, selectedFile.fileId)}
+          fileUrl={apiService.getOriginalFileUrl(batchTask.batchId, selectedFile.fileId, mediaToken)}
           fileName={selectedFile.fileName}
           fileType={selectedFile.fileType}
+          highlight={highlightQuestion}
         />
       )}
     </div>
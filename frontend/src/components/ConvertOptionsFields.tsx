@@ -0,0 +1,107 @@
+import React from 'react';
+import { ConvertOptions, OutputProfile } from '../types';
+import { OUTPUT_PROFILES } from '../utils/latexProfiles';
+
+interface ConvertOptionsFieldsProps {
+  options: ConvertOptions;
+  onChange: (options: ConvertOptions) => void;
+  disabled?: boolean;
+}
+
+const ConvertOptionsFields: React.FC<ConvertOptionsFieldsProps> = ({ options, onChange, disabled }) => {
+  // 切换布尔选项
+  const toggleOption = (key: 'dfrac' | 'mathbb' | 'removeScores') => {
+    onChange({ ...options, [key]: !options[key] });
+  };
+
+  // 文档类自带答案环境时，题后答案统一使用该环境
+  const answerEnvironment = OUTPUT_PROFILES.find(profile => profile.value === (options.profile || 'tasks'))?.answerEnvironment;
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm text-gray-700 dark:text-gray-300">
+      <label className="flex items-center">
+        <input type="checkbox" className="mr-2" checked={!!options.dfrac} onChange={() => toggleOption('dfrac')} disabled={disabled} />
+        分数使用 \dfrac
+      </label>
+      <label className="flex items-center">
+        <input type="checkbox" className="mr-2" checked={!!options.mathbb} onChange={() => toggleOption('mathbb')} disabled={disabled} />
+        \mathbf 替换为 \mathbb
+      </label>
+      <label className="flex items-center">
+        <input type="checkbox" className="mr-2" checked={!!options.removeScores} onChange={() => toggleOption('removeScores')} disabled={disabled} />
+        移除分值信息
+      </label>
+      <label className="flex items-center">
+        <span className="mr-2">选择题每行选项数</span>
+        <select
+          className="input py-1"
+          value={options.choiceColumns || ''}
+          onChange={(e) => onChange({
+            ...options,
+            choiceColumns: e.target.value ? parseInt(e.target.value) : undefined,
+          })}
+          disabled={disabled}
+        >
+          <option value="">自动</option>
+          {[1, 2, 3, 4, 5, 6].map(columns => (
+            <option key={columns} value={columns}>{columns}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center">
+        <span className="mr-2">输出模板</span>
+        <select
+          className="input py-1"
+          value={options.profile || 'tasks'}
+          onChange={(e) => onChange({ ...options, profile: e.target.value as OutputProfile })}
+          disabled={disabled}
+        >
+          {OUTPUT_PROFILES.map(profile => (
+            <option key={profile.value} value={profile.value}>{profile.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center">
+        <span className="mr-2">题目信息</span>
+        <select
+          className="input py-1"
+          value={options.metadata || ''}
+          onChange={(e) => onChange({
+            ...options,
+            metadata: (e.target.value || undefined) as ConvertOptions['metadata'],
+          })}
+          disabled={disabled}
+        >
+          <option value="">不输出</option>
+          <option value="comment">LaTeX 注释</option>
+          <option value="macro">\questionmeta 宏</option>
+        </select>
+      </label>
+      <label className="flex items-center">
+        <span className="mr-2">答案与解析</span>
+        <select
+          className="input py-1"
+          value={answerEnvironment && options.answers === 'answer' ? 'solution' : options.answers || ''}
+          onChange={(e) => onChange({
+            ...options,
+            answers: (e.target.value || undefined) as ConvertOptions['answers'],
+          })}
+          disabled={disabled}
+        >
+          <option value="">不输出</option>
+          {answerEnvironment ? (
+            <option value="solution">题后 {answerEnvironment} 环境</option>
+          ) : (
+            <>
+              <option value="solution">题后 solution 环境</option>
+              <option value="answer">题后 answer 环境</option>
+            </>
+          )}
+          <option value="key">单独的答案卷</option>
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default ConvertOptionsFields;
@@ -0,0 +1,320 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { RotateCcw, RotateCw, Wand2, Loader2, AlertCircle } from 'lucide-react';
+
+interface ImageEditorProps {
+  file: File;
+  onSave: (file: File) => void; // 保存处理后的图片，替换原文件
+  onClose: () => void;
+}
+
+// 裁剪区域（相对旋转后图片的比例，0-1）
+interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 浏览器可直接解码、支持编辑的图片格式（HEIC、TIFF 由服务端转码）
+export const EDITABLE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/jpg', 'image/webp'];
+
+const PREVIEW_MAX_SIDE = 900;
+const OUTPUT_MAX_SIDE = 4000; // 导出图片的最大边长，兼顾识别精度与移动端画布尺寸限制
+const DESKEW_MAX_SIDE = 600;
+const DESKEW_MAX_ANGLE = 10;
+const DESKEW_STEP = 0.5;
+const MIN_CROP_SIZE = 0.02;
+
+// 按角度旋转图片（空白处填充白色）并调整对比度，maxSide 限制输出尺寸
+const renderImage = (image: HTMLImageElement, angle: number, contrast: number, maxSide: number): HTMLCanvasElement => {
+  const scale = Math.min(1, maxSide / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = image.naturalWidth * scale;
+  const height = image.naturalHeight * scale;
+  const radians = angle * Math.PI / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * cos + height * sin);
+  canvas.height = Math.round(width * sin + height * cos);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(radians);
+  ctx.drawImage(image, -width / 2, -height / 2, width, height);
+
+  if (contrast !== 100) {
+    // 逐像素调整对比度（Safari 不支持 ctx.filter）
+    const factor = contrast / 100;
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = (data[i] - 128) * factor + 128;
+      data[i + 1] = (data[i + 1] - 128) * factor + 128;
+      data[i + 2] = (data[i + 2] - 128) * factor + 128;
+    }
+    ctx.putImageData(imageData, 0, 0);
+  }
+
+  return canvas;
+};
+
+// 截取画布的裁剪区域
+const cropCanvas = (source: HTMLCanvasElement, crop: CropRect): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  const sx = Math.round(crop.x * source.width);
+  const sy = Math.round(crop.y * source.height);
+  canvas.width = Math.max(1, Math.round(crop.width * source.width));
+  canvas.height = Math.max(1, Math.round(crop.height * source.height));
+  canvas.getContext('2d')!.drawImage(source, sx, sy, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// 检测文字倾斜角度：逐个尝试小角度旋转，文字行与行间空白对比最明显（行投影方差最大）时即为水平
+const detectSkew = (image: HTMLImageElement, baseAngle: number): number => {
+  let bestAngle = 0;
+  let bestScore = -1;
+
+  for (let angle = -DESKEW_MAX_ANGLE; angle <= DESKEW_MAX_ANGLE; angle += DESKEW_STEP) {
+    const canvas = renderImage(image, baseAngle + angle, 100, DESKEW_MAX_SIDE);
+    const { data, width, height } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+
+    const rows: number[] = [];
+    for (let y = 0; y < height; y++) {
+      let dark = 0;
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        if (data[i] + data[i + 1] + data[i + 2] < 384) dark++;
+      }
+      rows.push(dark);
+    }
+    const mean = rows.reduce((sum, value) => sum + value, 0) / rows.length;
+    const score = rows.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+
+  return bestAngle;
+};
+
+const ImageEditor: React.FC<ImageEditorProps> = ({
+  file,
+  onSave,
+  onClose
+}) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [quarterTurns, setQuarterTurns] = useState(0);
+  const [skew, setSkew] = useState(0);
+  const [contrast, setContrast] = useState(100);
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  const angle = quarterTurns * 90 + skew;
+
+  // 加载图片
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => setImage(img);
+    img.onerror = () => setError('图片加载失败，无法编辑');
+    img.src = url;
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  // 参数变化时重新绘制预览
+  useEffect(() => {
+    const canvas = previewRef.current;
+    if (!image || !canvas) return;
+
+    const rendered = renderImage(image, angle, contrast, PREVIEW_MAX_SIDE);
+    canvas.width = rendered.width;
+    canvas.height = rendered.height;
+    canvas.getContext('2d')!.drawImage(rendered, 0, 0);
+  }, [image, angle, contrast]);
+
+  // 旋转后原裁剪区域不再对应，需重新框选
+  const rotate = (turns: number) => {
+    setQuarterTurns(prev => (prev + turns + 4) % 4);
+    setCrop(null);
+  };
+
+  const handleAutoDeskew = () => {
+    if (!image) return;
+    setIsDetecting(true);
+    // 让加载状态先渲染出来
+    setTimeout(() => {
+      setSkew(detectSkew(image, quarterTurns * 90));
+      setCrop(null);
+      setIsDetecting(false);
+    }, 0);
+  };
+
+  // 鼠标/触摸位置换算为预览图上的比例坐标
+  const toRelative = (event: React.PointerEvent) => {
+    const rect = previewRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = toRelative(event);
+    setCrop(null);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const start = dragStart.current;
+    if (!start) return;
+    const point = toRelative(event);
+    setCrop({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y)
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+    // 过小的选区视为误触
+    setCrop(prev => prev && prev.width > MIN_CROP_SIZE && prev.height > MIN_CROP_SIZE ? prev : null);
+  };
+
+  const handleReset = () => {
+    setQuarterTurns(0);
+    setSkew(0);
+    setContrast(100);
+    setCrop(null);
+  };
+
+  const handleSave = async () => {
+    if (!image) return;
+    setIsSaving(true);
+
+    try {
+      const rendered = renderImage(image, angle, contrast, OUTPUT_MAX_SIDE);
+      const output = crop ? cropCanvas(rendered, crop) : rendered;
+      const type = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+      const blob = await new Promise<Blob | null>(resolve => output.toBlob(resolve, type, 0.92));
+      if (!blob) {
+        throw new Error('图片导出失败');
+      }
+
+      const name = `${file.name.replace(/\.[^.]+$/, '')}.${type === 'image/png' ? 'png' : 'jpg'}`;
+      onSave(new File([blob], name, { type, lastModified: Date.now() }));
+      onClose();
+    } catch (error) {
+      console.error('图片处理失败:', error);
+      setError('图片处理失败，请重试');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-600 space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+        <button onClick={() => rotate(-1)} className="btn-outline text-xs flex items-center" disabled={!image} title="向左旋转90°">
+          <RotateCcw className="w-4 h-4" />
+        </button>
+        <button onClick={() => rotate(1)} className="btn-outline text-xs flex items-center" disabled={!image} title="向右旋转90°">
+          <RotateCw className="w-4 h-4" />
+        </button>
+        <button onClick={handleAutoDeskew} className="btn-outline text-xs flex items-center" disabled={!image || isDetecting}>
+          {isDetecting ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Wand2 className="w-4 h-4 mr-1" />}
+          自动校正
+        </button>
+        <label className="flex items-center gap-2">
+          倾斜
+          <input
+            type="range"
+            min={-15}
+            max={15}
+            step={0.5}
+            value={skew}
+            onChange={(e) => { setSkew(parseFloat(e.target.value)); setCrop(null); }}
+            disabled={!image}
+          />
+          <span className="w-10 text-xs text-gray-500 dark:text-gray-400">{skew}°</span>
+        </label>
+        <label className="flex items-center gap-2">
+          对比度
+          <input
+            type="range"
+            min={50}
+            max={250}
+            step={10}
+            value={contrast}
+            onChange={(e) => setContrast(parseInt(e.target.value))}
+            disabled={!image}
+          />
+          <span className="w-10 text-xs text-gray-500 dark:text-gray-400">{contrast}%</span>
+        </label>
+        <button onClick={handleReset} className="text-xs text-gray-500 dark:text-gray-400 hover:underline" disabled={!image}>
+          重置
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        在图片上拖动框选要保留的区域{crop ? '，重新拖动可调整选区' : '，不框选则保留整张图片'}
+      </p>
+
+      <div className="flex justify-center max-h-[28rem] overflow-auto">
+        {!image && !error && (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        )}
+        <div
+          className={`relative inline-block overflow-hidden touch-none cursor-crosshair ${image ? '' : 'hidden'}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        >
+          <canvas ref={previewRef} className="block max-w-full max-h-[26rem] select-none" />
+          {crop && (
+            <div
+              className="absolute border-2 border-primary-500 pointer-events-none"
+              style={{
+                left: `${crop.x * 100}%`,
+                top: `${crop.y * 100}%`,
+                width: `${crop.width * 100}%`,
+                height: `${crop.height * 100}%`,
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.4)'
+              }}
+            />
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center text-sm text-red-600 dark:text-red-400">
+          <AlertCircle className="w-4 h-4 mr-2" />
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <button onClick={onClose} className="btn-outline text-sm">
+          取消
+        </button>
+        <button onClick={handleSave} className="btn-primary text-sm flex items-center" disabled={!image || isSaving}>
+          {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          应用
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditor;
@@ -4,13 +4,17 @@ import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
 import rehypeRaw from 'rehype-raw';
 import { Copy, Download, Check, Eye, EyeOff } from 'lucide-react';
+import { OutputProfile } from '../types';
+import { normalizeProfile } from '../utils/latexProfiles';
 
 interface MarkdownDisplayProps {
   content: string;
   fileName?: string;
+  profile?: OutputProfile; // 转换时使用的输出模板
+  resolveFigureUrl?: (name: string) => string; // 将本地插图文件名解析为可访问的地址
 }
 
-const MarkdownDisplay: React.FC<MarkdownDisplayProps> = ({ content, fileName }) => {
+const MarkdownDisplay: React.FC<MarkdownDisplayProps> = ({ content, fileName, profile, resolveFigureUrl }) => {
   const [copied, setCopied] = useState(false);
   const [showRaw, setShowRaw] = useState(false);
 
@@ -38,8 +42,20 @@ const MarkdownDisplay: React.FC<MarkdownDisplayProps> = ({ content, fileName })
 
   // 预处理内容，将LaTeX环境转换为Markdown格式
   const preprocessContent = (text: string): string => {
-    let processed = text;
+    let processed = normalizeProfile(text, profile);
+
+    // 本地插图（LaTeX 中 figures/ 下的相对路径，或 MMD 中的本地接口地址）转换为可访问的地址
+    if (resolveFigureUrl) {
+      processed = processed.replace(/\\includegraphics(?:\[[^\]]*\])?\{figures\/([\w.-]+)\}/g, (_, name) => `![${name}](${resolveFigureUrl(name)})`);
+      processed = processed.replace(/\]\(\/api\/scan\/(?:batch|result)\/[\w-]+\/figures\/([\w.-]+)\)/g, (_, name) => `](${resolveFigureUrl(name)})`);
+    }
     
+    // 处理 \begin{subproblem} 环境 - 小问下的分项转换为 ①、② 编号
+    processed = processed.replace(/\\begin\{subproblem\}([\s\S]*?)\\end\{subproblem\}/g, (_, content) => {
+      const items = content.split(/\\item\b/).map((item: string) => item.trim()).filter(Boolean);
+      return items.map((item: string, index: number) => `${'①②③④⑤⑥⑦⑧⑨⑩'[index] || ''}${item}`).join(' ');
+    });
+
     // 处理 \begin{problem} 环境 - 转换为Markdown列表
     processed = processed.replace(/\\begin\{problem\}([\s\S]*?)\\end\{problem\}/g, (match, content) => {
       // 提取 \item 内容并转换为Markdown编号列表
@@ -1,30 +1,44 @@
 import React, { useCallback, useState, useEffect } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, FileText, AlertCircle, CheckCircle, X, FolderOpen, Image, File } from 'lucide-react';
+import { Upload, FileText, AlertCircle, CheckCircle, X, FolderOpen, Image, File, Play, Layers, Crop } from 'lucide-react';
+import PdfPagePicker from './PdfPagePicker';
+import ImageEditor, { EDITABLE_IMAGE_TYPES } from './ImageEditor';
 
 interface MultiFileUploaderProps {
-  onFilesSelect: (files: File[]) => void;
+  // 点击"开始扫描"时提交，pageRanges 与 files 顺序对应，空字符串表示识别整份文件
+  onFilesSelect: (files: File[], pageRanges: string[]) => void;
   isUploading: boolean;
   error?: string;
   maxFiles?: number;
+  maxFileSize?: number; // 单个文件大小上限（字节）
 }
 
 const MultiFileUploader: React.FC<MultiFileUploaderProps> = ({ 
   onFilesSelect, 
   isUploading, 
   error,
-  maxFiles = 10 
+  maxFiles = 10,
+  maxFileSize = 10 * 1024 * 1024
 }) => {
   const [dragActive, setDragActive] = useState(false);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [pageRanges, setPageRanges] = useState<string[]>([]);
+  // 正在选择页码的文件序号
+  const [pickerIndex, setPickerIndex] = useState<number | null>(null);
+  // 正在编辑的图片序号
+  const [editorIndex, setEditorIndex] = useState<number | null>(null);
+
+  // 添加文件，超出数量上限的部分忽略
+  const addFiles = useCallback((files: File[]) => {
+    setSelectedFiles(prev => [...prev, ...files].slice(0, maxFiles));
+    setPageRanges(prev => [...prev, ...files.map(() => '')].slice(0, maxFiles));
+  }, [maxFiles]);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
-      const newFiles = [...selectedFiles, ...acceptedFiles].slice(0, maxFiles);
-      setSelectedFiles(newFiles);
-      onFilesSelect(newFiles);
+      addFiles(acceptedFiles);
     }
-  }, [selectedFiles, onFilesSelect, maxFiles]);
+  }, [addFiles]);
 
   // 处理粘贴事件
   const handlePaste = useCallback((event: ClipboardEvent) => {
@@ -37,17 +51,20 @@ const MultiFileUploader: React.FC<MultiFileUploaderProps> = ({
       if (item.kind === 'file') {
         const file = item.getAsFile();
         if (file) {
-          const allowedTypes = ['application/pdf', 'image/png', 'image/jpeg', 'image/jpg'];
-          if (allowedTypes.includes(file.type) && file.size <= 2 * 1024 * 1024) {
-            const newFiles = [...selectedFiles, file].slice(0, maxFiles);
-            setSelectedFiles(newFiles);
-            onFilesSelect(newFiles);
+          const allowedTypes = ['application/pdf', 'image/png', 'image/jpeg', 'image/jpg', 'image/webp', 'image/tiff', 'image/heic', 'image/heif'];
+          if (allowedTypes.includes(file.type) && file.size <= maxFileSize) {
+            addFiles([file]);
             event.preventDefault();
+            // 粘贴的截图/照片直接打开编辑器，便于裁掉无关区域
+            if (EDITABLE_IMAGE_TYPES.includes(file.type) && selectedFiles.length < maxFiles) {
+              setPickerIndex(null);
+              setEditorIndex(selectedFiles.length);
+            }
           }
         }
       }
     }
-  }, [selectedFiles, onFilesSelect, maxFiles]);
+  }, [addFiles, maxFileSize, maxFiles, selectedFiles.length]);
 
   // 添加粘贴事件监听器
   useEffect(() => {
@@ -59,15 +76,35 @@ const MultiFileUploader: React.FC<MultiFileUploaderProps> = ({
 
   // 移除文件
   const removeFile = (index: number) => {
-    const newFiles = selectedFiles.filter((_, i) => i !== index);
-    setSelectedFiles(newFiles);
-    onFilesSelect(newFiles);
+    setSelectedFiles(prev => prev.filter((_, i) => i !== index));
+    setPageRanges(prev => prev.filter((_, i) => i !== index));
+    setPickerIndex(null);
+    setEditorIndex(null);
   };
 
   // 清空所有文件
   const clearAllFiles = () => {
     setSelectedFiles([]);
-    onFilesSelect([]);
+    setPageRanges([]);
+    setPickerIndex(null);
+    setEditorIndex(null);
+  };
+
+  // 设置PDF的识别页码
+  const updatePageRanges = (index: number, value: string) => {
+    setPageRanges(prev => prev.map((ranges, i) => i === index ? value : ranges));
+  };
+
+  // 用编辑后的图片替换原文件
+  const replaceFile = (index: number, file: File) => {
+    setSelectedFiles(prev => prev.map((f, i) => i === index ? file : f));
+  };
+
+  // 开始扫描
+  const handleStartScan = () => {
+    setPickerIndex(null);
+    setEditorIndex(null);
+    onFilesSelect(selectedFiles, pageRanges);
   };
 
   // 格式化文件大小
@@ -81,7 +118,7 @@ const MultiFileUploader: React.FC<MultiFileUploaderProps> = ({
 
   // 获取文件类型图标
   const getFileIcon = (file: File) => {
-    if (file.type.startsWith('image/')) {
+    if (file.type.startsWith('image/') || /\.(heic|heif)$/i.test(file.name)) {
       return <Image className="w-4 h-4 text-blue-500" />;
     } else if (file.type === 'application/pdf') {
       return <File className="w-4 h-4 text-red-500" />;
@@ -94,10 +131,15 @@ const MultiFileUploader: React.FC<MultiFileUploaderProps> = ({
     accept: {
       'application/pdf': ['.pdf'],
       'image/png': ['.png'],
-      'image/jpeg': ['.jpg', '.jpeg']
+      'image/jpeg': ['.jpg', '.jpeg'],
+      // 以下格式上传后由服务端转码，多页TIFF按一份文档识别
+      'image/webp': ['.webp'],
+      'image/tiff': ['.tif', '.tiff'],
+      'image/heic': ['.heic'],
+      'image/heif': ['.heif']
     },
     maxFiles: maxFiles,
-    maxSize: 2 * 1024 * 1024, // 2MB per file
+    maxSize: maxFileSize,
     onDragEnter: () => setDragActive(true),
     onDragLeave: () => setDragActive(false),
     onDropAccepted: () => setDragActive(false),
@@ -146,11 +188,11 @@ const MultiFileUploader: React.FC<MultiFileUploaderProps> = ({
               <div className="flex items-center text-xs text-gray-500 dark:text-gray-400 space-x-4">
                 <div className="flex items-center">
                   <FileText className="w-4 h-4 mr-1" />
-                  支持PDF、PNG、JPG、JPEG
+                  支持PDF、PNG、JPG、JPEG、HEIC、WebP、TIFF
                 </div>
                 <div className="flex items-center">
                   <CheckCircle className="w-4 h-4 mr-1" />
-                  最大2MB/文件
+                  最大{formatFileSize(maxFileSize)}/文件
                 </div>
                 <div className="flex items-center">
                   <FolderOpen className="w-4 h-4 mr-1" />
@@ -177,32 +219,86 @@ const MultiFileUploader: React.FC<MultiFileUploaderProps> = ({
             </button>
           </div>
           
-          <div className="space-y-2 max-h-48 overflow-y-auto">
+          <div className="space-y-2 max-h-[28rem] overflow-y-auto">
             {selectedFiles.map((file, index) => (
-              <div
-                key={`${file.name}-${index}`}
-                className="flex items-center justify-between p-2 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-600"
-              >
-                <div className="flex items-center space-x-2 flex-1 min-w-0">
-                  {getFileIcon(file)}
-                  <div className="min-w-0 flex-1">
-                    <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
-                      {file.name}
-                    </div>
-                    <div className="text-xs text-gray-500 dark:text-gray-400">
-                      {formatFileSize(file.size)}
+              <div key={`${file.name}-${index}`}>
+                <div
+                  className="flex items-center justify-between p-2 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-600"
+                >
+                  <div className="flex items-center space-x-2 flex-1 min-w-0">
+                    {getFileIcon(file)}
+                    <div className="min-w-0 flex-1">
+                      <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {file.name}
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatFileSize(file.size)}
+                        {file.type === 'application/pdf' && (
+                          <span className="ml-2">{pageRanges[index] ? `第 ${pageRanges[index]} 页` : '全部页'}</span>
+                        )}
+                      </div>
                     </div>
                   </div>
+                  {EDITABLE_IMAGE_TYPES.includes(file.type) && (
+                    <button
+                      onClick={() => { setPickerIndex(null); setEditorIndex(editorIndex === index ? null : index); }}
+                      disabled={isUploading}
+                      className="flex items-center px-2 py-1 mr-1 text-xs text-gray-600 dark:text-gray-300 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                      title="裁剪、旋转、校正倾斜、调整对比度"
+                    >
+                      <Crop className="w-4 h-4 mr-1" />
+                      编辑图片
+                    </button>
+                  )}
+                  {file.type === 'application/pdf' && (
+                    <button
+                      onClick={() => { setEditorIndex(null); setPickerIndex(pickerIndex === index ? null : index); }}
+                      disabled={isUploading}
+                      className="flex items-center px-2 py-1 mr-1 text-xs text-gray-600 dark:text-gray-300 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                      title="选择要识别的页码"
+                    >
+                      <Layers className="w-4 h-4 mr-1" />
+                      选择页码
+                    </button>
+                  )}
+                  <button
+                    onClick={() => removeFile(index)}
+                    disabled={isUploading}
+                    className="p-1 text-gray-400 hover:text-red-500 dark:hover:text-red-400 transition-colors"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
                 </div>
-                <button
-                  onClick={() => removeFile(index)}
-                  className="p-1 text-gray-400 hover:text-red-500 dark:hover:text-red-400 transition-colors"
-                >
-                  <X className="w-4 h-4" />
-                </button>
+                {pickerIndex === index && (
+                  <PdfPagePicker
+                    file={file}
+                    value={pageRanges[index]}
+                    onChange={(value) => updatePageRanges(index, value)}
+                    onClose={() => setPickerIndex(null)}
+                  />
+                )}
+                {editorIndex === index && (
+                  <ImageEditor
+                    key={`${file.name}-${file.lastModified}`}
+                    file={file}
+                    onSave={(edited) => replaceFile(index, edited)}
+                    onClose={() => setEditorIndex(null)}
+                  />
+                )}
               </div>
             ))}
           </div>
+
+          <div className="flex justify-end mt-3">
+            <button
+              onClick={handleStartScan}
+              disabled={isUploading}
+              className="btn-primary flex items-center text-sm"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              开始扫描
+            </button>
+          </div>
         </div>
       )}
 
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Document, Page, pdfjs } from 'react-pdf';
 import { X, Download, Loader2, AlertCircle } from 'lucide-react';
+import { QuestionLocation, QuestionRegion } from '../types';
 
 // 设置PDF.js worker
 pdfjs.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjs.version}/pdf.worker.min.js`;
@@ -11,6 +12,7 @@ interface OriginalFileViewerProps {
   fileUrl: string;
   fileName: string;
   fileType: string;
+  highlight?: QuestionLocation | null; // 高亮显示的题目区域
 }
 
 const OriginalFileViewer: React.FC<OriginalFileViewerProps> = ({
@@ -18,22 +20,53 @@ const OriginalFileViewer: React.FC<OriginalFileViewerProps> = ({
   onClose,
   fileUrl,
   fileName,
-  fileType
+  fileType,
+  highlight
 }) => {
   const [numPages, setNumPages] = useState<number | null>(null);
   const [pageNumber, setPageNumber] = useState(1);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // 图片的原始宽度与显示宽度，用于换算高亮区域
+  const [imageSize, setImageSize] = useState<{ natural: number; displayed: number } | null>(null);
 
   // 重置状态当文件变化时
   useEffect(() => {
     if (isOpen) {
-      setPageNumber(1);
       setIsLoading(true);
       setError(null);
     }
   }, [isOpen, fileUrl]);
 
+  // 有高亮题目时跳到题目所在页
+  useEffect(() => {
+    if (isOpen) {
+      setPageNumber(highlight?.page || 1);
+    }
+  }, [isOpen, fileUrl, highlight]);
+
+  // 渲染当前页的高亮区域，scale 为显示尺寸与识别时页面尺寸之比
+  const renderHighlights = (page: number, getScale: (region: QuestionRegion) => number | null) => {
+    return highlight?.regions
+      .filter(region => region.page === page)
+      .map((region, index) => {
+        const scale = getScale(region);
+        if (!scale) return null;
+        return (
+          <div
+            key={index}
+            className="absolute border-2 border-yellow-500 bg-yellow-300/20 rounded pointer-events-none"
+            style={{
+              left: region.x * scale,
+              top: region.y * scale,
+              width: region.width * scale,
+              height: region.height * scale,
+            }}
+          />
+        );
+      });
+  };
+
   // 处理PDF加载成功
   const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
     setNumPages(numPages);
@@ -49,7 +82,9 @@ const OriginalFileViewer: React.FC<OriginalFileViewerProps> = ({
   };
 
   // 处理图片加载
-  const handleImageLoad = () => {
+  const handleImageLoad = (event: React.SyntheticEvent<HTMLImageElement>) => {
+    const image = event.currentTarget;
+    setImageSize({ natural: image.naturalWidth, displayed: image.clientWidth });
     setIsLoading(false);
     setError(null);
   };
@@ -69,17 +104,10 @@ const OriginalFileViewer: React.FC<OriginalFileViewerProps> = ({
     document.body.removeChild(link);
   };
 
-  // 渲染PDF
-  const renderPDF = () => {
-    if (isLoading) {
-      return (
-        <div className="flex items-center justify-center h-96">
-          <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
-          <span className="ml-2 text-gray-600 dark:text-gray-400">加载PDF中...</span>
-        </div>
-      );
-    }
+  const pdfWidth = Math.min(800, window.innerWidth - 100);
 
+  // 渲染PDF（加载中的提示由 Document 的 loading 显示）
+  const renderPDF = () => {
     if (error) {
       return (
         <div className="flex items-center justify-center h-96">
@@ -129,29 +157,23 @@ const OriginalFileViewer: React.FC<OriginalFileViewerProps> = ({
               </div>
             }
           >
-            <Page
-              pageNumber={pageNumber}
-              width={Math.min(800, window.innerWidth - 100)}
-              renderTextLayer={false}
-              renderAnnotationLayer={false}
-            />
+            <div className="relative">
+              <Page
+                pageNumber={pageNumber}
+                width={pdfWidth}
+                renderTextLayer={false}
+                renderAnnotationLayer={false}
+              />
+              {renderHighlights(pageNumber, region => region.pageWidth ? pdfWidth / region.pageWidth : null)}
+            </div>
           </Document>
         </div>
       </div>
     );
   };
 
-  // 渲染图片
+  // 渲染图片（加载完成前隐藏图片，显示加载提示）
   const renderImage = () => {
-    if (isLoading) {
-      return (
-        <div className="flex items-center justify-center h-96">
-          <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
-          <span className="ml-2 text-gray-600 dark:text-gray-400">加载图片中...</span>
-        </div>
-      );
-    }
-
     if (error) {
       return (
         <div className="flex items-center justify-center h-96">
@@ -165,13 +187,22 @@ const OriginalFileViewer: React.FC<OriginalFileViewerProps> = ({
 
     return (
       <div className="flex justify-center">
-        <img
-          src={fileUrl}
-          alt={fileName}
-          className="max-w-full max-h-[80vh] object-contain rounded-lg shadow-lg"
-          onLoad={handleImageLoad}
-          onError={handleImageError}
-        />
+        {isLoading && (
+          <div className="flex items-center justify-center h-96">
+            <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+            <span className="ml-2 text-gray-600 dark:text-gray-400">加载图片中...</span>
+          </div>
+        )}
+        <div className={`relative ${isLoading ? 'invisible' : ''}`}>
+          <img
+            src={fileUrl}
+            alt={fileName}
+            className="max-w-full max-h-[80vh] object-contain rounded-lg shadow-lg"
+            onLoad={handleImageLoad}
+            onError={handleImageError}
+          />
+          {imageSize && renderHighlights(1, region => imageSize.displayed / (region.pageWidth || imageSize.natural))}
+        </div>
       </div>
     );
   };
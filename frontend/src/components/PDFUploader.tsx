@@ -6,9 +6,10 @@ interface PDFUploaderProps {
   onFileSelect: (file: File) => void;
   isUploading: boolean;
   error?: string;
+  maxFileSize?: number; // 文件大小上限（字节）
 }
 
-const PDFUploader: React.FC<PDFUploaderProps> = ({ onFileSelect, isUploading, error }) => {
+const PDFUploader: React.FC<PDFUploaderProps> = ({ onFileSelect, isUploading, error, maxFileSize = 10 * 1024 * 1024 }) => {
   const [dragActive, setDragActive] = useState(false);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
@@ -30,14 +31,14 @@ const PDFUploader: React.FC<PDFUploaderProps> = ({ onFileSelect, isUploading, er
         const file = item.getAsFile();
         if (file) {
           // 检查文件类型是否支持
-          const allowedTypes = ['application/pdf', 'image/png', 'image/jpeg', 'image/jpg'];
+          const allowedTypes = ['application/pdf', 'image/png', 'image/jpeg', 'image/jpg', 'image/webp', 'image/tiff', 'image/heic', 'image/heif'];
           if (allowedTypes.includes(file.type)) {
-            // 检查文件大小（2MB限制）
-            if (file.size <= 2 * 1024 * 1024) {
+            // 检查文件大小
+            if (file.size <= maxFileSize) {
               onFileSelect(file);
               event.preventDefault();
             } else {
-              console.warn('粘贴的文件超过2MB限制');
+              console.warn('粘贴的文件超过大小限制');
             }
           } else {
             console.warn('不支持的文件类型:', file.type);
@@ -45,7 +46,7 @@ const PDFUploader: React.FC<PDFUploaderProps> = ({ onFileSelect, isUploading, er
         }
       }
     }
-  }, [onFileSelect]);
+  }, [onFileSelect, maxFileSize]);
 
   // 添加粘贴事件监听器
   useEffect(() => {
@@ -60,10 +61,15 @@ const PDFUploader: React.FC<PDFUploaderProps> = ({ onFileSelect, isUploading, er
     accept: {
       'application/pdf': ['.pdf'],
       'image/png': ['.png'],
-      'image/jpeg': ['.jpg', '.jpeg']
+      'image/jpeg': ['.jpg', '.jpeg'],
+      // 以下格式上传后由服务端转码，多页TIFF按一份文档识别
+      'image/webp': ['.webp'],
+      'image/tiff': ['.tif', '.tiff'],
+      'image/heic': ['.heic'],
+      'image/heif': ['.heif']
     },
     maxFiles: 1,
-    maxSize: 2 * 1024 * 1024, // 2MB
+    maxSize: maxFileSize,
     onDragEnter: () => setDragActive(true),
     onDragLeave: () => setDragActive(false),
     onDropAccepted: () => setDragActive(false),
@@ -111,11 +117,11 @@ const PDFUploader: React.FC<PDFUploaderProps> = ({ onFileSelect, isUploading, er
               <div className="flex items-center text-xs text-gray-500 dark:text-gray-400 space-x-4">
                 <div className="flex items-center">
                   <FileText className="w-4 h-4 mr-1" />
-                  支持PDF、PNG、JPG、JPEG
+                  支持PDF、PNG、JPG、JPEG、HEIC、WebP、TIFF
                 </div>
                 <div className="flex items-center">
                   <CheckCircle className="w-4 h-4 mr-1" />
-                  最大2MB
+                  最大{Math.round(maxFileSize / 1024 / 1024)}MB
                 </div>
               </div>
             </>
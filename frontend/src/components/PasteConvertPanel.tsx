@@ -0,0 +1,111 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Loader2, AlertCircle } from 'lucide-react';
+import ConvertOptionsFields from './ConvertOptionsFields';
+import MarkdownDisplay from './MarkdownDisplay';
+import { apiService } from '../services/api';
+import { ConvertOptions, OutputProfile } from '../types';
+
+// 停止输入后多久开始转换
+const CONVERT_DELAY = 500;
+
+const PasteConvertPanel: React.FC = () => {
+  const [text, setText] = useState('');
+  const [options, setOptions] = useState<ConvertOptions>({
+    dfrac: true,
+    mathbb: true,
+    removeScores: true,
+  });
+  const [result, setResult] = useState('');
+  const [answerKey, setAnswerKey] = useState<string>();
+  // 结果对应的输出模板，选项变化后到新结果返回前仍按原模板预览
+  const [resultProfile, setResultProfile] = useState<OutputProfile>();
+  const [isConverting, setIsConverting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // 只采用最后一次请求的结果，避免较早的响应覆盖新结果
+  const requestRef = useRef(0);
+
+  // 文本或选项变化后实时转换
+  useEffect(() => {
+    const requestId = ++requestRef.current;
+    if (!text.trim()) {
+      setResult('');
+      setAnswerKey(undefined);
+      setError(null);
+      setIsConverting(false);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      setIsConverting(true);
+      try {
+        const response = await apiService.convertText(text, options);
+        if (requestId !== requestRef.current) return;
+        if (response.success && response.data) {
+          setResult(response.data.result);
+          setAnswerKey(response.data.answerKey);
+          setResultProfile(response.data.options.profile);
+          setError(null);
+        } else {
+          setError(response.error || '转换失败');
+        }
+      } catch (error: any) {
+        if (requestId !== requestRef.current) return;
+        console.error('文本转换失败:', error);
+        setError(error.response?.data?.error || '转换失败');
+      } finally {
+        if (requestId === requestRef.current) {
+          setIsConverting(false);
+        }
+      }
+    }, CONVERT_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [text, options]);
+
+  return (
+    <div className="space-y-4">
+      <ConvertOptionsFields options={options} onChange={setOptions} />
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <div className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+            粘贴 MMD / Markdown 文本
+          </div>
+          <textarea
+            className="input w-full h-96 font-mono text-sm resize-y"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="粘贴 Mathpix 或其他工具导出的 MMD / Markdown，右侧实时显示转换后的 LaTeX"
+          />
+        </div>
+
+        <div>
+          <div className="flex items-center mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+            转换结果
+            {isConverting && <Loader2 className="w-4 h-4 ml-2 animate-spin text-blue-600" />}
+          </div>
+          {error && (
+            <div className="flex items-center mb-2 text-sm text-red-600 dark:text-red-400">
+              <AlertCircle className="w-4 h-4 mr-2" />
+              {error}
+            </div>
+          )}
+          {result ? (
+            <div className="space-y-4">
+              <MarkdownDisplay content={result} fileName="converted" profile={resultProfile} />
+              {answerKey && (
+                <MarkdownDisplay content={answerKey} fileName="converted_答案" profile={resultProfile} />
+              )}
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-96 rounded-lg border border-dashed border-gray-300 dark:border-gray-600 text-sm text-gray-500 dark:text-gray-400">
+              暂无内容
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PasteConvertPanel;
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Document, Page, pdfjs } from 'react-pdf';
+import { Check, Loader2, AlertCircle } from 'lucide-react';
+
+// 设置PDF.js worker
+pdfjs.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjs.version}/pdf.worker.min.js`;
+
+interface PdfPagePickerProps {
+  file: File;
+  value: string; // 页码范围，如 "3-6,8"，空字符串表示全部页
+  onChange: (value: string) => void;
+  onClose: () => void;
+}
+
+// 解析页码范围，格式无效或超出页数时返回 null
+const parseRanges = (input: string, numPages: number): Set<number> | null => {
+  const normalized = input.replace(/\s+/g, '').replace(/[，、]/g, ',').replace(/[－—–~～]/g, '-');
+  const pages = new Set<number>();
+  if (!normalized) return pages;
+
+  for (const part of normalized.split(',')) {
+    const match = part.match(/^(\d+)(?:-(\d+))?$/);
+    if (!match) return null;
+    const start = parseInt(match[1]);
+    const end = match[2] ? parseInt(match[2]) : start;
+    if (start < 1 || end < start || end > numPages) return null;
+    for (let page = start; page <= end; page++) {
+      pages.add(page);
+    }
+  }
+  return pages;
+};
+
+// 将选中的页码合并为范围字符串
+const formatRanges = (pages: Set<number>): string => {
+  const sorted = Array.from(pages).sort((a, b) => a - b);
+  const parts: string[] = [];
+  let start = sorted[0];
+
+  sorted.forEach((page, index) => {
+    const next = sorted[index + 1];
+    if (next !== page + 1) {
+      parts.push(start === page ? `${page}` : `${start}-${page}`);
+      start = next;
+    }
+  });
+  return parts.join(',');
+};
+
+const PdfPagePicker: React.FC<PdfPagePickerProps> = ({
+  file,
+  value,
+  onChange,
+  onClose
+}) => {
+  const [numPages, setNumPages] = useState<number | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [rangeInput, setRangeInput] = useState(value);
+  const [error, setError] = useState<string | null>(null);
+
+  // PDF加载完成后按已有范围初始化选中页，未指定时选中全部
+  const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
+    setNumPages(numPages);
+    const pages = value ? parseRanges(value, numPages) : null;
+    const initial = pages && pages.size > 0
+      ? pages
+      : new Set(Array.from({ length: numPages }, (_, i) => i + 1));
+    setSelected(initial);
+    setRangeInput(formatRanges(initial));
+  };
+
+  const onDocumentLoadError = (error: Error) => {
+    console.error('PDF加载失败:', error);
+    setError('PDF文件加载失败，无法预览页面');
+  };
+
+  const updateSelected = (pages: Set<number>) => {
+    setSelected(pages);
+    setRangeInput(formatRanges(pages));
+    setError(null);
+  };
+
+  // 点击缩略图切换选中状态
+  const togglePage = (page: number) => {
+    const pages = new Set(selected);
+    if (pages.has(page)) {
+      pages.delete(page);
+    } else {
+      pages.add(page);
+    }
+    updateSelected(pages);
+  };
+
+  // 手动输入页码范围
+  const handleRangeInput = (input: string) => {
+    setRangeInput(input);
+    if (!numPages) return;
+
+    const pages = parseRanges(input, numPages);
+    if (pages) {
+      setSelected(pages);
+      setError(null);
+    } else {
+      setError(`页码范围无效（共 ${numPages} 页，示例：3-6,8）`);
+    }
+  };
+
+  const selectAll = () => {
+    if (numPages) {
+      updateSelected(new Set(Array.from({ length: numPages }, (_, i) => i + 1)));
+    }
+  };
+
+  const handleConfirm = () => {
+    // 选中全部页时不传页码范围
+    onChange(selected.size === numPages ? '' : formatRanges(selected));
+    onClose();
+  };
+
+  return (
+    <div className="mt-2 p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-600 space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+        <span>识别页码</span>
+        <input
+          type="text"
+          className="input py-1 w-40"
+          value={rangeInput}
+          onChange={(e) => handleRangeInput(e.target.value)}
+          placeholder="如 3-6,8"
+          disabled={!numPages}
+        />
+        <button onClick={selectAll} className="text-xs text-primary-600 dark:text-primary-400 hover:underline" disabled={!numPages}>
+          全选
+        </button>
+        <button onClick={() => updateSelected(new Set())} className="text-xs text-gray-500 dark:text-gray-400 hover:underline" disabled={!numPages}>
+          清空
+        </button>
+        {numPages && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            已选 {selected.size}/{numPages} 页
+          </span>
+        )}
+      </div>
+
+      <div className="max-h-72 overflow-y-auto">
+        <Document
+          file={file}
+          onLoadSuccess={onDocumentLoadSuccess}
+          onLoadError={onDocumentLoadError}
+          loading={
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+              <span className="ml-2 text-sm text-gray-600 dark:text-gray-400">加载PDF中...</span>
+            </div>
+          }
+          error={<div />}
+        >
+          <div className="grid grid-cols-3 sm:grid-cols-5 md:grid-cols-6 gap-2">
+            {numPages && Array.from({ length: numPages }, (_, i) => i + 1).map(page => (
+              <button
+                key={page}
+                onClick={() => togglePage(page)}
+                className={`relative rounded border-2 overflow-hidden transition-colors ${
+                  selected.has(page)
+                    ? 'border-primary-500 dark:border-primary-400'
+                    : 'border-transparent opacity-50 hover:opacity-80'
+                }`}
+              >
+                <Page
+                  pageNumber={page}
+                  width={96}
+                  renderTextLayer={false}
+                  renderAnnotationLayer={false}
+                />
+                <span className="absolute bottom-0 inset-x-0 text-xs bg-black/50 text-white text-center">
+                  {page}
+                </span>
+                {selected.has(page) && (
+                  <span className="absolute top-1 right-1 w-4 h-4 rounded-full bg-primary-600 flex items-center justify-center">
+                    <Check className="w-3 h-3 text-white" />
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        </Document>
+      </div>
+
+      {error && (
+        <div className="flex items-center text-sm text-red-600 dark:text-red-400">
+          <AlertCircle className="w-4 h-4 mr-2" />
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <button onClick={onClose} className="btn-outline text-sm">
+          取消
+        </button>
+        <button onClick={handleConfirm} className="btn-primary text-sm" disabled={!numPages || selected.size === 0 || !!error}>
+          确定
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PdfPagePicker;
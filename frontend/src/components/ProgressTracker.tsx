@@ -1,18 +1,24 @@
 import React from 'react';
-import { CheckCircle, Clock, AlertCircle, Loader2 } from 'lucide-react';
+import { CheckCircle, Clock, AlertCircle, Loader2, Ban, X } from 'lucide-react';
 import { FileTask, BatchTask } from '../types';
 
 interface ProgressTrackerProps {
   batchTask?: BatchTask;
   singleFile?: FileTask;
   isSingleMode?: boolean;
+  onCancelBatch?: () => void;
+  onCancelFile?: (fileId: string) => void;
 }
 
 const ProgressTracker: React.FC<ProgressTrackerProps> = ({ 
   batchTask, 
   singleFile, 
-  isSingleMode = false 
+  isSingleMode = false,
+  onCancelBatch,
+  onCancelFile
 }) => {
+  // 可以取消的文件状态
+  const isCancellable = (status: string) => !['completed', 'failed', 'cancelled'].includes(status);
 
   // 获取状态图标
   const getStatusIcon = (status: string, isProcessing: boolean = false) => {
@@ -25,6 +31,8 @@ const ProgressTracker: React.FC<ProgressTrackerProps> = ({
         return <CheckCircle className="w-4 h-4 text-green-500" />;
       case 'failed':
         return <AlertCircle className="w-4 h-4 text-red-500" />;
+      case 'cancelled':
+        return <Ban className="w-4 h-4 text-gray-400" />;
       case 'pending':
         return <Clock className="w-4 h-4 text-gray-400" />;
       default:
@@ -47,6 +55,8 @@ const ProgressTracker: React.FC<ProgressTrackerProps> = ({
         return '已完成';
       case 'failed':
         return '处理失败';
+      case 'cancelled':
+        return '已取消';
       default:
         return '处理中';
     }
@@ -105,7 +115,7 @@ const ProgressTracker: React.FC<ProgressTrackerProps> = ({
             </div>
           </div>
 
-          {singleFile.estimatedTimeRemaining && (
+          {!!singleFile.estimatedTimeRemaining && (
             <div className="text-sm text-gray-600 dark:text-gray-400">
               预计剩余时间: {formatTime(singleFile.estimatedTimeRemaining)}
             </div>
@@ -126,6 +136,15 @@ const ProgressTracker: React.FC<ProgressTrackerProps> = ({
           <span className="text-sm text-gray-600 dark:text-gray-400">
             {getStatusText(batchTask.status)}
           </span>
+          {onCancelBatch && isCancellable(batchTask.status) && (
+            <button
+              onClick={onCancelBatch}
+              className="btn-outline flex items-center text-sm ml-2"
+            >
+              <Ban className="w-4 h-4 mr-1" />
+              取消全部
+            </button>
+          )}
         </div>
       </div>
 
@@ -174,7 +193,7 @@ const ProgressTracker: React.FC<ProgressTrackerProps> = ({
         )}
 
         {/* 预估剩余时间 */}
-        {batchTask.estimatedTimeRemaining && batchTask.status === 'processing' && (
+        {!!batchTask.estimatedTimeRemaining && batchTask.status === 'processing' && (
           <div className="text-sm text-gray-600 dark:text-gray-400 text-center">
             预计剩余时间: {formatTime(batchTask.estimatedTimeRemaining)}
           </div>
@@ -195,10 +214,24 @@ const ProgressTracker: React.FC<ProgressTrackerProps> = ({
                 </span>
               </div>
               <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+                {file.status === 'mathpix-processing' && !!file.estimatedTimeRemaining && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    约{formatTime(file.estimatedTimeRemaining)}
+                  </span>
+                )}
                 <span>{file.progress}%</span>
                 {file.error && (
                   <span className="text-red-500" title={file.error}>!</span>
                 )}
+                {onCancelFile && isCancellable(file.status) && (
+                  <button
+                    onClick={() => onCancelFile(file.fileId)}
+                    className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                    title="取消该文件"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
               </div>
             </div>
           ))}
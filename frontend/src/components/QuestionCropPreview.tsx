@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Document, Page, pdfjs } from 'react-pdf';
+import { Loader2, MapPin, X } from 'lucide-react';
+import { apiService } from '../services/api';
+import { QuestionLocation } from '../types';
+
+// 设置PDF.js worker
+pdfjs.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjs.version}/pdf.worker.min.js`;
+
+interface QuestionCropPreviewProps {
+  batchId: string;
+  fileId: string;
+  mediaToken: string | null; // 截图地址中的访问令牌，未就绪时不加载
+  question: QuestionLocation;
+  onLocate: () => void;
+  onClose: () => void;
+}
+
+const QuestionCropPreview: React.FC<QuestionCropPreviewProps> = ({
+  batchId,
+  fileId,
+  mediaToken,
+  question,
+  onLocate,
+  onClose
+}) => {
+  const [numPages, setNumPages] = useState(0);
+  const cropUrl = question.crop && mediaToken ? apiService.getQuestionCropUrl(batchId, fileId, question.crop, mediaToken) : null;
+
+  return (
+    <div className="card space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-gray-900 dark:text-white">
+          第{question.number}题原题截图
+          <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">第 {question.page} 页</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={onLocate}
+            className="flex items-center text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+          >
+            <MapPin className="w-4 h-4 mr-1" />
+            在原文件中定位
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            title="关闭"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex justify-center overflow-x-auto">
+        {!question.crop ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 py-6">暂无截图，可在原文件中查看</p>
+        ) : !cropUrl ? (
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600 my-6" />
+        ) : question.crop!.endsWith('.pdf') ? (
+          <Document
+            file={cropUrl}
+            onLoadSuccess={({ numPages }) => setNumPages(numPages)}
+            loading={<Loader2 className="w-6 h-6 animate-spin text-blue-600 my-6" />}
+            error={<p className="text-sm text-red-600 dark:text-red-400 py-6">截图加载失败</p>}
+          >
+            {Array.from({ length: numPages }, (_, i) => (
+              <Page
+                key={i}
+                pageNumber={i + 1}
+                width={Math.min(720, window.innerWidth - 120)}
+                renderTextLayer={false}
+                renderAnnotationLayer={false}
+              />
+            ))}
+          </Document>
+        ) : (
+          <img src={cropUrl} alt={`第${question.number}题`} className="max-w-full rounded border border-gray-200 dark:border-gray-700" />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuestionCropPreview;
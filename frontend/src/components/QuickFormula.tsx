@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useDropzone } from 'react-dropzone';
+import katex from 'katex';
+import { Sigma, Copy, Check, Loader2, AlertCircle } from 'lucide-react';
+import { apiService } from '../services/api';
+import { FormulaResult } from '../types';
+
+interface QuickFormulaProps {
+  force?: boolean; // 跳过结果缓存，强制重新识别
+  maxFileSize?: number; // 文件大小上限（字节）
+  onRecognized?: () => void; // 识别结束后回调（如刷新配额）
+}
+
+// 结果中展示的各种表示形式
+const FORMAT_FIELDS: Array<{ key: 'latex' | 'latexStyled' | 'asciimath' | 'mathml'; label: string }> = [
+  { key: 'latex', label: 'LaTeX' },
+  { key: 'latexStyled', label: '带样式 LaTeX' },
+  { key: 'asciimath', label: 'AsciiMath' },
+  { key: 'mathml', label: 'MathML' }
+];
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/jpg', 'image/webp', 'image/tiff', 'image/heic', 'image/heif'];
+
+const QuickFormula: React.FC<QuickFormulaProps> = ({ force = false, maxFileSize = 10 * 1024 * 1024, onRecognized }) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [result, setResult] = useState<FormulaResult | null>(null);
+  const [isRecognizing, setIsRecognizing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedKey, setCopiedKey] = useState<string | null>(null);
+
+  useEffect(() => () => { if (previewUrl) URL.revokeObjectURL(previewUrl); }, [previewUrl]);
+
+  const recognize = useCallback(async (file: File) => {
+    if (file.size > maxFileSize) {
+      setError('图片超过大小限制');
+      return;
+    }
+
+    setPreviewUrl(URL.createObjectURL(file));
+    setResult(null);
+    setError(null);
+    setIsRecognizing(true);
+
+    try {
+      const response = await apiService.recognizeFormula(file, { force });
+      if (!response.success || !response.data) {
+        throw new Error(response.error || '公式识别失败');
+      }
+      setResult(response.data);
+    } catch (error: any) {
+      console.error('公式识别失败:', error);
+      setError(error.response?.data?.error || error.message || '公式识别失败');
+    } finally {
+      setIsRecognizing(false);
+      onRecognized?.();
+    }
+  }, [force, maxFileSize, onRecognized]);
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    if (acceptedFiles.length > 0) {
+      recognize(acceptedFiles[0]);
+    }
+  }, [recognize]);
+
+  // 支持直接粘贴截图
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isRecognizing) return;
+      const file = Array.from(event.clipboardData?.files || []).find(item => IMAGE_TYPES.includes(item.type));
+      if (file) {
+        event.preventDefault();
+        recognize(file);
+      }
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [recognize, isRecognizing]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      'image/png': ['.png'],
+      'image/jpeg': ['.jpg', '.jpeg'],
+      'image/webp': ['.webp'],
+      'image/tiff': ['.tif', '.tiff'],
+      'image/heic': ['.heic'],
+      'image/heif': ['.heif']
+    },
+    maxFiles: 1,
+    disabled: isRecognizing
+  });
+
+  const handleCopy = async (key: string, value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopiedKey(key);
+      setTimeout(() => setCopiedKey(null), 2000);
+    } catch (err) {
+      console.error('复制失败:', err);
+    }
+  };
+
+  // 用 KaTeX 渲染预览，无法渲染时不显示
+  const renderPreview = (latex: string): string | null => {
+    try {
+      return katex.renderToString(latex, { displayMode: true, throwOnError: true });
+    } catch {
+      return null;
+    }
+  };
+
+  const previewHtml = result?.latex ? renderPreview(result.latex) : null;
+
+  return (
+    <div className="space-y-4">
+      <div
+        {...getRootProps()}
+        className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+          isDragActive
+            ? 'border-primary-400 bg-primary-50 dark:bg-primary-900/20'
+            : 'border-gray-300 dark:border-gray-600 hover:border-primary-400'
+        } ${isRecognizing ? 'opacity-50 cursor-not-allowed' : ''}`}
+      >
+        <input {...getInputProps()} />
+        <Sigma className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          拖拽、点击选择或直接粘贴一张只包含单个公式的图片
+        </p>
+      </div>
+
+      {previewUrl && (
+        <div className="flex justify-center">
+          <img src={previewUrl} alt="公式图片" className="max-h-32 max-w-full rounded border border-gray-200 dark:border-gray-700" />
+        </div>
+      )}
+
+      {isRecognizing && (
+        <div className="flex items-center justify-center py-4 text-gray-600 dark:text-gray-400">
+          <Loader2 className="w-5 h-5 animate-spin text-blue-600 mr-2" />
+          识别中...
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center text-sm text-red-600 dark:text-red-400">
+          <AlertCircle className="w-4 h-4 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-3">
+          {previewHtml && (
+            <div
+              className="p-3 overflow-x-auto bg-gray-50 dark:bg-gray-900 rounded-lg text-gray-900 dark:text-white"
+              dangerouslySetInnerHTML={{ __html: previewHtml }}
+            />
+          )}
+
+          {FORMAT_FIELDS.filter(field => result[field.key]).map(field => (
+            <div key={field.key}>
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{field.label}</span>
+                <button
+                  onClick={() => handleCopy(field.key, result[field.key]!)}
+                  className="flex items-center text-xs text-gray-500 dark:text-gray-400 hover:text-primary-600"
+                  title={`复制 ${field.label}`}
+                >
+                  {copiedKey === field.key ? <Check className="w-4 h-4 mr-1 text-green-600" /> : <Copy className="w-4 h-4 mr-1" />}
+                  {copiedKey === field.key ? '已复制' : '复制'}
+                </button>
+              </div>
+              <pre className="p-2 text-xs font-mono whitespace-pre-wrap break-all bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded max-h-40 overflow-y-auto">
+                {result[field.key]}
+              </pre>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuickFormula;
@@ -0,0 +1,71 @@
+import React, { useState, useEffect } from 'react';
+import { Gauge } from 'lucide-react';
+import { apiService } from '../services/api';
+import { QuotaMeter, QuotaStatus } from '../types';
+
+interface QuotaIndicatorProps {
+  // 变化时重新获取配额
+  refreshKey?: number;
+}
+
+// 格式化单项配额，0 表示不限制
+const formatMeter = (meter: QuotaMeter, unit: string) =>
+  meter.limit > 0 ? `${meter.used}/${meter.limit} ${unit}` : `${meter.used} ${unit}（不限）`;
+
+const QuotaIndicator: React.FC<QuotaIndicatorProps> = ({ refreshKey }) => {
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiService.getQuota()
+      .then(response => {
+        if (!cancelled && response.success && response.data) {
+          setQuota(response.data);
+        }
+      })
+      .catch(error => {
+        console.error('获取配额失败:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  if (!quota) {
+    return null;
+  }
+
+  const { monthlyPages, dailyFiles } = quota.user;
+  const percent = monthlyPages.limit > 0
+    ? Math.min(100, Math.round((monthlyPages.used / monthlyPages.limit) * 100))
+    : 0;
+  const barColor = percent >= 90 ? 'bg-red-500' : percent >= 70 ? 'bg-yellow-500' : 'bg-primary-600';
+
+  const title = [
+    `本月页数：${formatMeter(monthlyPages, '页')}`,
+    `今日文件：${formatMeter(dailyFiles, '个')}`,
+    ...(quota.enterprise ? [
+      `企业（${quota.enterprise.key}）本月页数：${formatMeter(quota.enterprise.monthlyPages, '页')}`,
+      `企业今日文件：${formatMeter(quota.enterprise.dailyFiles, '个')}`,
+    ] : []),
+  ].join('\n');
+
+  return (
+    <div className="hidden md:flex items-center text-xs text-gray-600 dark:text-gray-400" title={title}>
+      <Gauge className="w-4 h-4 mr-2" />
+      <div className="flex flex-col">
+        <span>本月 {formatMeter(monthlyPages, '页')}</span>
+        {monthlyPages.limit > 0 && (
+          <div className="w-24 h-1 mt-0.5 bg-gray-200 dark:bg-gray-700 rounded">
+            <div className={`h-1 rounded ${barColor}`} style={{ width: `${percent}%` }} />
+          </div>
+        )}
+      </div>
+      <span className="ml-3">今日 {formatMeter(dailyFiles, '个')}</span>
+    </div>
+  );
+};
+
+export default QuotaIndicator;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { RefreshCw, Loader2, AlertCircle } from 'lucide-react';
+import ConvertOptionsFields from './ConvertOptionsFields';
+import { apiService } from '../services/api';
+import { ConvertOptions, ReconvertResponse, ReconvertTarget } from '../types';
+
+interface ReconvertPanelProps {
+  target: ReconvertTarget;
+  onReconverted: (response: ReconvertResponse) => void;
+  onClose: () => void;
+}
+
+const ReconvertPanel: React.FC<ReconvertPanelProps> = ({
+  target,
+  onReconverted,
+  onClose
+}) => {
+  const [options, setOptions] = useState<ConvertOptions>({
+    dfrac: true,
+    mathbb: true,
+    removeScores: true,
+  });
+  const [isConverting, setIsConverting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 提交重新转换
+  const handleReconvert = async () => {
+    setIsConverting(true);
+    setError(null);
+
+    try {
+      const response = await apiService.reconvert(target, options);
+      if (response.success && response.data) {
+        onReconverted(response.data);
+        onClose();
+      } else {
+        setError(response.error || '重新转换失败');
+      }
+    } catch (error: any) {
+      console.error('重新转换失败:', error);
+      setError(error.response?.data?.error || '重新转换失败');
+    } finally {
+      setIsConverting(false);
+    }
+  };
+
+  return (
+    <div className="card space-y-3">
+      <div className="text-sm font-medium text-gray-900 dark:text-white">
+        使用已保存的识别结果重新转换（不会重新调用Mathpix）
+      </div>
+
+      <ConvertOptionsFields options={options} onChange={setOptions} />
+
+      {error && (
+        <div className="flex items-center text-sm text-red-600 dark:text-red-400">
+          <AlertCircle className="w-4 h-4 mr-2" />
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <button onClick={onClose} className="btn-outline text-sm" disabled={isConverting}>
+          取消
+        </button>
+        <button onClick={handleReconvert} className="btn-primary flex items-center text-sm" disabled={isConverting}>
+          {isConverting ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="w-4 h-4 mr-2" />
+          )}
+          重新转换
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReconvertPanel;
@@ -0,0 +1,320 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Scissors, X, Loader2, AlertCircle } from 'lucide-react';
+import MarkdownDisplay from './MarkdownDisplay';
+import { apiService } from '../services/api';
+import { useMediaToken } from '../hooks/useMediaToken';
+import { ScanResult } from '../types';
+
+interface ScreenSnipProps {
+  onScanned?: () => void; // 识别结束后回调（如刷新配额）
+}
+
+type SnipPhase = 'idle' | 'selecting' | 'scanning' | 'done' | 'error';
+
+// 选区（相对截图的比例，0-1）
+interface SnipRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const POLL_INTERVAL = 1000;
+const POLL_MAX_ATTEMPTS = 120;
+const MIN_SELECTION_SIZE = 0.01;
+
+// 浏览器是否支持屏幕捕获（移动端浏览器通常不支持）
+const isSupported = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getDisplayMedia;
+
+// 捕获所选屏幕/窗口的当前画面，捕获后立即停止共享
+const captureScreen = async (): Promise<HTMLCanvasElement> => {
+  const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+  try {
+    const video = document.createElement('video');
+    video.srcObject = stream;
+    video.muted = true;
+    await video.play();
+    // 等待画面稳定（部分浏览器开始共享时首帧为黑屏）
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')!.drawImage(video, 0, 0);
+    return canvas;
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+  }
+};
+
+// 按选区截取截图，导出为PNG
+const cropToBlob = (source: HTMLCanvasElement, rect: SnipRect): Promise<Blob | null> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(rect.width * source.width));
+  canvas.height = Math.max(1, Math.round(rect.height * source.height));
+  canvas.getContext('2d')!.drawImage(
+    source,
+    Math.round(rect.x * source.width), Math.round(rect.y * source.height), canvas.width, canvas.height,
+    0, 0, canvas.width, canvas.height
+  );
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/png'));
+};
+
+const ScreenSnip: React.FC<ScreenSnipProps> = ({ onScanned }) => {
+  const [phase, setPhase] = useState<SnipPhase>('idle');
+  const [screenshotUrl, setScreenshotUrl] = useState<string | null>(null);
+  const [snipUrl, setSnipUrl] = useState<string | null>(null);
+  const [selection, setSelection] = useState<SnipRect | null>(null);
+  const [result, setResult] = useState<ScanResult | null>(null);
+  // 结果中插图地址的访问令牌
+  const mediaToken = useMediaToken(null, result?.scanId);
+  const [error, setError] = useState<string | null>(null);
+  const screenshotRef = useRef<HTMLCanvasElement | null>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  // 关闭后不再处理进行中的识别
+  const activeRef = useRef(false);
+
+  // 释放截图占用的内存
+  useEffect(() => () => { if (screenshotUrl) URL.revokeObjectURL(screenshotUrl); }, [screenshotUrl]);
+  useEffect(() => () => { if (snipUrl) URL.revokeObjectURL(snipUrl); }, [snipUrl]);
+
+  const close = () => {
+    activeRef.current = false;
+    screenshotRef.current = null;
+    setPhase('idle');
+    setScreenshotUrl(null);
+    setSnipUrl(null);
+    setSelection(null);
+    setResult(null);
+    setError(null);
+  };
+
+  // 框选时按 Esc 取消
+  useEffect(() => {
+    if (phase !== 'selecting') return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') close();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [phase]);
+
+  const handleStart = async () => {
+    try {
+      const canvas = await captureScreen();
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) return;
+
+      activeRef.current = true;
+      screenshotRef.current = canvas;
+      setScreenshotUrl(URL.createObjectURL(blob));
+      setSelection(null);
+      setPhase('selecting');
+    } catch (error: any) {
+      // 用户取消选择共享内容时不提示
+      if (error?.name !== 'NotAllowedError' && error?.name !== 'AbortError') {
+        console.error('屏幕捕获失败:', error);
+        alert('屏幕捕获失败，请检查浏览器权限');
+      }
+    }
+  };
+
+  // 鼠标位置换算为截图上的比例坐标
+  const toRelative = (event: React.PointerEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = toRelative(event);
+    setSelection(null);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const start = dragStart.current;
+    if (!start) return;
+    const point = toRelative(event);
+    setSelection({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y)
+    });
+  };
+
+  // 松开鼠标即提交识别
+  const handlePointerUp = () => {
+    dragStart.current = null;
+    if (selection && selection.width > MIN_SELECTION_SIZE && selection.height > MIN_SELECTION_SIZE) {
+      submitSnip(selection);
+    } else {
+      setSelection(null);
+    }
+  };
+
+  // 轮询单文件扫描任务直到结束
+  const waitForResult = async (scanId: string): Promise<ScanResult> => {
+    for (let attempt = 0; attempt < POLL_MAX_ATTEMPTS && activeRef.current; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+      const status = await apiService.getScanStatus(scanId);
+      if (status.data?.status === 'completed') {
+        const response = await apiService.getScanResult(scanId);
+        if (response.success && response.data) {
+          return response.data;
+        }
+        throw new Error(response.error || '获取识别结果失败');
+      }
+      if (status.data?.status === 'failed') {
+        throw new Error(status.data.error || '识别失败');
+      }
+    }
+    throw new Error('识别超时，请稍后在历史记录中查看');
+  };
+
+  // 截取选区并作为图片提交扫描
+  const submitSnip = async (rect: SnipRect) => {
+    const screenshot = screenshotRef.current;
+    if (!screenshot) return;
+
+    setPhase('scanning');
+    try {
+      const blob = await cropToBlob(screenshot, rect);
+      if (!blob) {
+        throw new Error('截图导出失败');
+      }
+      setSnipUrl(URL.createObjectURL(blob));
+
+      const file = new File([blob], `snip-${Date.now()}.png`, { type: 'image/png' });
+      const response = await apiService.uploadFile(file);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || '上传失败');
+      }
+
+      const scanResult = await waitForResult(response.data.scanId);
+      if (!activeRef.current) return;
+      setResult(scanResult);
+      setPhase('done');
+    } catch (error: any) {
+      if (!activeRef.current) return;
+      console.error('截屏识别失败:', error);
+      setError(error.response?.data?.error || error.message || '截屏识别失败');
+      setPhase('error');
+    } finally {
+      onScanned?.();
+    }
+  };
+
+  if (!isSupported) return null;
+
+  return (
+    <>
+      <button
+        onClick={handleStart}
+        disabled={phase !== 'idle'}
+        className="btn-outline flex items-center text-sm"
+        title="捕获屏幕并框选公式区域进行识别"
+      >
+        <Scissors className="w-4 h-4 mr-2" />
+        截屏识别
+      </button>
+
+      {/* 框选区域 */}
+      {phase === 'selecting' && screenshotUrl && (
+        <div className="fixed inset-0 z-50 bg-black/80 flex flex-col">
+          <div className="flex items-center justify-between px-4 py-2 text-sm text-white">
+            <span>拖动鼠标框选要识别的区域，松开后开始识别；按 Esc 取消</span>
+            <button onClick={close} className="p-1 text-gray-300 hover:text-white" title="取消">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="flex-1 flex items-center justify-center overflow-hidden p-4">
+            <div
+              className="relative inline-block overflow-hidden touch-none cursor-crosshair select-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              <img
+                ref={imageRef}
+                src={screenshotUrl}
+                alt="屏幕截图"
+                className="block max-w-full max-h-[calc(100vh-5rem)]"
+                draggable={false}
+              />
+              {selection && (
+                <div
+                  className="absolute border-2 border-primary-400 pointer-events-none"
+                  style={{
+                    left: `${selection.x * 100}%`,
+                    top: `${selection.y * 100}%`,
+                    width: `${selection.width * 100}%`,
+                    height: `${selection.height * 100}%`,
+                    boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)'
+                  }}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* 识别进度与结果 */}
+      {(phase === 'scanning' || phase === 'done' || phase === 'error') && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={close} />
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-hidden">
+              <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">截屏识别</h3>
+                <button
+                  onClick={close}
+                  className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+                  title="关闭"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="p-4 overflow-y-auto max-h-[calc(90vh-80px)] space-y-4">
+                {snipUrl && (
+                  <div className="flex justify-center">
+                    <img src={snipUrl} alt="截取区域" className="max-h-40 max-w-full rounded border border-gray-200 dark:border-gray-700" />
+                  </div>
+                )}
+
+                {phase === 'scanning' && (
+                  <div className="flex items-center justify-center py-8 text-gray-600 dark:text-gray-400">
+                    <Loader2 className="w-6 h-6 animate-spin text-blue-600 mr-2" />
+                    识别中...
+                  </div>
+                )}
+
+                {phase === 'error' && (
+                  <div className="flex items-center text-sm text-red-600 dark:text-red-400">
+                    <AlertCircle className="w-4 h-4 mr-2" />
+                    {error}
+                  </div>
+                )}
+
+                {phase === 'done' && result && (
+                  <MarkdownDisplay
+                    content={result.rawResult || result.result}
+                    fileName="snip"
+                    resolveFigureUrl={mediaToken ? (name) => apiService.getScanFigureUrl(result.scanId, name, mediaToken) : undefined}
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ScreenSnip;
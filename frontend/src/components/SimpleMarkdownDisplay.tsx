@@ -9,6 +9,8 @@ import { oneDark } from '@codemirror/theme-one-dark';
 import { Extension } from '@codemirror/state';
 import { Decoration, DecorationSet, ViewPlugin, ViewUpdate } from '@codemirror/view';
 import { useThemeStore } from '../stores/themeStore';
+import { OutputProfile } from '../types';
+import { normalizeProfile } from '../utils/latexProfiles';
 
 export type ViewMode = 'raw' | 'edit' | 'preview';
 
@@ -93,13 +95,17 @@ interface SimpleMarkdownDisplayProps {
   fileName?: string;
   onContentChange?: (newContent: string) => void;
   className?: string;
+  resolveFigureUrl?: (name: string) => string; // 将 figures/ 下的插图文件名解析为可访问的地址
+  profile?: OutputProfile; // 转换时使用的输出模板
 }
 
 const SimpleMarkdownDisplay: React.FC<SimpleMarkdownDisplayProps> = ({
   content,
   fileName,
   onContentChange,
-  className = ''
+  className = '',
+  resolveFigureUrl,
+  profile
 }) => {
   const [viewMode, setViewMode] = useState<ViewMode>('preview');
   const [editContent, setEditContent] = useState(content);
@@ -114,7 +120,7 @@ const SimpleMarkdownDisplay: React.FC<SimpleMarkdownDisplayProps> = ({
   // 当编辑内容变化时，重新处理内容
   useEffect(() => {
     setProcessedContent(preprocessContent(editContent));
-  }, [editContent]);
+  }, [editContent, resolveFigureUrl, profile]);
 
   // 处理内容变化
   const handleContentChange = (newContent: string) => {
@@ -124,8 +130,14 @@ const SimpleMarkdownDisplay: React.FC<SimpleMarkdownDisplayProps> = ({
 
   // 预处理内容（与MarkdownDisplay.tsx保持一致）
   const preprocessContent = (text: string): string => {
-    let processed = text;
+    let processed = normalizeProfile(text, profile);
     
+    // 处理 \begin{subproblem} 环境 - 小问下的分项转换为 ①、② 编号
+    processed = processed.replace(/\\begin\{subproblem\}([\s\S]*?)\\end\{subproblem\}/g, (_, content) => {
+      const items = content.split(/\\item\b/).map((item: string) => item.trim()).filter(Boolean);
+      return items.map((item: string, index: number) => `${'①②③④⑤⑥⑦⑧⑨⑩'[index] || ''}${item}`).join(' ');
+    });
+
     // 处理 \begin{problem} 环境 - 转换为Markdown列表
     processed = processed.replace(/\\begin\{problem\}([\s\S]*?)\\end\{problem\}/g, (match, content) => {
       const itemPattern = /\\item\s*([\s\S]*?)(?=\\item|$)/g;
@@ -175,6 +187,13 @@ const SimpleMarkdownDisplay: React.FC<SimpleMarkdownDisplayProps> = ({
     // 处理 \dotfill（\qquad \qquad）命令 - 转换为简单括号格式
     processed = processed.replace(/\\dotfill（\\qquad \\qquad）/g, '（       ）');
     processed = processed.replace(/\\dotfill\(\\qquad \\qquad\)/g, '（       ）');
+
+    // 处理 \includegraphics 插图 - 转换为Markdown图片
+    if (resolveFigureUrl) {
+      processed = processed.replace(/\\includegraphics(?:\[[^\]]*\])?\{figures\/([\w.-]+)\}/g, (_, name) => {
+        return `![${name}](${resolveFigureUrl(name)})`;
+      });
+    }
     
     // 处理普通的 \item 命令 - 转换为Markdown编号列表
     // 先保护所有特殊环境，避免在环境内部处理\item
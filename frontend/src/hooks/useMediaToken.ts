@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { apiService } from '../services/api';
+
+// 到期前多久刷新访问令牌
+const REFRESH_BEFORE_EXPIRY = 5 * 60 * 1000;
+
+/**
+ * 获取任务文件（原始文件、题目截图、插图）的短期访问令牌，到期前自动刷新；
+ * 批次 ID 和扫描 ID 都为空时不获取，令牌未就绪时返回 null
+ */
+export const useMediaToken = (batchId?: string | null, scanId?: string | null): string | null => {
+  const [token, setToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    setToken(null);
+    if (!batchId && !scanId) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let active = true;
+
+    const refresh = async () => {
+      try {
+        const response = await apiService.getMediaToken(scanId ? { scanId } : { batchId: batchId! });
+        if (!active || !response.success || !response.data) return;
+        setToken(response.data.token);
+        const delay = new Date(response.data.expiresAt).getTime() - Date.now() - REFRESH_BEFORE_EXPIRY;
+        timer = setTimeout(refresh, Math.max(delay, 60 * 1000));
+      } catch (error) {
+        console.error('获取访问令牌失败:', error);
+      }
+    };
+
+    refresh();
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [batchId, scanId]);
+
+  return token;
+};
+
+export default useMediaToken;
@@ -0,0 +1,356 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, FileText, Search, ChevronLeft, ChevronRight, Loader2, AlertCircle, Files, File } from 'lucide-react';
+import { apiService } from '../services/api';
+import { useAuthStore } from '../stores/authStore';
+import BatchResultDisplay from '../components/BatchResultDisplay';
+import ThemeToggle from '../components/ThemeToggle';
+import { BatchTask, TaskHistoryItem, TaskHistoryQuery, ConvertOptions } from '../types';
+
+const PAGE_SIZE = 20;
+
+const History: React.FC = () => {
+  const { user } = useAuthStore();
+
+  const [tasks, setTasks] = useState<TaskHistoryItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 筛选条件（输入中）与已提交的筛选条件
+  const [filters, setFilters] = useState<TaskHistoryQuery>({});
+  const [appliedFilters, setAppliedFilters] = useState<TaskHistoryQuery>({});
+
+  // 重新打开的任务
+  const [openedTask, setOpenedTask] = useState<BatchTask | null>(null);
+  // 打开的是单文件扫描时为扫描 ID
+  const [openedScanId, setOpenedScanId] = useState<string | null>(null);
+  const [isOpening, setIsOpening] = useState(false);
+
+  // 加载历史记录
+  const loadTasks = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiService.getScanTasks({
+        ...appliedFilters,
+        from: appliedFilters.from ? new Date(appliedFilters.from).toISOString() : undefined,
+        to: appliedFilters.to ? new Date(`${appliedFilters.to}T23:59:59`).toISOString() : undefined,
+        page,
+        pageSize: PAGE_SIZE,
+      });
+      if (response.success && response.data) {
+        setTasks(response.data.tasks);
+        setTotal(response.data.total);
+      } else {
+        setError(response.error || '获取历史记录失败');
+      }
+    } catch (error: any) {
+      console.error('获取历史记录失败:', error);
+      setError(error.response?.data?.error || '获取历史记录失败');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [appliedFilters, page]);
+
+  useEffect(() => {
+    loadTasks();
+  }, [loadTasks]);
+
+  // 提交筛选
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    setPage(1);
+    setAppliedFilters(filters);
+  };
+
+  // 更新筛选条件
+  const updateFilter = (key: keyof TaskHistoryQuery, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  // 重新打开任务
+  const handleOpenTask = async (task: TaskHistoryItem) => {
+    setIsOpening(true);
+    setError(null);
+
+    try {
+      if (task.type === 'batch') {
+        const response = await apiService.getBatchResults(task.id);
+        if (response.success && response.data) {
+          const files = response.data.files;
+          setOpenedScanId(null);
+          setOpenedTask({
+            batchId: task.id,
+            userId: user?._id || '',
+            files,
+            overallProgress: response.data.overallProgress,
+            status: response.data.status as BatchTask['status'],
+            totalFiles: files.length,
+            completedFiles: files.filter(f => f.status === 'completed').length,
+            failedFiles: files.filter(f => f.status === 'failed').length,
+            createdAt: new Date(task.createdAt),
+            updatedAt: new Date(task.updatedAt),
+          });
+        }
+      } else {
+        // 单文件扫描：包装为只有一个文件的批量任务展示
+        const statusResponse = await apiService.getScanStatus(task.id);
+        const scanTask = statusResponse.data;
+        let result: string | undefined;
+        let convertOptions: ConvertOptions | undefined;
+        let answerKey: string | undefined;
+        if (scanTask?.status === 'completed') {
+          const resultResponse = await apiService.getScanResult(task.id);
+          result = resultResponse.data?.result;
+          convertOptions = resultResponse.data?.convertOptions;
+          answerKey = resultResponse.data?.answerKey;
+        }
+        setOpenedScanId(task.id);
+        setOpenedTask({
+          batchId: '',
+          userId: user?._id || '',
+          files: [{
+            fileId: task.id,
+            fileName: task.fileNames[0] || '未命名文件',
+            fileSize: 0,
+            fileType: '',
+            status: (scanTask?.status === 'processing' ? 'mathpix-processing' : scanTask?.status || 'failed') as any,
+            progress: scanTask?.progress || 0,
+            result,
+            error: scanTask?.error,
+            convertOptions,
+            answerKey,
+            createdAt: new Date(task.createdAt),
+            updatedAt: new Date(task.updatedAt),
+          }],
+          overallProgress: scanTask?.progress || 0,
+          status: (scanTask?.status || 'failed') as BatchTask['status'],
+          totalFiles: 1,
+          completedFiles: scanTask?.status === 'completed' ? 1 : 0,
+          failedFiles: scanTask?.status === 'failed' ? 1 : 0,
+          createdAt: new Date(task.createdAt),
+          updatedAt: new Date(task.updatedAt),
+        });
+      }
+    } catch (error: any) {
+      console.error('打开扫描记录失败:', error);
+      setError(error.response?.data?.error || '打开扫描记录失败');
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  // 获取状态文本
+  const getStatusText = (status: string) => {
+    switch (status) {
+      case 'completed':
+        return '已完成';
+      case 'failed':
+        return '失败';
+      case 'cancelled':
+        return '已取消';
+      case 'pending':
+        return '等待中';
+      default:
+        return '处理中';
+    }
+  };
+
+  // 获取状态样式
+  const getStatusClass = (status: string) => {
+    switch (status) {
+      case 'completed':
+        return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+      case 'failed':
+        return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+      case 'cancelled':
+        return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200';
+      default:
+        return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen gradient-bg">
+      {/* 头部 */}
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <div className="w-8 h-8 bg-primary-600 dark:bg-gray-600 rounded-lg flex items-center justify-center mr-3">
+                <FileText className="w-5 h-5 text-white" />
+              </div>
+              <h1 className="text-xl font-semibold text-gray-900 dark:text-white">扫描历史</h1>
+            </div>
+
+            <div className="flex items-center space-x-4">
+              <ThemeToggle />
+              <Link to="/scan" className="btn-outline flex items-center text-sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                返回扫描
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* 主内容 */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {openedTask ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">扫描结果</h2>
+              <button onClick={() => setOpenedTask(null)} className="btn-outline flex items-center">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                返回列表
+              </button>
+            </div>
+            <BatchResultDisplay batchTask={openedTask} scanId={openedScanId || undefined} />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* 筛选 */}
+            <form onSubmit={handleSearch} className="card grid grid-cols-1 md:grid-cols-6 gap-3">
+              <input
+                type="text"
+                className="input md:col-span-2"
+                placeholder="搜索识别结果..."
+                value={filters.q || ''}
+                onChange={(e) => updateFilter('q', e.target.value)}
+              />
+              <input
+                type="text"
+                className="input"
+                placeholder="文件名"
+                value={filters.fileName || ''}
+                onChange={(e) => updateFilter('fileName', e.target.value)}
+              />
+              <select
+                className="input"
+                value={filters.status || ''}
+                onChange={(e) => updateFilter('status', e.target.value)}
+              >
+                <option value="">全部状态</option>
+                <option value="completed">已完成</option>
+                <option value="processing">处理中</option>
+                <option value="failed">失败</option>
+                <option value="cancelled">已取消</option>
+              </select>
+              <select
+                className="input"
+                value={filters.type || ''}
+                onChange={(e) => updateFilter('type', e.target.value)}
+              >
+                <option value="">全部类型</option>
+                <option value="batch">批量扫描</option>
+                <option value="scan">单文件扫描</option>
+              </select>
+              <button type="submit" className="btn-primary flex items-center justify-center">
+                <Search className="w-4 h-4 mr-2" />
+                搜索
+              </button>
+              <div className="md:col-span-6 flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+                <span>日期</span>
+                <input
+                  type="date"
+                  className="input"
+                  value={filters.from || ''}
+                  onChange={(e) => updateFilter('from', e.target.value)}
+                />
+                <span>至</span>
+                <input
+                  type="date"
+                  className="input"
+                  value={filters.to || ''}
+                  onChange={(e) => updateFilter('to', e.target.value)}
+                />
+              </div>
+            </form>
+
+            {/* 错误提示 */}
+            {error && (
+              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 flex items-start">
+                <AlertCircle className="w-5 h-5 text-red-500 mt-0.5 mr-3 flex-shrink-0" />
+                <div className="text-sm text-red-700 dark:text-red-200">{error}</div>
+              </div>
+            )}
+
+            {/* 列表 */}
+            <div className="card">
+              {isLoading || isOpening ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+                </div>
+              ) : tasks.length === 0 ? (
+                <div className="text-center py-12">
+                  <FileText className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+                  <p className="text-gray-500 dark:text-gray-400">暂无扫描记录</p>
+                </div>
+              ) : (
+                <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {tasks.map((task) => (
+                    <button
+                      key={`${task.type}-${task.id}`}
+                      onClick={() => handleOpenTask(task)}
+                      className="w-full flex items-center justify-between py-3 px-2 text-left hover:bg-gray-50 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    >
+                      <div className="flex items-center space-x-3 min-w-0 flex-1">
+                        {task.type === 'batch' ? (
+                          <Files className="w-5 h-5 text-primary-600 flex-shrink-0" />
+                        ) : (
+                          <File className="w-5 h-5 text-gray-500 flex-shrink-0" />
+                        )}
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                            {task.fileNames.join('、') || '未命名文件'}
+                          </div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {new Date(task.createdAt).toLocaleString('zh-CN')}
+                            {task.type === 'batch' && ` · ${task.completedFiles}/${task.totalFiles} 个文件完成`}
+                          </div>
+                        </div>
+                      </div>
+                      <span className={`ml-4 px-2 py-1 text-xs font-medium rounded-full ${getStatusClass(task.status)}`}>
+                        {getStatusText(task.status)}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* 分页 */}
+              {total > PAGE_SIZE && (
+                <div className="flex items-center justify-center space-x-4 pt-4">
+                  <button
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                    className="btn-outline flex items-center text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </button>
+                  <span className="text-sm text-gray-600 dark:text-gray-400">
+                    {page} / {totalPages}（共 {total} 条）
+                  </span>
+                  <button
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= totalPages}
+                    className="btn-outline flex items-center text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default History;
@@ -1,18 +1,26 @@
 import React, { useState, useEffect } from 'react';
-import { LogOut, User, FileText } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { LogOut, User, FileText, History } from 'lucide-react';
 import { useAuthStore } from '../stores/authStore';
 import { apiService } from '../services/api';
 import MultiFileUploader from '../components/MultiFileUploader';
 import ProgressTracker from '../components/ProgressTracker';
 import BatchResultDisplay from '../components/BatchResultDisplay';
+import BatchExport from '../components/BatchExport';
 import ThemeToggle from '../components/ThemeToggle';
+import QuotaIndicator from '../components/QuotaIndicator';
+import ScreenSnip from '../components/ScreenSnip';
+import QuickFormula from '../components/QuickFormula';
+import PasteConvertPanel from '../components/PasteConvertPanel';
 import { useDocumentTitle, TitleState } from '../hooks/useDocumentTitle';
-import { FileTask } from '../types';
+import { FileTask, BatchTask, UploadLimits, OutputProfile } from '../types';
+import { OUTPUT_PROFILES } from '../utils/latexProfiles';
 
 interface BatchScanState {
   batchId: string | null;
   files: FileTask[];
   overallProgress: number;
+  estimatedTimeRemaining?: number;
   isProcessing: boolean;
   status: string;
   error: string | undefined;
@@ -30,6 +38,31 @@ const Scan: React.FC = () => {
     error: undefined,
   });
 
+  // 跳过结果缓存，强制重新识别
+  const [forceRescan, setForceRescan] = useState(false);
+
+  // 转换结果使用的 LaTeX 输出模板
+  const [outputProfile, setOutputProfile] = useState<OutputProfile>('tasks');
+
+  // 配额使用情况，上传和批量任务结束后刷新
+  const [quotaVersion, setQuotaVersion] = useState(0);
+
+  // 上传模式：文档扫描、单个公式识别或粘贴文本直接转换
+  const [uploadMode, setUploadMode] = useState<'document' | 'formula' | 'convert'>('document');
+
+  // 上传限制（按角色和企业配置），获取失败时使用上传组件的默认值
+  const [uploadLimits, setUploadLimits] = useState<UploadLimits | null>(null);
+
+  useEffect(() => {
+    apiService.getUploadLimits()
+      .then(response => {
+        if (response.success && response.data) {
+          setUploadLimits(response.data);
+        }
+      })
+      .catch(error => console.error('获取上传限制失败:', error));
+  }, []);
+
   // 动态标题状态
   const getTitleState = (): TitleState => {
     if (batchState.isProcessing) return 'processing';
@@ -42,7 +75,7 @@ const Scan: React.FC = () => {
   useDocumentTitle(getTitleState());
 
   // 处理批量文件选择
-  const handleBatchFilesSelect = async (files: File[]) => {
+  const handleBatchFilesSelect = async (files: File[], pageRanges: string[]) => {
     try {
       setBatchState(prev => ({
         ...prev,
@@ -50,7 +83,7 @@ const Scan: React.FC = () => {
         error: undefined,
       }));
 
-      const response = await apiService.uploadBatchFiles(files);
+      const response = await apiService.uploadBatchFiles(files, { force: forceRescan, pageRanges, profile: outputProfile });
       if (response.success && response.data) {
         setBatchState(prev => ({
           ...prev,
@@ -70,7 +103,67 @@ const Scan: React.FC = () => {
       setBatchState(prev => ({
         ...prev,
         isProcessing: false,
-        error: error.message || '批量上传失败',
+        error: error.response?.data?.error || error.message || '批量上传失败',
+      }));
+      if (error.response?.status === 429) {
+        setQuotaVersion(version => version + 1);
+      }
+    }
+  };
+
+  // 取消整个批量任务
+  const handleCancelBatch = async () => {
+    if (!batchState.batchId) return;
+
+    try {
+      await apiService.cancelBatch(batchState.batchId);
+    } catch (error: any) {
+      console.error('取消批量任务失败:', error);
+      setBatchState(prev => ({
+        ...prev,
+        error: error.response?.data?.error || '取消批量任务失败',
+      }));
+    }
+  };
+
+  // 取消单个文件
+  const handleCancelFile = async (fileId: string) => {
+    if (!batchState.batchId) return;
+
+    try {
+      await apiService.cancelFile(batchState.batchId, fileId);
+    } catch (error: any) {
+      console.error('取消文件失败:', error);
+      setBatchState(prev => ({
+        ...prev,
+        error: error.response?.data?.error || '取消文件失败',
+      }));
+    }
+  };
+
+  // 重试处理失败的文件
+  const handleRetryFile = async (fileId: string) => {
+    if (!batchState.batchId) return;
+
+    try {
+      const response = await apiService.retryFile(batchState.batchId, fileId);
+      if (response.success) {
+        // 恢复轮询以跟踪重试进度
+        setBatchState(prev => ({
+          ...prev,
+          files: prev.files.map(file => file.fileId === fileId
+            ? { ...file, status: 'pending', progress: 0, error: undefined }
+            : file),
+          status: 'processing',
+          isProcessing: true,
+          error: undefined,
+        }));
+      }
+    } catch (error: any) {
+      console.error('重试文件失败:', error);
+      setBatchState(prev => ({
+        ...prev,
+        error: error.response?.data?.error || '重试文件失败',
       }));
     }
   };
@@ -79,37 +172,104 @@ const Scan: React.FC = () => {
     await logout();
   };
 
-  // 轮询批量任务状态
+  const isBatchFinished = ['completed', 'failed', 'cancelled'].includes(batchState.status);
+
+  // 订阅批量任务进度：优先使用 SSE 推送，不可用时回退为轮询
   useEffect(() => {
-    if (!batchState.batchId || batchState.status === 'completed' || batchState.status === 'failed') {
+    if (!batchState.batchId || isBatchFinished) {
       return;
     }
 
-    const pollInterval = setInterval(async () => {
-      try {
-        const response = await apiService.getBatchStatus(batchState.batchId!);
-        if (response.success && response.data) {
-          const batchTask = response.data;
+    const batchId = batchState.batchId;
+    let eventSource: EventSource | null = null;
+    let pollInterval: ReturnType<typeof setInterval> | null = null;
+    let active = true;
+
+    const applyBatchTask = (batchTask: BatchTask) => {
+      setBatchState(prev => ({
+        ...prev,
+        files: batchTask.files,
+        overallProgress: batchTask.overallProgress,
+        estimatedTimeRemaining: batchTask.estimatedTimeRemaining,
+        status: batchTask.status,
+        isProcessing: batchTask.status === 'processing',
+      }));
+    };
+
+    const startPolling = () => {
+      pollInterval = setInterval(async () => {
+        try {
+          const response = await apiService.getBatchStatus(batchId);
+          if (response.success && response.data) {
+            applyBatchTask(response.data);
+          }
+        } catch (error) {
+          console.error('轮询批量任务状态失败:', error);
           setBatchState(prev => ({
             ...prev,
-            files: batchTask.files,
-            overallProgress: batchTask.overallProgress,
-            status: batchTask.status,
-            isProcessing: batchTask.status === 'processing',
+            error: '获取批量任务状态失败',
+            isProcessing: false,
           }));
         }
+      }, 2000);
+    };
+
+    const subscribe = async () => {
+      // EventSource 无法设置请求头，地址中携带该批次的短期访问令牌
+      let mediaToken: string | undefined;
+      try {
+        const response = await apiService.getMediaToken({ batchId });
+        mediaToken = response.success ? response.data?.token : undefined;
       } catch (error) {
-        console.error('轮询批量任务状态失败:', error);
-        setBatchState(prev => ({
-          ...prev,
-          error: '获取批量任务状态失败',
-          isProcessing: false,
-        }));
+        console.error('获取访问令牌失败:', error);
+      }
+      if (!active) {
+        return;
+      }
+      if (!mediaToken) {
+        startPolling();
+        return;
       }
-    }, 2000);
 
-    return () => clearInterval(pollInterval);
-  }, [batchState.batchId, batchState.status]);
+      eventSource = new EventSource(apiService.getBatchEventsUrl(batchId, mediaToken));
+      eventSource.addEventListener('batch', (event) => {
+        applyBatchTask(JSON.parse((event as MessageEvent).data));
+      });
+      eventSource.addEventListener('end', () => {
+        eventSource?.close();
+      });
+      eventSource.onerror = () => {
+        // 推送连接不可用（网络中断、代理不支持、令牌过期等），改为轮询
+        console.warn('批量任务进度推送不可用，改为轮询');
+        eventSource?.close();
+        eventSource = null;
+        if (!pollInterval) {
+          startPolling();
+        }
+      };
+    };
+
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+    } else {
+      subscribe();
+    }
+
+    return () => {
+      active = false;
+      eventSource?.close();
+      if (pollInterval) {
+        clearInterval(pollInterval);
+      }
+    };
+  }, [batchState.batchId, isBatchFinished]);
+
+  // 批量任务结束后刷新配额使用情况
+  useEffect(() => {
+    if (isBatchFinished) {
+      setQuotaVersion(version => version + 1);
+    }
+  }, [isBatchFinished]);
 
   const resetBatch = () => {
     setBatchState({
@@ -136,7 +296,15 @@ const Scan: React.FC = () => {
             </div>
             
             <div className="flex items-center space-x-4">
+              <Link
+                to="/history"
+                className="flex items-center text-sm text-gray-700 dark:text-gray-300 hover:text-primary-600 dark:hover:text-white"
+              >
+                <History className="w-4 h-4 mr-2" />
+                历史记录
+              </Link>
               <ThemeToggle />
+              <QuotaIndicator refreshKey={quotaVersion} />
               <div className="flex items-center text-sm text-gray-700 dark:text-gray-300">
                 <User className="w-4 h-4 mr-2" />
                 {user?.name}
@@ -159,14 +327,74 @@ const Scan: React.FC = () => {
           {/* 上传区域 - 只在没有文件时显示 */}
           {batchState.files.length === 0 && (
             <div className="card">
-              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">上传文件</h2>
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center space-x-4">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">上传文件</h2>
+                  <div className="flex rounded-lg border border-gray-200 dark:border-gray-600 overflow-hidden text-sm">
+                    {([['document', '文档扫描'], ['formula', '公式识别'], ['convert', '文本转换']] as const).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => setUploadMode(mode)}
+                        className={`px-3 py-1 transition-colors ${
+                          uploadMode === mode
+                            ? 'bg-primary-600 text-white'
+                            : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {uploadMode === 'document' && (
+                  <ScreenSnip onScanned={() => setQuotaVersion(version => version + 1)} />
+                )}
+              </div>
               
-              <MultiFileUploader
-                onFilesSelect={handleBatchFilesSelect}
-                isUploading={batchState.isProcessing}
-                error={batchState.error}
-                maxFiles={10}
-              />
+              {uploadMode === 'document' && (
+                <MultiFileUploader
+                  onFilesSelect={handleBatchFilesSelect}
+                  isUploading={batchState.isProcessing}
+                  error={batchState.error}
+                  maxFiles={uploadLimits?.maxFiles}
+                  maxFileSize={uploadLimits?.maxFileSize}
+                />
+              )}
+              {uploadMode === 'formula' && (
+                <QuickFormula
+                  force={forceRescan}
+                  maxFileSize={uploadLimits?.maxFileSize}
+                  onRecognized={() => setQuotaVersion(version => version + 1)}
+                />
+              )}
+              {uploadMode === 'convert' && <PasteConvertPanel />}
+
+              {uploadMode === 'document' && (
+                <label className="flex items-center mt-4 text-sm text-gray-600 dark:text-gray-400">
+                  <span className="mr-2">输出模板</span>
+                  <select
+                    className="input py-1"
+                    value={outputProfile}
+                    onChange={(e) => setOutputProfile(e.target.value as OutputProfile)}
+                  >
+                    {OUTPUT_PROFILES.map(profile => (
+                      <option key={profile.value} value={profile.value}>{profile.label}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+
+              {uploadMode !== 'convert' && (
+                <label className="flex items-center mt-4 text-sm text-gray-600 dark:text-gray-400">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={forceRescan}
+                    onChange={(e) => setForceRescan(e.target.checked)}
+                  />
+                  强制重新识别（忽略已识别过的相同文件的缓存结果）
+                </label>
+              )}
             </div>
           )}
 
@@ -178,6 +406,7 @@ const Scan: React.FC = () => {
                 userId: user?._id || '',
                 files: batchState.files,
                 overallProgress: batchState.overallProgress,
+                estimatedTimeRemaining: batchState.estimatedTimeRemaining,
                 status: batchState.status as any,
                 totalFiles: batchState.files.length,
                 completedFiles: batchState.files.filter(f => f.status === 'completed').length,
@@ -185,6 +414,8 @@ const Scan: React.FC = () => {
                 createdAt: new Date(),
                 updatedAt: new Date()
               }}
+              onCancelBatch={handleCancelBatch}
+              onCancelFile={handleCancelFile}
             />
           )}
 
@@ -193,12 +424,17 @@ const Scan: React.FC = () => {
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <h2 className="text-lg font-semibold text-gray-900 dark:text-white">扫描结果</h2>
-                <button
-                  onClick={resetBatch}
-                  className="btn-outline"
-                >
-                  重新上传
-                </button>
+                <div className="flex items-center space-x-2">
+                  {batchState.batchId && (
+                    <BatchExport files={batchState.files} batchId={batchState.batchId} />
+                  )}
+                  <button
+                    onClick={resetBatch}
+                    className="btn-outline"
+                  >
+                    重新上传
+                  </button>
+                </div>
               </div>
               
               <BatchResultDisplay
@@ -214,6 +450,7 @@ const Scan: React.FC = () => {
                   createdAt: new Date(),
                   updatedAt: new Date()
                 }}
+                onRetryFile={handleRetryFile}
               />
             </div>
           )}
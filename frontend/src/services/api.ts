@@ -1,5 +1,5 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import { LoginRequest, LoginResponse, User, ScanTask, ScanResult, ApiResponse, BatchUploadResponse, BatchStatusResponse, BatchResultsResponse } from '../types';
+import { LoginRequest, LoginResponse, User, ScanTask, ScanResult, ApiResponse, BatchUploadResponse, BatchStatusResponse, BatchResultsResponse, TaskHistoryQuery, TaskHistoryResponse, ConvertOptions, OutputProfile, ReconvertTarget, ReconvertResponse, MediaTokenTarget, MediaToken, QuotaStatus, UploadLimits, FormulaResult } from '../types';
 
 class ApiService {
   private api: AxiosInstance;
@@ -61,9 +61,18 @@ class ApiService {
   }
 
   // 扫描相关
-  async uploadFile(file: File): Promise<ApiResponse<{ scanId: string; fileName: string; fileSize: number; fileType: string }>> {
+  async uploadFile(file: File, options: { force?: boolean; pageRanges?: string; profile?: OutputProfile } = {}): Promise<ApiResponse<{ scanId: string; fileName: string; fileSize: number; fileType: string }>> {
     const formData = new FormData();
     formData.append('file', file);
+    if (options.force) {
+      formData.append('force', 'true');
+    }
+    if (options.pageRanges) {
+      formData.append('pageRanges', options.pageRanges);
+    }
+    if (options.profile) {
+      formData.append('profile', options.profile);
+    }
 
     const response = await this.api.post<ApiResponse<{ scanId: string; fileName: string; fileSize: number; fileType: string }>>(
       '/scan/upload',
@@ -77,6 +86,25 @@ class ApiService {
     return response.data;
   }
 
+  async recognizeFormula(file: File, options: { force?: boolean } = {}): Promise<ApiResponse<FormulaResult>> {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (options.force) {
+      formData.append('force', 'true');
+    }
+
+    const response = await this.api.post<ApiResponse<FormulaResult>>(
+      '/scan/formula',
+      formData,
+      {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      }
+    );
+    return response.data;
+  }
+
   async getScanStatus(scanId: string): Promise<ApiResponse<ScanTask>> {
     const response = await this.api.get<ApiResponse<ScanTask>>(`/scan/status/${scanId}`);
     return response.data;
@@ -87,17 +115,56 @@ class ApiService {
     return response.data;
   }
 
-  async getScanTasks(): Promise<ApiResponse<{ tasks: ScanTask[] }>> {
-    const response = await this.api.get<ApiResponse<{ tasks: ScanTask[] }>>('/scan/tasks');
+  async getScanTasks(query: TaskHistoryQuery = {}): Promise<ApiResponse<TaskHistoryResponse>> {
+    const response = await this.api.get<ApiResponse<TaskHistoryResponse>>('/scan/tasks', {
+      params: query,
+    });
+    return response.data;
+  }
+
+  async getQuota(): Promise<ApiResponse<QuotaStatus>> {
+    const response = await this.api.get<ApiResponse<QuotaStatus>>('/scan/quota');
+    return response.data;
+  }
+
+  async getUploadLimits(): Promise<ApiResponse<UploadLimits>> {
+    const response = await this.api.get<ApiResponse<UploadLimits>>('/scan/upload-limits');
+    return response.data;
+  }
+
+  async reconvert(target: ReconvertTarget, options: ConvertOptions): Promise<ApiResponse<ReconvertResponse>> {
+    const response = await this.api.post<ApiResponse<ReconvertResponse>>('/scan/reconvert', {
+      ...target,
+      options,
+    });
+    return response.data;
+  }
+
+  // 转换粘贴的 MMD/Markdown 文本，不调用OCR
+  async convertText(text: string, options: ConvertOptions): Promise<ApiResponse<ReconvertResponse>> {
+    const response = await this.api.post<ApiResponse<ReconvertResponse>>('/convert', {
+      text,
+      options,
+    });
     return response.data;
   }
 
   // 批量扫描相关
-  async uploadBatchFiles(files: File[]): Promise<BatchUploadResponse> {
+  // pageRanges 与 files 顺序对应，空字符串表示识别整份文件
+  async uploadBatchFiles(files: File[], options: { force?: boolean; pageRanges?: string[]; profile?: OutputProfile } = {}): Promise<BatchUploadResponse> {
     const formData = new FormData();
     files.forEach(file => {
       formData.append('files', file);
     });
+    if (options.force) {
+      formData.append('force', 'true');
+    }
+    if (options.pageRanges?.some(Boolean)) {
+      formData.append('pageRanges', JSON.stringify(options.pageRanges));
+    }
+    if (options.profile) {
+      formData.append('profile', options.profile);
+    }
 
     const response = await this.api.post<BatchUploadResponse>(
       '/scan/batch-upload',
@@ -121,10 +188,71 @@ class ApiService {
     return response.data;
   }
 
-  // 获取原始文件URL
-  getOriginalFileUrl(batchId: string, fileId: string): string {
+  async cancelBatch(batchId: string): Promise<ApiResponse<{ batchId: string; cancelledFiles: number }>> {
+    const response = await this.api.post<ApiResponse<{ batchId: string; cancelledFiles: number }>>(`/scan/batch/${batchId}/cancel`);
+    return response.data;
+  }
+
+  async cancelFile(batchId: string, fileId: string): Promise<ApiResponse<{ batchId: string; fileId: string }>> {
+    const response = await this.api.post<ApiResponse<{ batchId: string; fileId: string }>>(`/scan/batch/${batchId}/files/${fileId}/cancel`);
+    return response.data;
+  }
+
+  async retryFile(batchId: string, fileId: string): Promise<ApiResponse<{ batchId: string; fileId: string }>> {
+    const response = await this.api.post<ApiResponse<{ batchId: string; fileId: string }>>(`/scan/batch/${batchId}/files/${fileId}/retry`);
+    return response.data;
+  }
+
+  // 获取批量任务进度推送（SSE）URL，EventSource 无法设置请求头，访问令牌通过查询参数传递
+  getBatchEventsUrl(batchId: string, mediaToken: string): string {
+    const baseURL = this.api.defaults.baseURL;
+    return `${baseURL}/scan/batch/${batchId}/events?token=${encodeURIComponent(mediaToken)}`;
+  }
+
+  // 获取任务资源的短期访问令牌，EventSource、<img> 和 PDF 预览无法设置请求头，地址中只携带该令牌
+  async getMediaToken(target: MediaTokenTarget): Promise<ApiResponse<MediaToken>> {
+    const response = await this.api.post<ApiResponse<MediaToken>>('/scan/media-token', target);
+    return response.data;
+  }
+
+  // 获取题目截图URL，访问令牌通过查询参数传递
+  getQuestionCropUrl(batchId: string, fileId: string, name: string, mediaToken: string): string {
+    const baseURL = this.api.defaults.baseURL;
+    return `${baseURL}/scan/batch/${batchId}/files/${fileId}/crops/${name}?token=${encodeURIComponent(mediaToken)}`;
+  }
+
+  // 下载题目截图（导出用）
+  async getQuestionCrop(batchId: string, fileId: string, name: string): Promise<Blob> {
+    const response = await this.api.get<Blob>(`/scan/batch/${batchId}/files/${fileId}/crops/${name}`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  }
+
+  // 获取插图URL，访问令牌通过查询参数传递
+  getFigureUrl(batchId: string, name: string, mediaToken: string): string {
+    const baseURL = this.api.defaults.baseURL;
+    return `${baseURL}/scan/batch/${batchId}/figures/${name}?token=${encodeURIComponent(mediaToken)}`;
+  }
+
+  // 获取单文件扫描结果中的插图URL，访问令牌通过查询参数传递
+  getScanFigureUrl(scanId: string, name: string, mediaToken: string): string {
+    const baseURL = this.api.defaults.baseURL;
+    return `${baseURL}/scan/result/${scanId}/figures/${name}?token=${encodeURIComponent(mediaToken)}`;
+  }
+
+  // 下载插图（导出用）
+  async getFigure(batchId: string, name: string): Promise<Blob> {
+    const response = await this.api.get<Blob>(`/scan/batch/${batchId}/figures/${name}`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  }
+
+  // 获取原始文件URL，供 <img> 和 PDF 预览直接加载，访问令牌通过查询参数传递
+  getOriginalFileUrl(batchId: string, fileId: string, mediaToken: string): string {
     const baseURL = this.api.defaults.baseURL;
-    return `${baseURL}/scan/original-file/${batchId}/${fileId}`;
+    return `${baseURL}/scan/original-file/${batchId}/${fileId}?token=${encodeURIComponent(mediaToken)}`;
   }
 }
 
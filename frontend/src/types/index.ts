@@ -31,14 +31,21 @@ export interface ScanTask {
   status: 'pending' | 'processing' | 'completed' | 'failed';
   progress: number;
   error?: string;
+  cached?: boolean;
+  pageRanges?: string; // 只识别PDF的指定页码
   createdAt: string;
   updatedAt: string;
+  estimatedTimeRemaining?: number; // 预估剩余时间（秒）
 }
 
 export interface ScanResult {
   scanId: string;
   status: string;
   result: string;
+  rawResult?: string; // Mathpix 原始 MMD（公式为 $...$ 包裹的 LaTeX）
+  convertOptions?: ConvertOptions;
+  questionMetadata?: QuestionMetadata[];
+  answerKey?: string;
   createdAt: string;
   completedAt: string;
 }
@@ -56,11 +63,17 @@ export interface FileTask {
   fileName: string;
   fileSize: number;
   fileType: string;
-  status: 'pending' | 'uploading' | 'mathpix-processing' | 'converting' | 'completed' | 'failed';
+  status: 'pending' | 'uploading' | 'mathpix-processing' | 'converting' | 'completed' | 'failed' | 'cancelled';
   progress: number;
   result?: string;
   error?: string;
   originalFilePath?: string;
+  cached?: boolean; // 结果来自缓存，未重新调用Mathpix
+  pageRanges?: string; // 只识别PDF的指定页码
+  questions?: QuestionLocation[]; // 每道题在原文件中的位置
+  convertOptions?: ConvertOptions; // 转换结果使用的选项
+  questionMetadata?: QuestionMetadata[]; // 每道题的来源、分值等信息
+  answerKey?: string; // 单独输出的答案卷
   createdAt: Date;
   updatedAt: Date;
   estimatedTimeRemaining?: number; // 预估剩余时间（秒）
@@ -71,7 +84,7 @@ export interface BatchTask {
   userId: string;
   files: FileTask[];
   overallProgress: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   totalFiles: number;
   completedFiles: number;
   failedFiles: number;
@@ -113,5 +126,129 @@ export interface BatchResultsResponse {
   };
 }
 
+// 扫描历史相关类型
+export interface TaskHistoryItem {
+  type: 'scan' | 'batch';
+  id: string;
+  status: string;
+  fileNames: string[];
+  totalFiles: number;
+  completedFiles: number;
+  failedFiles: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TaskHistoryQuery {
+  page?: number;
+  pageSize?: number;
+  type?: 'scan' | 'batch';
+  status?: string;
+  from?: string;
+  to?: string;
+  fileName?: string;
+  q?: string;
+}
+
+export interface TaskHistoryResponse {
+  tasks: TaskHistoryItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// 题目定位相关类型（像素坐标，pageWidth/pageHeight 为识别时的页面尺寸，未知时为 0）
+export interface QuestionRegion {
+  page: number;
+  pageWidth: number;
+  pageHeight: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface QuestionLocation {
+  number: number;
+  page: number;
+  regions: QuestionRegion[];
+  crop?: string; // 原文件截图文件名（.png 或 .pdf）
+}
+
+// 重新转换相关类型
+export type OutputProfile = 'tasks' | 'exam' | 'enumerate' | 'exam-zh';
+
+export interface ConvertOptions {
+  dfrac?: boolean;
+  mathbb?: boolean;
+  removeScores?: boolean;
+  choiceColumns?: number;
+  profile?: OutputProfile; // LaTeX 输出模板，默认 tasks
+  metadata?: 'comment' | 'macro'; // 在每道题前输出题目信息
+  answers?: 'solution' | 'answer' | 'key'; // 答案与解析的输出方式，默认不输出
+}
+
+// 题目信息（来源、分值等）
+export interface QuestionMetadata {
+  originalNumber: number;
+  source?: string;
+  schoolYear?: string;
+  grade?: string;
+  semester?: '上' | '下';
+  region?: string;
+  examType?: string;
+  score?: number;
+}
+
+export type ReconvertTarget = { scanId: string } | { batchId: string; fileId: string };
+
+// 短期访问令牌，用于原始文件、题目截图和插图地址
+export type MediaTokenTarget = { scanId: string } | { batchId: string };
+
+export interface MediaToken {
+  token: string;
+  expiresAt: string;
+}
+
+export interface ReconvertResponse {
+  result: string;
+  metadata: QuestionMetadata[];
+  answerKey?: string;
+  options: ConvertOptions;
+}
+
+// 配额相关类型
+export interface QuotaMeter {
+  limit: number;
+  used: number;
+  remaining: number | null;
+}
+
+export interface QuotaUsage {
+  monthlyPages: QuotaMeter;
+  dailyFiles: QuotaMeter;
+}
+
+export interface QuotaStatus {
+  user: QuotaUsage;
+  enterprise?: QuotaUsage & { key: string };
+}
+
+// 上传限制（按用户角色和企业配置）
+export interface UploadLimits {
+  maxFileSize: number; // 单个文件大小上限（字节）
+  maxFiles: number; // 批量上传的文件数上限
+}
+
+// 单个公式的识别结果
+export interface FormulaResult {
+  latex: string;
+  latexStyled?: string; // 带样式的LaTeX（保留 \left( 、\mathrm 等排版命令）
+  asciimath?: string;
+  mathml?: string;
+  text: string; // 识别出的完整文本（MMD）
+  cached: boolean;
+}
+
 // 视图模式类型
 export type ViewMode = 'raw' | 'edit' | 'preview';
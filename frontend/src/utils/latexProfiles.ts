@@ -0,0 +1,99 @@
+import { OutputProfile } from '../types';
+
+// answerEnvironment 为文档类自带的答案环境，题后答案统一使用该环境
+export const OUTPUT_PROFILES: Array<{ value: OutputProfile; label: string; answerEnvironment?: string }> = [
+  { value: 'tasks', label: 'tasks/problem（默认）' },
+  { value: 'exam', label: 'exam 文档类', answerEnvironment: 'solution' },
+  { value: 'enumerate', label: '标准 enumerate 列表' },
+  { value: 'exam-zh', label: 'exam-zh 文档类', answerEnvironment: 'solution' },
+];
+
+const FILLIN_PATTERN = /\\fillin(?:\[[^\]]*\]){0,2}/g;
+
+// 按嵌套层级重命名同名环境，names 中为 null 的层级去掉环境标记
+const renameNestedEnvironment = (text: string, environment: string, names: Array<string | null>): string => {
+  let depth = 0;
+  return text.replace(new RegExp(`\\\\(begin|end)\\{${environment}\\}`, 'g'), (_, command: string) => {
+    const level = command === 'begin' ? depth++ : --depth;
+    const name = names[Math.min(Math.max(level, 0), names.length - 1)];
+    return name ? `\\${command}{${name}}` : '';
+  });
+};
+
+// 分值参数显示在题干前
+const formatPoints = (points?: string): string => (points ? `\\item （${points}分）` : '\\item ');
+
+// exam 文档类
+const normalizeExam = (text: string): string => {
+  let processed = text.replace(/\\(begin|end)\{questions\}/g, '');
+  processed = processed.replace(/\\question(?:\[(\d+)\])?[ \t]*/g, (_, points) => formatPoints(points));
+
+  // oneparchoices 所有选项排在一行，choices 每行一个
+  processed = processed.replace(/\\begin\{(oneparchoices|choices)\}([\s\S]*?)\\end\{\1\}/g, (_, environment: string, content: string) => {
+    const choices = content.split(/\\choice(?![a-zA-Z])/).map(choice => choice.trim()).filter(Boolean);
+    const columns = environment === 'oneparchoices' ? choices.length : 1;
+    return `\\begin{tasks}(${columns})\n${choices.map(choice => `\\task ${choice}`).join('\n')}\n\\end{tasks}`;
+  });
+
+  processed = processed.replace(/\\(begin|end)\{parts\}/g, '\\$1{problem}');
+  processed = processed.replace(/\\(begin|end)\{sub(?:sub)?parts\}/g, '\\$1{subproblem}');
+  processed = processed.replace(/\\(?:sub){0,2}part(?![a-zA-Z])/g, '\\item');
+  return processed.replace(FILLIN_PATTERN, '\\underlines');
+};
+
+// 标准 enumerate 列表：最外层为题目列表，内层为小问
+const normalizeEnumerate = (text: string): string => {
+  let processed = renameNestedEnvironment(text, 'enumerate', [null, 'problem', 'subproblem']);
+  processed = processed.replace(/\\item\[[^\]]*\]/g, '\\item');
+  // 同一行的选项之间用全角空格分隔
+  processed = processed.replace(/\\qquad\s*(?=[A-H]\.\s)/g, '　　');
+  return processed.replace(/\\underline\{\\hspace\{[^}]*\}\}/g, '\\underlines');
+};
+
+// exam-zh 文档类
+const normalizeExamZh = (text: string): string => {
+  let processed = text.replace(/\\begin\{(?:question|problem)\}(?:\[\s*points\s*=\s*(\d+)\s*\])?\s*/g, (_, points) => formatPoints(points));
+  processed = processed.replace(/\\end\{(?:question|problem)\}/g, '');
+  // 题目的 problem 环境已处理，剩余的 enumerate 为小问
+  processed = renameNestedEnvironment(processed, 'enumerate', ['problem', 'subproblem']);
+
+  processed = processed.replace(/\\begin\{choices\}(?:\[\s*columns\s*=\s*(\d+)\s*\])?([\s\S]*?)\\end\{choices\}/g, (_, columns: string | undefined, content: string) => {
+    const choices = content.split(/\\item\b/).map(choice => choice.trim()).filter(Boolean);
+    return `\\begin{tasks}(${columns || 1})\n${choices.map(choice => `\\task ${choice}`).join('\n')}\n\\end{tasks}`;
+  });
+
+  processed = processed.replace(/\\paren(?:\[[^\]]*\])?/g, '\\dotfill（\\qquad \\qquad）');
+  return processed.replace(FILLIN_PATTERN, '\\underlines');
+};
+
+// 未能下载到本地的插图输出为注释中的原链接和占位框，预览中按原链接显示
+const REMOTE_FIGURE = /^% 远程插图：(\S+)\n\\fbox\{\\parbox\{[^{}]*\}\{\\centering 插图\}\}/gm;
+
+// 题目前的题目信息（LaTeX 注释或 \questionmeta 宏），预览中不显示
+const METADATA_LINE = /^(?:%.*|\\questionmeta(?:\{[^{}]*\})*)\n/gm;
+
+// 题后的答案环境显示为引用块，答案卷的标题和题号转换为 Markdown
+const normalizeAnswers = (text: string): string => {
+  let processed = text.replace(/\\begin\{(solution|answer)\}\n?([\s\S]*?)\n?\\end\{\1\}/g, (_, __, content: string) =>
+    content.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n')
+  );
+  processed = processed.replace(/^\\section\*\{([^{}]*)\}/gm, '### $1');
+  return processed.replace(/\\textbf\{([^{}]*)\}/g, '**$1**');
+};
+
+/**
+ * 去掉题目信息，转换答案与解析，并将其他输出模板的写法转换为 tasks 模板的写法，供预览组件统一处理
+ */
+export const normalizeProfile = (text: string, profile: OutputProfile = 'tasks'): string => {
+  const processed = normalizeAnswers(text.replace(REMOTE_FIGURE, '![插图]($1)').replace(METADATA_LINE, ''));
+  switch (profile) {
+    case 'exam':
+      return normalizeExam(processed);
+    case 'enumerate':
+      return normalizeEnumerate(processed);
+    case 'exam-zh':
+      return normalizeExamZh(processed);
+    default:
+      return processed;
+  }
+};